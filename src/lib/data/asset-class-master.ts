@@ -0,0 +1,25 @@
+/**
+ * Asset Class Master
+ * Asset class of exchange-traded funds and mutual fund units, keyed by ISIN.
+ *
+ * Equity shares (INE ISINs) are not listed here; they are always EQUITY.
+ * This is a bundled subset covering widely held ETFs. Fund units missing
+ * here use the class inferred from an imported statement, a user override,
+ * or the equity fund rules.
+ */
+import type { AssetClass } from '$lib/types';
+
+export const ASSET_CLASS_MASTER: Readonly<Record<string, AssetClass>> = {
+	/** Nippon India ETF Nifty 50 BeES (NIFTYBEES) */
+	INF204KB14I2: 'EQUITY_ETF',
+	/** Nippon India ETF Nifty Bank BeES (BANKBEES) */
+	INF204KB15I9: 'EQUITY_ETF',
+	/** SBI Nifty 50 ETF (SETFNIF50) */
+	INF200KA1FS1: 'EQUITY_ETF',
+	/** CPSE ETF (CPSEETF) */
+	INF457M01133: 'EQUITY_ETF',
+	/** Nippon India ETF Gold BeES (GOLDBEES) */
+	INF204KB17I5: 'GOLD_ETF',
+	/** Nippon India ETF Nifty 1D Rate Liquid BeES (LIQUIDBEES) */
+	INF732E01037: 'DEBT_FUND'
+};
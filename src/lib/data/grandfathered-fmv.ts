@@ -0,0 +1,38 @@
+/**
+ * Grandfathered Fair Market Value Table
+ * Highest price quoted on a recognised stock exchange on 31 January 2018,
+ * keyed by the ISIN the share traded under on that date.
+ *
+ * Used for the Section 112A grandfathering rule on lots acquired before
+ * 1 February 2018. Prices are per share as of 31 January 2018; later splits
+ * and consolidations are applied to the lot by the corporate actions engine.
+ *
+ * This is a bundled subset covering commonly held large caps. Holdings whose
+ * ISIN is missing here fall back to their actual cost of acquisition.
+ */
+export const GRANDFATHERED_FMV: Readonly<Record<string, number>> = {
+	/** Reliance Industries */
+	INE002A01018: 966.0,
+	/** Tata Consultancy Services */
+	INE467B01029: 3121.0,
+	/** Infosys */
+	INE009A01021: 1170.0,
+	/** HDFC Bank (pre-2019 face value ISIN) */
+	INE040A01026: 1990.0,
+	/** ICICI Bank */
+	INE090A01021: 365.0,
+	/** ITC */
+	INE154A01025: 275.0,
+	/** State Bank of India */
+	INE062A01020: 317.0,
+	/** Hindustan Unilever */
+	INE030A01027: 1420.0,
+	/** Larsen & Toubro */
+	INE018A01030: 1470.0,
+	/** Axis Bank */
+	INE238A01034: 623.0,
+	/** Kotak Mahindra Bank */
+	INE237A01028: 1130.0,
+	/** Bharti Airtel */
+	INE397D01024: 453.0
+};
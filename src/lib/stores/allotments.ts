@@ -0,0 +1,137 @@
+/**
+ * Allotments Store
+ * Manages IPO and rights allotments and call money paid on partly-paid shares,
+ * which add FIFO lots and lot cost outside the tradebook
+ */
+
+import { writable } from 'svelte/store';
+import type { CallMoneyPayment, ParseIssue, ShareAllotment } from '$lib/types';
+import { parseAllotmentsCsv, validateAllotment, validateCallMoneyPayment } from '$lib/utils/allotments';
+
+/**
+ * Store for all recorded IPO and rights allotments
+ */
+export const allotments = writable<ShareAllotment[]>([]);
+
+/**
+ * Store for all recorded call money payments
+ */
+export const callPayments = writable<CallMoneyPayment[]>([]);
+
+/**
+ * Generates a unique ID for an allotment or call money payment
+ */
+function generateId(prefix: string): string {
+	return `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Normalizes and stores validated allotments, keeping them in allotment order
+ */
+function storeAllotments(records: Omit<ShareAllotment, 'id'>[]): ShareAllotment[] {
+	const stored = records.map((allotment) => ({
+		...allotment,
+		id: generateId('al'),
+		symbol: allotment.symbol.trim().toUpperCase(),
+		isin: allotment.isin.trim().toUpperCase(),
+		exchange: allotment.exchange.trim().toUpperCase() || 'NSE',
+		entitlementSymbol: allotment.entitlementSymbol.trim().toUpperCase(),
+		entitlementIsin: allotment.entitlementIsin.trim().toUpperCase()
+	}));
+
+	allotments.update((current) =>
+		[...current, ...stored].sort((a, b) => a.allotmentDate.getTime() - b.allotmentDate.getTime())
+	);
+
+	return stored;
+}
+
+/**
+ * Records a manually entered allotment after validating it
+ *
+ * @param allotment - Allotment details without an ID
+ * @returns The stored allotment
+ * @throws Error if the allotment is invalid
+ */
+export function addAllotment(allotment: Omit<ShareAllotment, 'id'>): ShareAllotment {
+	const validationError = validateAllotment(allotment);
+	if (validationError) {
+		throw new Error(validationError);
+	}
+
+	return storeAllotments([allotment])[0];
+}
+
+/**
+ * Imports allotments from an allotments CSV
+ *
+ * @param file - Allotments CSV selected by the user
+ * @returns Rows that could not be imported
+ * @throws Error if the file cannot be read or is not an allotments export
+ */
+export async function importAllotmentsCsv(file: File): Promise<ParseIssue[]> {
+	const content = await file.text();
+	const { allotments: parsed, issues } = parseAllotmentsCsv(content);
+
+	if (parsed.length === 0) {
+		throw new Error(`No allotments found in ${file.name}`);
+	}
+
+	storeAllotments(parsed);
+	return issues;
+}
+
+/**
+ * Removes a recorded allotment
+ *
+ * @param id - ID of the allotment to remove
+ */
+export function removeAllotment(id: string): void {
+	allotments.update((current) => current.filter((allotment) => allotment.id !== id));
+}
+
+/**
+ * Records a call money payment after validating it
+ *
+ * @param payment - Payment details without an ID
+ * @returns The stored payment
+ * @throws Error if the payment is invalid
+ */
+export function addCallPayment(payment: Omit<CallMoneyPayment, 'id'>): CallMoneyPayment {
+	const validationError = validateCallMoneyPayment(payment);
+	if (validationError) {
+		throw new Error(validationError);
+	}
+
+	const record: CallMoneyPayment = {
+		...payment,
+		id: generateId('cm'),
+		symbol: payment.symbol.trim().toUpperCase(),
+		isin: payment.isin.trim().toUpperCase(),
+		fullyPaidSymbol: payment.fullyPaidSymbol.trim().toUpperCase(),
+		fullyPaidIsin: payment.fullyPaidIsin.trim().toUpperCase()
+	};
+
+	callPayments.update((current) =>
+		[...current, record].sort((a, b) => a.paymentDate.getTime() - b.paymentDate.getTime())
+	);
+
+	return record;
+}
+
+/**
+ * Removes a recorded call money payment
+ *
+ * @param id - ID of the payment to remove
+ */
+export function removeCallPayment(id: string): void {
+	callPayments.update((current) => current.filter((payment) => payment.id !== id));
+}
+
+/**
+ * Clears all recorded allotments and call money payments
+ */
+export function clearAllotments(): void {
+	allotments.set([]);
+	callPayments.set([]);
+}
@@ -0,0 +1,186 @@
+/**
+ * Carry Forward Store
+ * Manages the capital loss carry-forward ledger (Schedule CFL), persisted in
+ * Supabase so balances survive across sessions and financial years
+ */
+
+import { writable, get } from 'svelte/store';
+import type { CarryForwardLoss } from '$lib/types';
+import { supabase, type CarryForwardLossInsert, type CarryForwardLossRow } from '$lib/supabase';
+import { getFyStartDate } from '$lib/utils/financial-year';
+
+/**
+ * Store for the carry-forward ledger, oldest loss year first
+ */
+export const carryForwardLosses = writable<CarryForwardLoss[]>([]);
+
+/**
+ * Balance of one loss year, as entered from a filed return
+ */
+export interface CarryForwardLossInput {
+	/** 1 April of the FY the loss was incurred in */
+	lossFyStart: Date;
+	/** Short-term loss still to be set off */
+	shortTerm: number;
+	/** Long-term loss still to be set off */
+	longTerm: number;
+	/** Whether the return for the loss year was filed by the due date */
+	filedOnTime: boolean;
+}
+
+/**
+ * Maps a database row to a CarryForwardLoss
+ */
+function mapRowToLoss(row: CarryForwardLossRow): CarryForwardLoss {
+	return {
+		id: row.id,
+		lossFyStart: new Date(row.loss_fy, 3, 1),
+		shortTerm: Number(row.short_term_loss),
+		longTerm: Number(row.long_term_loss),
+		filedOnTime: row.filed_on_time,
+		source: row.source === 'TRADEBOOK' ? 'TRADEBOOK' : 'ITR'
+	};
+}
+
+/**
+ * Gets the signed-in user's ID
+ *
+ * @throws Error if nobody is signed in
+ */
+async function getUserId(): Promise<string> {
+	const {
+		data: { user }
+	} = await supabase.auth.getUser();
+
+	if (!user) {
+		throw new Error('User must be authenticated to save carry-forward losses');
+	}
+
+	return user.id;
+}
+
+/**
+ * Upserts ledger rows, one per loss year, and reloads the ledger
+ */
+async function upsertRows(rows: CarryForwardLossInsert[]): Promise<void> {
+	// Use type assertion to work around Supabase generic inference issue
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	const { error } = await (supabase.from('capital_loss_carry_forwards') as any).upsert(rows, {
+		onConflict: 'user_id,loss_fy'
+	});
+
+	if (error) {
+		console.error('Error saving carry-forward losses:', error);
+		throw error;
+	}
+
+	await loadCarryForwardLosses();
+}
+
+/**
+ * Loads the carry-forward ledger from Supabase for the current user
+ */
+export async function loadCarryForwardLosses(): Promise<void> {
+	const { data, error } = await supabase
+		.from('capital_loss_carry_forwards')
+		.select('*')
+		.order('loss_fy', { ascending: true });
+
+	if (error) {
+		console.error('Error loading carry-forward losses:', error);
+		throw error;
+	}
+
+	// Type assertion needed due to Supabase generic inference limitations
+	const rows = data as CarryForwardLossRow[] | null;
+	carryForwardLosses.set((rows ?? []).map(mapRowToLoss));
+}
+
+/**
+ * Saves the balance of a loss year from a filed return, replacing any balance for that year
+ *
+ * @param input - Loss year, balances and whether the return was filed on time
+ * @throws Error if the year is not a past FY or no loss is entered
+ */
+export async function saveCarryForwardLoss(input: CarryForwardLossInput): Promise<void> {
+	if (input.lossFyStart >= getFyStartDate()) {
+		throw new Error('Loss year must be a past financial year');
+	}
+
+	const amounts = [input.shortTerm, input.longTerm];
+	if (amounts.some((amount) => !Number.isFinite(amount) || amount < 0)) {
+		throw new Error('Losses must be zero or positive amounts');
+	}
+
+	if (amounts.every((amount) => amount === 0)) {
+		throw new Error('Enter a short-term or long-term loss');
+	}
+
+	await upsertRows([
+		{
+			user_id: await getUserId(),
+			loss_fy: input.lossFyStart.getFullYear(),
+			short_term_loss: input.shortTerm,
+			long_term_loss: input.longTerm,
+			filed_on_time: input.filedOnTime,
+			source: 'ITR',
+			updated_at: new Date().toISOString()
+		}
+	]);
+}
+
+/**
+ * Saves balances built from the tradebooks
+ * Years already entered from a filed return are kept, since the return is authoritative
+ *
+ * @param losses - Ledger built by buildCarryForwardLedger
+ */
+export async function saveTradebookLedger(losses: CarryForwardLoss[]): Promise<void> {
+	const filedYears = new Set(
+		get(carryForwardLosses)
+			.filter((loss) => loss.source === 'ITR')
+			.map((loss) => loss.lossFyStart.getFullYear())
+	);
+	const pending = losses.filter((loss) => !filedYears.has(loss.lossFyStart.getFullYear()));
+	if (pending.length === 0) {
+		return;
+	}
+
+	const userId = await getUserId();
+	const updatedAt = new Date().toISOString();
+	await upsertRows(
+		pending.map((loss) => ({
+			user_id: userId,
+			loss_fy: loss.lossFyStart.getFullYear(),
+			short_term_loss: loss.shortTerm,
+			long_term_loss: loss.longTerm,
+			filed_on_time: loss.filedOnTime,
+			source: 'TRADEBOOK',
+			updated_at: updatedAt
+		}))
+	);
+}
+
+/**
+ * Removes a loss year from the ledger
+ *
+ * @param id - The unique identifier of the ledger entry
+ */
+export async function removeCarryForwardLoss(id: string): Promise<void> {
+	const { error } = await supabase.from('capital_loss_carry_forwards').delete().eq('id', id);
+
+	if (error) {
+		console.error('Error removing carry-forward loss:', error);
+		throw error;
+	}
+
+	carryForwardLosses.update((current) => current.filter((loss) => loss.id !== id));
+}
+
+/**
+ * Clears the ledger from the store
+ * Used when resetting application state or during logout
+ */
+export function clearCarryForwardLosses(): void {
+	carryForwardLosses.set([]);
+}
@@ -0,0 +1,60 @@
+/**
+ * Charges Store
+ * Manages contract-note charges imported from charges CSVs, which are spread
+ * across equity trades to adjust cost of acquisition and sale value
+ */
+
+import { writable } from 'svelte/store';
+import type { ContractNoteCharges, ParseIssue } from '$lib/types';
+import { parseChargesCsv } from '$lib/utils/charges';
+
+/**
+ * Store for all imported contract-note charges
+ */
+export const contractNoteCharges = writable<ContractNoteCharges[]>([]);
+
+/**
+ * Generates a unique ID for a charges record
+ */
+function generateChargesId(): string {
+	return `ch_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Imports charges from a contract-note charges CSV
+ *
+ * @param file - Charges CSV selected by the user
+ * @returns Rows that could not be imported
+ * @throws Error if the file cannot be read or is not a charges export
+ */
+export async function importChargesCsv(file: File): Promise<ParseIssue[]> {
+	const content = await file.text();
+	const { charges, issues } = parseChargesCsv(content);
+
+	if (charges.length === 0) {
+		throw new Error(`No equity charges found in ${file.name}`);
+	}
+
+	const records = charges.map((record) => ({ ...record, id: generateChargesId() }));
+	contractNoteCharges.update((current) =>
+		[...current, ...records].sort((a, b) => a.tradeDate.getTime() - b.tradeDate.getTime())
+	);
+
+	return issues;
+}
+
+/**
+ * Removes an imported charges record
+ *
+ * @param id - ID of the charges record to remove
+ */
+export function removeCharges(id: string): void {
+	contractNoteCharges.update((current) => current.filter((record) => record.id !== id));
+}
+
+/**
+ * Clears all imported charges
+ */
+export function clearCharges(): void {
+	contractNoteCharges.set([]);
+}
@@ -0,0 +1,65 @@
+/**
+ * Corporate Actions Store
+ * Manages user-recorded splits, consolidations and bonus issues
+ * that are replayed against FIFO lots during portfolio analysis
+ */
+
+import { writable } from 'svelte/store';
+import type { CorporateAction } from '$lib/types';
+import { validateCorporateAction } from '$lib/utils/corporate-actions';
+
+/**
+ * Store for all recorded corporate actions
+ */
+export const corporateActions = writable<CorporateAction[]>([]);
+
+/**
+ * Generates a unique ID for a corporate action
+ */
+function generateActionId(): string {
+	return `ca_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Records a new corporate action after validating it
+ *
+ * @param action - Corporate action details without an ID
+ * @returns The stored corporate action
+ * @throws Error if the action is invalid
+ */
+export function addCorporateAction(action: Omit<CorporateAction, 'id'>): CorporateAction {
+	const validationError = validateCorporateAction(action);
+	if (validationError) {
+		throw new Error(validationError);
+	}
+
+	const record: CorporateAction = {
+		...action,
+		id: generateActionId(),
+		isin: action.isin.trim().toUpperCase(),
+		symbol: action.symbol.trim().toUpperCase(),
+		newIsin: action.newIsin?.trim().toUpperCase() || undefined
+	};
+
+	corporateActions.update((current) =>
+		[...current, record].sort((a, b) => a.exDate.getTime() - b.exDate.getTime())
+	);
+
+	return record;
+}
+
+/**
+ * Removes a recorded corporate action
+ *
+ * @param id - ID of the corporate action to remove
+ */
+export function removeCorporateAction(id: string): void {
+	corporateActions.update((current) => current.filter((action) => action.id !== id));
+}
+
+/**
+ * Clears all recorded corporate actions
+ */
+export function clearCorporateActions(): void {
+	corporateActions.set([]);
+}
@@ -0,0 +1,66 @@
+/**
+ * Demergers Store
+ * Manages user-recorded demergers that split parent lots into resulting
+ * company lots during portfolio analysis
+ */
+
+import { writable } from 'svelte/store';
+import type { Demerger } from '$lib/types';
+import { validateDemerger } from '$lib/utils/demergers';
+
+/**
+ * Store for all recorded demergers
+ */
+export const demergers = writable<Demerger[]>([]);
+
+/**
+ * Generates a unique ID for a demerger
+ */
+function generateDemergerId(): string {
+	return `dm_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Records a new demerger after validating it
+ *
+ * @param demerger - Demerger details without an ID
+ * @returns The stored demerger
+ * @throws Error if the demerger is invalid
+ */
+export function addDemerger(demerger: Omit<Demerger, 'id'>): Demerger {
+	const validationError = validateDemerger(demerger);
+	if (validationError) {
+		throw new Error(validationError);
+	}
+
+	const record: Demerger = {
+		...demerger,
+		id: generateDemergerId(),
+		parentSymbol: demerger.parentSymbol.trim().toUpperCase(),
+		parentIsin: demerger.parentIsin.trim().toUpperCase(),
+		resultingSymbol: demerger.resultingSymbol.trim().toUpperCase(),
+		resultingIsin: demerger.resultingIsin.trim().toUpperCase()
+	};
+
+	demergers.update((current) =>
+		[...current, record].sort((a, b) => a.recordDate.getTime() - b.recordDate.getTime())
+	);
+
+	return record;
+}
+
+/**
+ * Removes a recorded demerger
+ *
+ * @param id - ID of the demerger to remove
+ */
+export function removeDemerger(id: string): void {
+	demergers.update((current) => current.filter((demerger) => demerger.id !== id));
+}
+
+/**
+ * Clears all recorded demergers
+ */
+export function clearDemergers(): void {
+	demergers.set([]);
+}
@@ -0,0 +1,60 @@
+/**
+ * Dividends Store
+ * Manages dividends imported from Zerodha dividend statements, which are
+ * linked to holdings by ISIN and summed into FY dividend income
+ */
+
+import { writable } from 'svelte/store';
+import type { DividendRecord, ParseIssue } from '$lib/types';
+import { parseDividendStatement } from '$lib/utils/dividends';
+
+/**
+ * Store for all recorded dividends
+ */
+export const dividends = writable<DividendRecord[]>([]);
+
+/**
+ * Generates a unique ID for a dividend record
+ */
+function generateDividendId(): string {
+	return `div_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Imports dividends from a Zerodha dividend statement CSV
+ *
+ * @param file - Dividend statement selected by the user
+ * @returns Rows that could not be imported
+ * @throws Error if the file cannot be read or is not a dividend statement
+ */
+export async function importDividendStatement(file: File): Promise<ParseIssue[]> {
+	const content = await file.text();
+	const { dividends: parsed, issues } = parseDividendStatement(content);
+
+	if (parsed.length === 0) {
+		throw new Error(`No dividends found in ${file.name}`);
+	}
+
+	const records = parsed.map((dividend) => ({ ...dividend, id: generateDividendId() }));
+	dividends.update((current) =>
+		[...current, ...records].sort((a, b) => a.exDate.getTime() - b.exDate.getTime())
+	);
+
+	return issues;
+}
+
+/**
+ * Removes a recorded dividend
+ *
+ * @param id - ID of the dividend to remove
+ */
+export function removeDividend(id: string): void {
+	dividends.update((current) => current.filter((dividend) => dividend.id !== id));
+}
+
+/**
+ * Clears all recorded dividends
+ */
+export function clearDividends(): void {
+	dividends.set([]);
+}
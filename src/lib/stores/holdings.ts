@@ -5,8 +5,19 @@
  */
 
 import { writable, derived } from 'svelte/store';
-import type { Holding, TradeRecord, RealizedGainsSummary } from '$lib/types';
-import { analyzePortfolio } from '$lib/utils/holdings-calculator';
+import type {
+	DerivativeIncomeSummary,
+	DividendIncomeSummary,
+	FinancialYearGains,
+	TenderOfferSummary,
+	Holding,
+	TradeRecord,
+	RealizedGainEntry,
+	RealizedGainsSummary,
+	SpeculativeIncomeSummary,
+	UnmatchedSell
+} from '$lib/types';
+import { analyzePortfolio, type AnalysisOptions } from '$lib/utils/holdings-calculator';
 
 /**
  * Primary store for all calculated holdings
@@ -15,7 +26,7 @@ import { analyzePortfolio } from '$lib/utils/holdings-calculator';
 export const holdings = writable<Holding[]>([]);
 
 /**
- * Store for realized gains/losses from the current financial year
+ * Store for realized gains/losses from the current (or as-of) financial year
  */
 export const realizedGains = writable<RealizedGainsSummary>({
 	stcg: 0,
@@ -24,12 +35,62 @@ export const realizedGains = writable<RealizedGainsSummary>({
 	ltcl: 0,
 	netShortTerm: 0,
 	netLongTerm: 0,
+	sttPaid: 0,
+	sttNotPaidLtcg: 0,
 	entries: []
 });
 
+/**
+ * Store for realized gains/losses of every financial year covered by the tradebooks, newest first
+ */
+export const realizedGainsByFy = writable<FinancialYearGains[]>([]);
+
+/**
+ * Store for every realized gain entry across all years, in sell date order
+ */
+export const realizedGainEntries = writable<RealizedGainEntry[]>([]);
+
+/**
+ * Store for speculative (intraday) income from the current financial year
+ */
+export const speculativeIncome = writable<SpeculativeIncomeSummary>({
+	profit: 0,
+	loss: 0,
+	netPnl: 0,
+	turnover: 0,
+	entries: []
+});
+
+/**
+ * Store for futures and options income from the current financial year
+ */
+export const derivativeIncome = writable<DerivativeIncomeSummary>({
+	profit: 0,
+	loss: 0,
+	netPnl: 0,
+	turnover: 0,
+	auditThresholdExceeded: false,
+	contracts: []
+});
+
+/**
+ * Store for dividend income from the current financial year
+ */
+export const dividendIncome = writable<DividendIncomeSummary>({ total: 0, tds: 0, entries: [] });
+
+/**
+ * Store for buyback tender offers from the current financial year
+ */
+export const tenderOfferIncome = writable<TenderOfferSummary>({ deemedDividend: 0, capitalLoss: 0, entries: [] });
+
+/**
+ * Store for sells that exceeded the known lots (missing history or opening positions)
+ */
+export const unmatchedSells = writable<UnmatchedSell[]>([]);
+
 /**
  * Derived store for short-term holdings only
- * Short-term: held for 365 days or less (req 3.4)
+ * Short-term: held for 12 months or less (req 3.4)
  */
 export const shortTermHoldings = derived(holdings, ($holdings) =>
 	$holdings.filter((holding) => holding.classification === 'SHORT_TERM')
@@ -37,7 +98,7 @@ export const shortTermHoldings = derived(holdings, ($holdings) =>
 
 /**
  * Derived store for long-term holdings only
- * Long-term: held for more than 365 days (req 3.4)
+ * Long-term: held for more than 12 months (req 3.4)
  */
 export const longTermHoldings = derived(holdings, ($holdings) =>
 	$holdings.filter((holding) => holding.classification === 'LONG_TERM')
@@ -45,7 +106,7 @@ export const longTermHoldings = derived(holdings, ($holdings) =>
 
 /**
  * Derived store for Short-Term Capital Loss (STCL) opportunities
- * Holdings with short-term lots (<=365 days) that are currently at a loss
+ * Holdings with short-term lots (held 12 months or less) that are currently at a loss
  *
  * A holding appears here if it has ANY short-term lots in loss (stPnl < 0)
  * This is more accurate than classifying entire holdings by oldest lot
@@ -59,7 +120,7 @@ export const stclOpportunities = derived(holdings, ($holdings) =>
 
 /**
  * Derived store for Long-Term Capital Loss (LTCL) opportunities
- * Holdings with long-term lots (>365 days) that are currently at a loss
+ * Holdings with long-term lots (held more than 12 months) that are currently at a loss
  *
  * A holding appears here if it has ANY long-term lots in loss (ltPnl < 0)
  * This is more accurate than classifying entire holdings by oldest lot
@@ -74,14 +135,22 @@ export const ltclOpportunities = derived(holdings, ($holdings) =>
 /**
  * Updates the holdings store by recalculating holdings from trade records
  * Uses the FIFO-based holdings calculator
- * Also calculates realized gains for the current financial year
+ * Also calculates realized gains, speculative, F&O, dividend and tender-offer income for the current financial year
  *
  * @param trades - Array of TradeRecord objects from parsed tradebooks
+ * @param options - Corporate actions, opening positions and other replay inputs
  */
-export function updateHoldingsFromTrades(trades: TradeRecord[]): void {
-	const analysis = analyzePortfolio(trades);
+export function updateHoldingsFromTrades(trades: TradeRecord[], options: AnalysisOptions = {}): void {
+	const analysis = analyzePortfolio(trades, options);
 	holdings.set(analysis.holdings);
 	realizedGains.set(analysis.realizedGains);
+	realizedGainsByFy.set(analysis.realizedGainsByFy);
+	realizedGainEntries.set(analysis.realizedGainEntries);
+	speculativeIncome.set(analysis.speculativeIncome);
+	derivativeIncome.set(analysis.derivativeIncome);
+	dividendIncome.set(analysis.dividendIncome);
+	tenderOfferIncome.set(analysis.tenderOffers);
+	unmatchedSells.set(analysis.unmatchedSells);
 }
 
 /**
@@ -89,6 +158,7 @@ export function updateHoldingsFromTrades(trades: TradeRecord[]): void {
  */
 export function clearHoldings(): void {
 	holdings.set([]);
+	unmatchedSells.set([]);
 	realizedGains.set({
 		stcg: 0,
 		stcl: 0,
@@ -96,6 +166,14 @@ export function clearHoldings(): void {
 		ltcl: 0,
 		netShortTerm: 0,
 		netLongTerm: 0,
+		sttPaid: 0,
+		sttNotPaidLtcg: 0,
 		entries: []
 	});
+	realizedGainsByFy.set([]);
+	realizedGainEntries.set([]);
+	speculativeIncome.set({ profit: 0, loss: 0, netPnl: 0, turnover: 0, entries: [] });
+	derivativeIncome.set({ profit: 0, loss: 0, netPnl: 0, turnover: 0, auditThresholdExceeded: false, contracts: [] });
+	dividendIncome.set({ total: 0, tds: 0, entries: [] });
+	tenderOfferIncome.set({ deemedDividend: 0, capitalLoss: 0, entries: [] });
 }
@@ -0,0 +1,65 @@
+/**
+ * Inward Transfers Store
+ * Manages shares received by gift, inheritance or off-market transfer, which
+ * join FIFO on their credit date with the original acquisition date and cost
+ */
+
+import { writable } from 'svelte/store';
+import type { InwardTransfer } from '$lib/types';
+import { validateInwardTransfer } from '$lib/utils/inward-transfers';
+
+/**
+ * Store for all recorded inward transfers
+ */
+export const inwardTransfers = writable<InwardTransfer[]>([]);
+
+/**
+ * Generates a unique ID for an inward transfer
+ */
+function generateTransferId(): string {
+	return `it_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Records a new inward transfer after validating it
+ *
+ * @param transfer - Inward transfer details without an ID
+ * @returns The stored inward transfer
+ * @throws Error if the transfer is invalid
+ */
+export function addInwardTransfer(transfer: Omit<InwardTransfer, 'id'>): InwardTransfer {
+	const validationError = validateInwardTransfer(transfer);
+	if (validationError) {
+		throw new Error(validationError);
+	}
+
+	const record: InwardTransfer = {
+		...transfer,
+		id: generateTransferId(),
+		symbol: transfer.symbol.trim().toUpperCase(),
+		isin: transfer.isin.trim().toUpperCase(),
+		exchange: transfer.exchange.trim().toUpperCase() || 'NSE'
+	};
+
+	inwardTransfers.update((current) =>
+		[...current, record].sort((a, b) => a.transferDate.getTime() - b.transferDate.getTime())
+	);
+
+	return record;
+}
+
+/**
+ * Removes a recorded inward transfer
+ *
+ * @param id - ID of the inward transfer to remove
+ */
+export function removeInwardTransfer(id: string): void {
+	inwardTransfers.update((current) => current.filter((transfer) => transfer.id !== id));
+}
+
+/**
+ * Clears all recorded inward transfers
+ */
+export function clearInwardTransfers(): void {
+	inwardTransfers.set([]);
+}
@@ -0,0 +1,106 @@
+/**
+ * Mutual Funds Store
+ * Manages transactions imported from CAMS/KFintech statements and the asset
+ * class assigned to each ISIN, which decides its holding-period rules
+ */
+
+import { writable } from 'svelte/store';
+import type { AssetClass, MutualFundScheme, ParseIssue, TradeRecord } from '$lib/types';
+import { parseMfStatement } from '$lib/utils/mf-statement';
+
+/**
+ * Store for mutual fund purchases and redemptions from imported statements
+ */
+export const fundTransactions = writable<TradeRecord[]>([]);
+
+/**
+ * Store for schemes found in imported statements, keyed by ISIN
+ */
+export const fundSchemes = writable<Record<string, MutualFundScheme>>({});
+
+/**
+ * Store for asset classes set by the user, keyed by ISIN
+ * These win over both the bundled master and the class inferred from scheme names
+ */
+export const assetClassOverrides = writable<Record<string, AssetClass>>({});
+
+/**
+ * Imports transactions from a CAMS/KFintech consolidated statement CSV
+ * Transactions already imported from an overlapping statement are kept once
+ *
+ * @param file - Statement selected by the user
+ * @returns Rows that could not be imported
+ * @throws Error if the file cannot be read or has no transactions
+ */
+export async function importMfStatement(file: File): Promise<ParseIssue[]> {
+	const content = await file.text();
+	const { transactions, schemes, issues } = parseMfStatement(content);
+
+	if (transactions.length === 0) {
+		throw new Error(`No mutual fund transactions found in ${file.name}`);
+	}
+
+	fundTransactions.update((current) => {
+		const seen = new Set(current.map((trade) => trade.tradeId));
+		const added = transactions.filter((trade) => !seen.has(trade.tradeId));
+		return [...current, ...added].sort((a, b) => a.tradeDate.getTime() - b.tradeDate.getTime());
+	});
+	fundSchemes.update((current) => ({
+		...Object.fromEntries(schemes.map((scheme) => [scheme.isin, scheme])),
+		...current
+	}));
+
+	return issues;
+}
+
+/**
+ * Removes a scheme and all of its imported transactions
+ *
+ * @param isin - ISIN of the scheme to remove
+ */
+export function removeFundScheme(isin: string): void {
+	fundTransactions.update((current) => current.filter((trade) => trade.isin !== isin));
+	fundSchemes.update((current) => {
+		const remaining = { ...current };
+		delete remaining[isin];
+		return remaining;
+	});
+}
+
+/**
+ * Sets the asset class of a security, overriding the bundled master
+ *
+ * @param isin - ISIN of the share, ETF or fund
+ * @param assetClass - Asset class whose holding-period rules apply
+ * @throws Error if the ISIN is not 12 characters
+ */
+export function setAssetClassOverride(isin: string, assetClass: AssetClass): void {
+	const key = isin.trim().toUpperCase();
+	if (!/^[A-Z]{2}[A-Z0-9]{9}[0-9]$/.test(key)) {
+		throw new Error(`${isin} is not a valid ISIN`);
+	}
+
+	assetClassOverrides.update((current) => ({ ...current, [key]: assetClass }));
+}
+
+/**
+ * Removes a user-set asset class
+ *
+ * @param isin - ISIN whose override should be removed
+ */
+export function removeAssetClassOverride(isin: string): void {
+	assetClassOverrides.update((current) => {
+		const remaining = { ...current };
+		delete remaining[isin];
+		return remaining;
+	});
+}
+
+/**
+ * Clears imported mutual fund statements and asset class overrides
+ */
+export function clearMutualFunds(): void {
+	fundTransactions.set([]);
+	fundSchemes.set({});
+	assetClassOverrides.set({});
+}
@@ -0,0 +1,123 @@
+/**
+ * Opening Positions Store
+ * Manages holdings carried into the uploaded trade history, entered manually
+ * or imported from a Console holdings export, that seed FIFO lots before replay
+ */
+
+import { derived, writable } from 'svelte/store';
+import type { OpeningPosition, ParseIssue } from '$lib/types';
+import { isDatedPosition, parseConsoleHoldings, validateOpeningPosition } from '$lib/utils/opening-positions';
+
+/**
+ * Store for all recorded opening positions
+ */
+export const openingPositions = writable<OpeningPosition[]>([]);
+
+/**
+ * Imported positions still missing an acquisition date; analysis waits until they are filled in
+ */
+export const undatedPositions = derived(openingPositions, ($positions) =>
+	$positions.filter((position) => !isDatedPosition(position))
+);
+
+/**
+ * Orders positions by acquisition date, with undated positions last
+ */
+function compareAcquisitionDates(a: OpeningPosition, b: OpeningPosition): number {
+	return (a.acquisitionDate?.getTime() ?? Infinity) - (b.acquisitionDate?.getTime() ?? Infinity);
+}
+
+/**
+ * Generates a unique ID for an opening position
+ */
+function generatePositionId(): string {
+	return `op_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Normalizes and stores validated positions, keeping them in acquisition order
+ */
+function storePositions(positions: Omit<OpeningPosition, 'id'>[]): OpeningPosition[] {
+	const records = positions.map((position) => ({
+		...position,
+		id: generatePositionId(),
+		symbol: position.symbol.trim().toUpperCase(),
+		isin: position.isin.trim().toUpperCase(),
+		exchange: position.exchange.trim().toUpperCase() || 'NSE'
+	}));
+
+	openingPositions.update((current) => [...current, ...records].sort(compareAcquisitionDates));
+
+	return records;
+}
+
+/**
+ * Records a manually entered opening position after validating it
+ *
+ * @param position - Opening position details without an ID
+ * @returns The stored opening position
+ * @throws Error if the position is invalid
+ */
+export function addOpeningPosition(position: Omit<OpeningPosition, 'id'>): OpeningPosition {
+	const validationError = validateOpeningPosition(position);
+	if (validationError) {
+		throw new Error(validationError);
+	}
+
+	return storePositions([position])[0];
+}
+
+/**
+ * Imports opening positions from a Zerodha Console holdings export
+ * Positions without an acquisition date column are stored undated
+ *
+ * @param file - Holdings CSV selected by the user
+ * @returns Rows that could not be imported
+ * @throws Error if the file cannot be read or is not a holdings export
+ */
+export async function importConsoleHoldings(file: File): Promise<ParseIssue[]> {
+	const content = await file.text();
+	const { positions, issues } = parseConsoleHoldings(content);
+
+	if (positions.length === 0) {
+		throw new Error(`No holdings found in ${file.name}`);
+	}
+
+	storePositions(positions);
+	return issues;
+}
+
+/**
+ * Sets the acquisition date of a recorded opening position
+ *
+ * @param id - ID of the opening position
+ * @param acquisitionDate - Date the shares were acquired
+ * @throws Error if the date is not valid
+ */
+export function setOpeningPositionDate(id: string, acquisitionDate: Date): void {
+	if (isNaN(acquisitionDate.getTime())) {
+		throw new Error('A valid acquisition date is required');
+	}
+
+	openingPositions.update((current) =>
+		current
+			.map((position) => (position.id === id ? { ...position, acquisitionDate } : position))
+			.sort(compareAcquisitionDates)
+	);
+}
+
+/**
+ * Removes a recorded opening position
+ *
+ * @param id - ID of the opening position to remove
+ */
+export function removeOpeningPosition(id: string): void {
+	openingPositions.update((current) => current.filter((position) => position.id !== id));
+}
+
+/**
+ * Clears all recorded opening positions
+ */
+export function clearOpeningPositions(): void {
+	openingPositions.set([]);
+}
@@ -17,8 +17,22 @@
  */
 
 import { writable, get } from 'svelte/store';
-import { allTrades } from '$lib/stores/tradebook';
+import { endOfDay, format } from 'date-fns';
+import { allTrades, derivativeTrades } from '$lib/stores/tradebook';
 import { holdings, updateHoldingsFromTrades } from '$lib/stores/holdings';
+import { corporateActions } from '$lib/stores/corporate-actions';
+import { openingPositions, undatedPositions } from '$lib/stores/opening-positions';
+import { symbolChanges } from '$lib/stores/symbol-changes';
+import { contractNoteCharges } from '$lib/stores/charges';
+import { dividends } from '$lib/stores/dividends';
+import { inwardTransfers } from '$lib/stores/inward-transfers';
+import { allotments, callPayments } from '$lib/stores/allotments';
+import { demergers } from '$lib/stores/demergers';
+import { tenderOfferTags } from '$lib/stores/tender-offers';
+import { assetClassOverrides, fundSchemes, fundTransactions } from '$lib/stores/mutual-funds';
+import { resolveCurrentSymbol } from '$lib/utils/symbol-history';
+import { MUTUAL_FUND_EXCHANGE, getLatestNavs } from '$lib/utils/mf-statement';
+import { applyTenderOfferTags } from '$lib/utils/tender-offers';
 import { PUBLIC_SUPABASE_URL } from '$env/static/public';
 
 /**
@@ -62,7 +76,7 @@ export interface AnalysisState {
  * Quote data structure from NSE API
  */
 export interface NseQuote {
-	/** Last traded price */
+	/** Last traded price, or the closing price on the as-of date */
 	lastPrice: number;
 	/** Price change from previous close */
 	change: number;
@@ -90,6 +104,13 @@ export const analysisState = writable<AnalysisState>({
 	stocksCount: 0
 });
 
+/**
+ * Store for the date the portfolio is analyzed as of
+ * Null analyzes today's position at live prices; a date replays trades up to
+ * that day, summarizes its FY and values holdings at that day's closing prices
+ */
+export const analysisAsOfDate = writable<Date | null>(null);
+
 /**
  * Store indicating whether prices have been successfully loaded
  * Used to determine if P&L data is available for display
@@ -146,8 +167,9 @@ const BATCH_SIZE = 10;
 
 /**
  * Fetches quotes for a single batch of symbols
+ * With a date (YYYY-MM-DD), the edge function returns that day's closing prices
  */
-async function fetchQuotesBatch(symbols: string[]): Promise<NseQuotesResponse> {
+async function fetchQuotesBatch(symbols: string[], date?: string): Promise<NseQuotesResponse> {
 	const edgeFunctionUrl = `${PUBLIC_SUPABASE_URL}/functions/v1/nse-quotes`;
 
 	const response = await fetch(edgeFunctionUrl, {
@@ -155,7 +177,7 @@ async function fetchQuotesBatch(symbols: string[]): Promise<NseQuotesResponse> {
 		headers: {
 			'Content-Type': 'application/json'
 		},
-		body: JSON.stringify({ symbols })
+		body: JSON.stringify(date ? { symbols, date } : { symbols })
 	});
 
 	if (!response.ok) {
@@ -182,10 +204,14 @@ async function fetchQuotesBatch(symbols: string[]): Promise<NseQuotesResponse> {
  * - 4.3: Handle rate limiting and fetch errors
  *
  * @param symbols - Array of trading symbols to fetch quotes for
+ * @param asOfDate - Date to fetch closing prices for (defaults to live prices)
  * @returns Record of symbol to quote data
  * @throws Error if all quotes fail to fetch
  */
-export async function fetchQuotes(symbols: string[]): Promise<Record<string, NseQuote>> {
+export async function fetchQuotes(
+	symbols: string[],
+	asOfDate: Date | null = null
+): Promise<Record<string, NseQuote>> {
 	if (symbols.length === 0) {
 		return {};
 	}
@@ -200,10 +226,11 @@ export async function fetchQuotes(symbols: string[]): Promise<Record<string, Nse
 	}
 
 	console.log(`Fetching quotes for ${symbols.length} symbols in ${chunks.length} parallel batches`);
+	const date = asOfDate ? format(asOfDate, 'yyyy-MM-dd') : undefined;
 
 	// Fetch all chunks in parallel
 	const batchResults = await Promise.all(
-		chunks.map((chunk) => fetchQuotesBatch(chunk).catch((error) => {
+		chunks.map((chunk) => fetchQuotesBatch(chunk, date).catch((error) => {
 			console.error('Batch fetch failed:', error);
 			return { quotes: {}, errors: [error.message] } as NseQuotesResponse;
 		}))
@@ -235,11 +262,14 @@ export async function fetchQuotes(symbols: string[]): Promise<Record<string, Nse
 }
 
 /**
- * Classifies lots into ST (<=365 days) and LT (>365 days) portions
+ * Classifies lots into ST (held 12 months or less) and LT (more than 12 months) portions
  * and calculates separate P&L for each
+ * Non-equity funds and ETFs use the holding periods of their asset class
+ * LT cost uses the Section 112A grandfathered cost for lots acquired before 1 Feb 2018
  */
-import { differenceInDays } from 'date-fns';
-import type { HoldingLot } from '$lib/types';
+import type { AssetClass, Holding, HoldingLot } from '$lib/types';
+import { getGrandfatheredCost } from '$lib/utils/grandfathering';
+import { classifyByAssetClass } from '$lib/utils/asset-classes';
 
 interface LotClassification {
 	stQuantity: number;
@@ -250,25 +280,27 @@ interface LotClassification {
 	ltPnl: number;
 }
 
-function classifyLotsByHoldingPeriod(lots: HoldingLot[], currentPrice: number): LotClassification {
-	const now = new Date();
+function classifyLotsByHoldingPeriod(
+	lots: HoldingLot[],
+	currentPrice: number,
+	assetClass: AssetClass = 'EQUITY',
+	asOf: Date = new Date()
+): LotClassification {
 	let stQuantity = 0;
 	let ltQuantity = 0;
 	let stTotalCost = 0;
 	let ltTotalCost = 0;
 
 	for (const lot of lots) {
-		const holdingDays = differenceInDays(now, lot.purchaseDate);
-		const lotCost = lot.quantity * lot.purchasePrice;
-
-		if (holdingDays <= 365) {
-			// Short-term: held for 365 days or less
+		if (classifyByAssetClass(assetClass, lot.purchaseDate, asOf) === 'SHORT_TERM') {
+			// Short-term: held for 12 months or less (or within the asset class period)
 			stQuantity += lot.quantity;
-			stTotalCost += lotCost;
+			stTotalCost += lot.quantity * lot.purchasePrice;
 		} else {
-			// Long-term: held for more than 365 days
+			// Long-term: held for more than 12 months (or beyond the asset class period)
+			// Pre-2018 lots use the Section 112A grandfathered cost against the current price
 			ltQuantity += lot.quantity;
-			ltTotalCost += lotCost;
+			ltTotalCost += lot.quantity * getGrandfatheredCost(lot, currentPrice);
 		}
 	}
 
@@ -291,23 +323,48 @@ function classifyLotsByHoldingPeriod(lots: HoldingLot[], currentPrice: number):
 	};
 }
 
+/**
+ * Returns the symbol to quote a holding under, following recorded renames and mergers
+ */
+function getQuoteSymbol(holding: Holding): string {
+	return resolveCurrentSymbol(get(symbolChanges), holding.symbol, holding.isin);
+}
+
+/**
+ * Checks whether a holding is mutual fund units, which have no exchange quote
+ */
+function isFundHolding(holding: Holding): boolean {
+	return holding.exchange === MUTUAL_FUND_EXCHANGE;
+}
+
+/**
+ * Gets the symbols to request quotes for; fund units are priced from their statement NAV instead
+ */
+function getQuoteSymbols(currentHoldings: Holding[]): string[] {
+	return currentHoldings.filter((holding) => !isFundHolding(holding)).map(getQuoteSymbol);
+}
+
 /**
  * Updates holdings with price data and calculates P&L
  * Also calculates per-lot ST/LT breakdown for accurate opportunity display
+ * Fund units take the latest NAV in the imported statements; without one they stay unpriced
  *
  * @param quotes - Record of symbol to quote data
+ * @param asOf - Date lots are classified on (defaults to today)
  */
-function updateHoldingsWithPrices(quotes: Record<string, NseQuote>): void {
+function updateHoldingsWithPrices(quotes: Record<string, NseQuote>, asOf: Date = new Date()): void {
+	const navs = getLatestNavs(get(fundTransactions), endOfDay(asOf));
+
 	holdings.update((currentHoldings) =>
 		currentHoldings.map((holding) => {
-			const quote = quotes[holding.symbol];
+			const nav = isFundHolding(holding) ? navs.get(holding.isin) : undefined;
+			const currentPrice = isFundHolding(holding) ? nav?.nav : quotes[getQuoteSymbol(holding)]?.lastPrice;
 
-			if (!quote) {
-				// No quote available for this symbol - keep existing data
+			if (currentPrice === undefined) {
+				// No quote or NAV available for this holding - keep existing data
 				return holding;
 			}
 
-			const currentPrice = quote.lastPrice;
 			const totalCost = holding.avgPurchasePrice * holding.totalQuantity;
 			const currentValue = currentPrice * holding.totalQuantity;
 			const pnl = currentValue - totalCost;
@@ -315,11 +372,12 @@ function updateHoldingsWithPrices(quotes: Record<string, NseQuote>): void {
 			const isLoss = pnl < 0;
 
 			// Calculate ST/LT breakdown for accurate opportunity classification
-			const lotClassification = classifyLotsByHoldingPeriod(holding.lots, currentPrice);
+			const lotClassification = classifyLotsByHoldingPeriod(holding.lots, currentPrice, holding.assetClass, asOf);
 
 			return {
 				...holding,
 				currentPrice,
+				...(nav && { navDate: nav.date }),
 				pnl,
 				pnlPercent,
 				isLoss,
@@ -361,30 +419,74 @@ export async function analyzePortfolio(): Promise<void> {
 		// Small delay to allow UI to update
 		await new Promise((resolve) => setTimeout(resolve, 100));
 
-		// Get all parsed trades from the tradebook store
-		const trades = get(allTrades);
-
-		if (trades.length === 0) {
+		// Get all parsed trades from the tradebook store, with manual tender-offer tags applied
+		const trades = applyTenderOfferTags(get(allTrades), get(tenderOfferTags));
+		const positions = get(openingPositions);
+		const transfers = get(inwardTransfers);
+		const allotted = get(allotments);
+		const funds = get(fundTransactions);
+		const asOfDate = get(analysisAsOfDate);
+
+		if (
+			trades.length === 0 &&
+			funds.length === 0 &&
+			positions.length === 0 &&
+			transfers.length === 0 &&
+			allotted.length === 0
+		) {
 			setError('No trades found. Please upload valid tradebook CSV files.');
 			return;
 		}
 
+		// Holding periods start on the acquisition date, so it cannot be guessed
+		const undated = get(undatedPositions);
+		if (undated.length > 0) {
+			setError(
+				`Enter the acquisition date of the imported opening positions for ${undated.map((position) => position.symbol).join(', ')} before analysis.`
+			);
+			return;
+		}
+
 		// Step 2: Trades found
-		setStep('trades_found', { tradesCount: trades.length });
+		setStep('trades_found', { tradesCount: trades.length + funds.length });
 		await new Promise((resolve) => setTimeout(resolve, 500));
 
 		// Step 3: Calculating holdings via FIFO
 		setStep('calculating');
 		await new Promise((resolve) => setTimeout(resolve, 100));
 
-		// Calculate holdings from trades
-		updateHoldingsFromTrades(trades);
+		// Calculate holdings from trades, seeding opening positions, inward transfers and
+		// allotments and replaying corporate actions, demergers, call money and symbol changes, with
+		// contract-note charges spread over trades; F&O trades and dividends are summarized alongside.
+		// Fund units join the FIFO ledger, classified by scheme category unless the user overrides it
+		const schemeClasses = Object.fromEntries(
+			Object.values(get(fundSchemes)).map((scheme) => [scheme.isin, scheme.assetClass])
+		);
+		updateHoldingsFromTrades(trades, {
+			corporateActions: get(corporateActions),
+			demergers: get(demergers),
+			openingPositions: positions,
+			inwardTransfers: transfers,
+			allotments: allotted,
+			callPayments: get(callPayments),
+			symbolChanges: get(symbolChanges),
+			derivativeTrades: get(derivativeTrades),
+			charges: get(contractNoteCharges),
+			dividends: get(dividends),
+			fundTransactions: funds,
+			assetClasses: { ...schemeClasses, ...get(assetClassOverrides) },
+			...(asOfDate && { asOfDate })
+		});
 
 		// Get calculated holdings
 		const currentHoldings = get(holdings);
 
 		if (currentHoldings.length === 0) {
-			setError('No current holdings found. All positions may have been closed.');
+			setError(
+				asOfDate
+					? `No holdings found on ${format(asOfDate, 'd MMM yyyy')}. All positions may have been closed by then.`
+					: 'No current holdings found. All positions may have been closed.'
+			);
 			return;
 		}
 
@@ -396,17 +498,17 @@ export async function analyzePortfolio(): Promise<void> {
 		setStep('fetching_prices');
 
 		// Extract unique symbols for price fetching
-		const symbols = currentHoldings.map((h) => h.symbol);
+		const symbols = getQuoteSymbols(currentHoldings);
 
 		try {
-			const quotes = await fetchQuotes(symbols);
+			const quotes = await fetchQuotes(symbols, asOfDate);
 
 			// Step 6: Checking opportunities
 			setStep('checking_opportunities');
 			await new Promise((resolve) => setTimeout(resolve, 100));
 
-			// Update holdings with price data
-			updateHoldingsWithPrices(quotes);
+			// Update holdings with price data, classifying lots on the as-of date
+			updateHoldingsWithPrices(quotes, asOfDate ?? new Date());
 
 			// Mark prices as loaded
 			pricesLoaded.set(true);
@@ -453,19 +555,20 @@ export async function refreshPrices(): Promise<void> {
 	}
 
 	// Get symbols from current holdings (in case holdings were updated)
-	const symbols = currentHoldings.map((h) => h.symbol);
+	const symbols = getQuoteSymbols(currentHoldings);
 
 	// Update analysis state to show fetching
 	const previousState = get(analysisState);
 	setStep('fetching_prices');
 
 	try {
-		const quotes = await fetchQuotes(symbols);
+		const asOfDate = get(analysisAsOfDate);
+		const quotes = await fetchQuotes(symbols, asOfDate);
 
 		setStep('checking_opportunities');
 		await new Promise((resolve) => setTimeout(resolve, 100));
 
-		updateHoldingsWithPrices(quotes);
+		updateHoldingsWithPrices(quotes, asOfDate ?? new Date());
 		pricesLoaded.set(true);
 
 		// Restore to complete state
@@ -488,6 +591,7 @@ export function clearPrices(): void {
 		currentHoldings.map((holding) => ({
 			...holding,
 			currentPrice: undefined,
+			navDate: undefined,
 			pnl: undefined,
 			pnlPercent: undefined,
 			isLoss: undefined
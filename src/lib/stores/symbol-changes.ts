@@ -0,0 +1,66 @@
+/**
+ * Symbol Changes Store
+ * Manages user-recorded ticker renames and mergers that link old symbols
+ * to their successors during portfolio analysis and quote lookup
+ */
+
+import { writable } from 'svelte/store';
+import type { SymbolChange } from '$lib/types';
+import { validateSymbolChange } from '$lib/utils/symbol-history';
+
+/**
+ * Store for all recorded symbol changes
+ */
+export const symbolChanges = writable<SymbolChange[]>([]);
+
+/**
+ * Generates a unique ID for a symbol change
+ */
+function generateChangeId(): string {
+	return `sc_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Records a new symbol change after validating it
+ *
+ * @param change - Symbol change details without an ID
+ * @returns The stored symbol change
+ * @throws Error if the change is invalid
+ */
+export function addSymbolChange(change: Omit<SymbolChange, 'id'>): SymbolChange {
+	const validationError = validateSymbolChange(change);
+	if (validationError) {
+		throw new Error(validationError);
+	}
+
+	const record: SymbolChange = {
+		...change,
+		id: generateChangeId(),
+		oldSymbol: change.oldSymbol.trim().toUpperCase(),
+		oldIsin: change.oldIsin.trim().toUpperCase(),
+		newSymbol: change.newSymbol.trim().toUpperCase(),
+		newIsin: change.newIsin.trim().toUpperCase()
+	};
+
+	symbolChanges.update((current) =>
+		[...current, record].sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime())
+	);
+
+	return record;
+}
+
+/**
+ * Removes a recorded symbol change
+ *
+ * @param id - ID of the symbol change to remove
+ */
+export function removeSymbolChange(id: string): void {
+	symbolChanges.update((current) => current.filter((change) => change.id !== id));
+}
+
+/**
+ * Clears all recorded symbol changes
+ */
+export function clearSymbolChanges(): void {
+	symbolChanges.set([]);
+}
@@ -0,0 +1,38 @@
+/**
+ * Tender Offers Store
+ * Manages manual tags that mark tradebook sells as buyback tender offers
+ * (or clear a flag read from the file) before portfolio analysis
+ */
+
+import { writable, get } from 'svelte/store';
+import { allTrades } from './tradebook';
+
+/**
+ * Store for tender-offer tags, keyed by trade ID
+ * True marks a sell as a tender offer; false clears a flag read from the tradebook
+ */
+export const tenderOfferTags = writable<Record<string, boolean>>({});
+
+/**
+ * Tags or untags a sell as a buyback tender offer
+ *
+ * @param tradeId - Trade ID of the sell, as shown in the tradebook
+ * @param tenderOffer - Whether the sell was accepted in a buyback tender offer
+ * @throws Error if no uploaded sell has the trade ID
+ */
+export function tagTenderOffer(tradeId: string, tenderOffer: boolean): void {
+	const id = tradeId.trim();
+	const sell = get(allTrades).find((trade) => trade.tradeId === id && trade.tradeType === 'sell');
+	if (!sell) {
+		throw new Error(`No sell with trade ID ${id} in the uploaded tradebooks`);
+	}
+
+	tenderOfferTags.update((current) => ({ ...current, [id]: tenderOffer }));
+}
+
+/**
+ * Clears all tender-offer tags
+ */
+export function clearTenderOfferTags(): void {
+	tenderOfferTags.set({});
+}
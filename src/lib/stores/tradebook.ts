@@ -1,12 +1,16 @@
 /**
  * Tradebook Store
- * Manages uploaded tradebook files, parsed trades, and parse errors
- * Supports multiple file uploads with deduplication across files
+ * Manages uploaded tradebook files, parsed equity and F&O trades, and parse errors
+ * Supports any number of file uploads (one per FY) with deduplication across files
  */
 
-import { writable, get } from 'svelte/store';
-import type { TradeRecord, UploadedFile } from '$lib/types';
-import { parseTradebook, mergeTradebooks } from '$lib/utils/csv-parser';
+import { writable, derived, get } from 'svelte/store';
+import type { DerivativeTrade, TradeRecord, UploadedFile } from '$lib/types';
+import { parseTradebookWithReport, mergeTradebooks, describeSkippedRows } from '$lib/utils/csv-parser';
+import { getBrokerAdapters } from '$lib/utils/brokers';
+import { analyzeCoverage } from '$lib/utils/coverage';
+import { getFyLabel } from '$lib/utils/financial-year';
+import { unmatchedSells } from './holdings';
 
 /**
  * Store for uploaded file metadata
@@ -18,39 +22,40 @@ export const uploadedFiles = writable<UploadedFile[]>([]);
  */
 export const allTrades = writable<TradeRecord[]>([]);
 
+/**
+ * Store for all merged and deduplicated futures and options trades
+ */
+export const derivativeTrades = writable<DerivativeTrade[]>([]);
+
 /**
  * Store for parse errors keyed by file ID
  */
 export const parseErrors = writable<Map<string, string>>(new Map());
 
+/**
+ * Coverage of the uploaded files: missing financial years and
+ * sells that need history older than the earliest file
+ * Unmatched sells are those of the last analysis, so they refresh when it is re-run
+ */
+export const tradebookCoverage = derived([uploadedFiles, unmatchedSells], ([$uploadedFiles, $unmatchedSells]) =>
+	analyzeCoverage($uploadedFiles, $unmatchedSells)
+);
+
 /**
  * Internal storage for raw trades per file (enables recalculation on remove)
  */
 const tradesPerFile = new Map<string, TradeRecord[]>();
 
 /**
- * Generates a unique ID for uploaded files
+ * Internal storage for raw F&O trades per file
  */
-function generateFileId(): string {
-	return `file_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-}
+const derivativeTradesPerFile = new Map<string, DerivativeTrade[]>();
 
 /**
- * Determines the financial year from a date
- * Indian Financial Year runs from April 1 to March 31
- * e.g., April 2023 to March 2024 is "FY 2023-24"
+ * Generates a unique ID for uploaded files
  */
-function getFinancialYear(date: Date): { startYear: number; endYear: number } {
-	const month = date.getMonth(); // 0-indexed (0 = Jan, 3 = Apr)
-	const year = date.getFullYear();
-
-	// If month is Jan-Mar (0-2), it belongs to previous FY
-	// If month is Apr-Dec (3-11), it belongs to current FY
-	if (month < 3) {
-		return { startYear: year - 1, endYear: year };
-	} else {
-		return { startYear: year, endYear: year + 1 };
-	}
+function generateFileId(): string {
+	return `file_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 }
 
 /**
@@ -58,7 +63,7 @@ function getFinancialYear(date: Date): { startYear: number; endYear: number } {
  * Returns a range like "FY 2022-23 to FY 2023-24" if spanning multiple years
  * or "FY 2023-24" if within a single year
  */
-function determineFyRange(trades: TradeRecord[]): string {
+function determineFyRange(trades: { tradeDate: Date }[]): string {
 	if (trades.length === 0) {
 		return 'No trades';
 	}
@@ -71,18 +76,13 @@ function determineFyRange(trades: TradeRecord[]): string {
 	const earliestDate = sortedTrades[0].tradeDate;
 	const latestDate = sortedTrades[sortedTrades.length - 1].tradeDate;
 
-	const earliestFy = getFinancialYear(earliestDate);
-	const latestFy = getFinancialYear(latestDate);
+	const earliestFy = getFyLabel(earliestDate);
+	const latestFy = getFyLabel(latestDate);
 
-	const formatFy = (fy: { startYear: number; endYear: number }): string => {
-		const endYearShort = fy.endYear.toString().slice(-2);
-		return `FY ${fy.startYear}-${endYearShort}`;
-	};
-
-	if (earliestFy.startYear === latestFy.startYear) {
-		return formatFy(earliestFy);
+	if (earliestFy === latestFy) {
+		return earliestFy;
 	} else {
-		return `${formatFy(earliestFy)} to ${formatFy(latestFy)}`;
+		return `${earliestFy} to ${latestFy}`;
 	}
 }
 
@@ -113,14 +113,15 @@ function recalculateAllTrades(): void {
 	const allTradeArrays = Array.from(tradesPerFile.values());
 	const merged = mergeTradebooks(allTradeArrays);
 	allTrades.set(merged);
+	derivativeTrades.set(mergeTradebooks(Array.from(derivativeTradesPerFile.values())));
 }
 
 /**
  * Adds tradebook files to the store
- * - Parses each file using parseTradebook
- * - Generates unique ID and metadata for each file
+ * - Detects the broker format and parses each file using parseTradebookWithReport
+ * - Generates unique ID and metadata for each file, including row-level parse diagnostics
  * - Tracks parse errors per file
- * - Merges all trades using mergeTradebooks
+ * - Merges all equity trades, and separately all F&O trades, using mergeTradebooks
  *
  * @param files - FileList from file input element
  */
@@ -138,19 +139,28 @@ export async function addTradebooks(files: FileList): Promise<void> {
 
 		try {
 			const content = await readFileAsText(file);
-			const trades = parseTradebook(content);
+			const { trades, derivativeTrades: fnoTrades, broker, diagnostics } = parseTradebookWithReport(content);
+
+			if (!broker) {
+				newErrors.set(fileId, `Unrecognized tradebook format in ${file.name}. Supported brokers: ${getBrokerAdapters().map((a) => a.name).join(', ')}.`);
+				continue;
+			}
 
-			if (trades.length === 0) {
-				// Either invalid format or no EQ trades
-				newErrors.set(fileId, `No valid equity trades found in ${file.name}. Please ensure this is a Zerodha Tradebook CSV with equity (EQ) segment trades.`);
+			if (trades.length === 0 && fnoTrades.length === 0) {
+				const skipped = describeSkippedRows(diagnostics);
+				newErrors.set(
+					fileId,
+					`No valid equity trades found in ${file.name}${skipped ? ` (skipped: ${skipped})` : ''}. Please ensure this ${broker.name} tradebook contains equity (EQ) or F&O (FO) segment trades.`
+				);
 				continue;
 			}
 
 			// Store trades for this file
 			tradesPerFile.set(fileId, trades);
+			derivativeTradesPerFile.set(fileId, fnoTrades);
 
-			// Calculate date range
-			const sortedTrades = [...trades].sort(
+			// Calculate date range across both segments
+			const sortedTrades = [...trades, ...fnoTrades].sort(
 				(a, b) => a.tradeDate.getTime() - b.tradeDate.getTime()
 			);
 			const dateRange = {
@@ -162,8 +172,11 @@ export async function addTradebooks(files: FileList): Promise<void> {
 			const uploadedFile: UploadedFile = {
 				id: fileId,
 				name: file.name,
-				fyRange: determineFyRange(trades),
+				broker: broker.name,
+				fyRange: determineFyRange([...trades, ...fnoTrades]),
 				tradeCount: trades.length,
+				derivativeTradeCount: fnoTrades.length,
+				diagnostics,
 				dateRange
 			};
 
@@ -196,6 +209,7 @@ export async function addTradebooks(files: FileList): Promise<void> {
 export function removeTradebook(fileId: string): void {
 	// Remove from internal storage
 	tradesPerFile.delete(fileId);
+	derivativeTradesPerFile.delete(fileId);
 
 	// Remove from uploaded files store
 	uploadedFiles.update((current) => current.filter((f) => f.id !== fileId));
@@ -216,7 +230,9 @@ export function removeTradebook(fileId: string): void {
  */
 export function clearAllTradebooks(): void {
 	tradesPerFile.clear();
+	derivativeTradesPerFile.clear();
 	uploadedFiles.set([]);
 	allTrades.set([]);
+	derivativeTrades.set([]);
 	parseErrors.set(new Map());
 }
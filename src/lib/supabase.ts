@@ -60,6 +60,41 @@ export interface Database {
 					created_at?: string;
 				};
 			};
+			capital_loss_carry_forwards: {
+				Row: {
+					id: string;
+					user_id: string;
+					loss_fy: number;
+					short_term_loss: number;
+					long_term_loss: number;
+					filed_on_time: boolean;
+					source: string;
+					created_at: string;
+					updated_at: string;
+				};
+				Insert: {
+					id?: string;
+					user_id: string;
+					loss_fy: number;
+					short_term_loss?: number;
+					long_term_loss?: number;
+					filed_on_time?: boolean;
+					source?: string;
+					created_at?: string;
+					updated_at?: string;
+				};
+				Update: {
+					id?: string;
+					user_id?: string;
+					loss_fy?: number;
+					short_term_loss?: number;
+					long_term_loss?: number;
+					filed_on_time?: boolean;
+					source?: string;
+					created_at?: string;
+					updated_at?: string;
+				};
+			};
 		};
 		Views: Record<string, never>;
 		Functions: Record<string, never>;
@@ -124,3 +159,13 @@ export type BuybackRecordRow = Database['public']['Tables']['buyback_records']['
  * Type helper for buyback_records insert
  */
 export type BuybackRecordInsert = Database['public']['Tables']['buyback_records']['Insert'];
+
+/**
+ * Type helper for capital_loss_carry_forwards table row
+ */
+export type CarryForwardLossRow = Database['public']['Tables']['capital_loss_carry_forwards']['Row'];
+
+/**
+ * Type helper for capital_loss_carry_forwards insert
+ */
+export type CarryForwardLossInsert = Database['public']['Tables']['capital_loss_carry_forwards']['Insert'];
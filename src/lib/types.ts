@@ -11,13 +11,35 @@
  */
 export type Classification = 'SHORT_TERM' | 'LONG_TERM';
 
+/**
+ * Asset class of a security, deciding which holding-period rules apply
+ * - EQUITY: listed equity shares
+ * - EQUITY_ETF / EQUITY_FUND: equity-oriented ETFs and mutual funds
+ * - DEBT_FUND: debt and liquid funds (specified mutual funds under Section 50AA)
+ * - GOLD_ETF: gold and other listed non-equity ETFs
+ * - OTHER_FUND: gold, international and other unlisted non-equity funds
+ */
+export type AssetClass = 'EQUITY' | 'EQUITY_ETF' | 'EQUITY_FUND' | 'DEBT_FUND' | 'GOLD_ETF' | 'OTHER_FUND';
+
+/**
+ * A mutual fund scheme found in an imported CAMS/KFintech statement
+ */
+export interface MutualFundScheme {
+	/** ISIN of the scheme's plan and option */
+	isin: string;
+	/** Scheme name as printed on the statement */
+	name: string;
+	/** Asset class inferred from the scheme name */
+	assetClass: AssetClass;
+}
+
 /**
  * Trade type enum for buy/sell transactions
  */
 export type TradeType = 'buy' | 'sell';
 
 /**
- * Trade record parsed from Zerodha Tradebook CSV
+ * Trade record parsed from a broker Tradebook CSV
  */
 export interface TradeRecord {
 	/** Unique trade identifier for deduplication */
@@ -36,6 +58,122 @@ export interface TradeRecord {
 	quantity: number;
 	/** Price per share at which trade was executed */
 	price: number;
+	/** Deductible charges allocated from contract notes (brokerage, exchange and SEBI fees, stamp duty, GST) */
+	charges?: number;
+	/** Securities Transaction Tax allocated from contract notes (never deductible from capital gains) */
+	stt?: number;
+	/** Sell accepted in a company buyback tender offer (from series/auction markers or tagged manually) */
+	tenderOffer?: boolean;
+}
+
+/**
+ * Charges from one contract note (a trading day), or from one trade when a trade ID is given
+ * Spread across the matching equity trades in proportion to trade value
+ */
+export interface ContractNoteCharges {
+	/** Unique identifier for the charges record */
+	id: string;
+	/** Trading day the contract note covers */
+	tradeDate: Date;
+	/** Trade the charges belong to (empty when they cover the whole day) */
+	tradeId: string;
+	/** Brokerage */
+	brokerage: number;
+	/** Exchange transaction charges */
+	exchangeCharges: number;
+	/** SEBI turnover fees */
+	sebiFees: number;
+	/** Stamp duty (levied on buys only) */
+	stampDuty: number;
+	/** GST on brokerage and fees */
+	gst: number;
+	/** Securities Transaction Tax */
+	stt: number;
+}
+
+/**
+ * Dividend paid on a holding, from a dividend statement
+ * Linked to holdings by ISIN (falling back to symbol)
+ */
+export interface DividendRecord {
+	/** Unique identifier for the dividend record */
+	id: string;
+	/** Trading symbol */
+	symbol: string;
+	/** ISIN of the security (may be empty) */
+	isin: string;
+	/** Ex-date; shares must be held before this date to receive the dividend */
+	exDate: Date;
+	/** Shares the dividend was paid on */
+	quantity: number;
+	/** Dividend declared per share */
+	dividendPerShare: number;
+	/** Gross dividend (taxable amount, before TDS) */
+	amount: number;
+	/** Amount credited after TDS */
+	netAmount: number;
+}
+
+/**
+ * A tradebook row that was skipped because a value failed validation
+ */
+export interface ParseIssue {
+	/** Row number in the CSV file, counting the header as row 1 */
+	row: number;
+	/** Column that failed validation (e.g., trade_date, quantity) */
+	column: string;
+	/** Raw value found in the column */
+	value: string;
+	/** Human-readable reason the row was skipped */
+	reason: string;
+}
+
+/**
+ * Per-file report of how tradebook rows were parsed
+ */
+export interface ParseDiagnostics {
+	/** Total data rows read from the file (excluding the header) */
+	totalRows: number;
+	/** Rows that became valid equity trades */
+	parsedRows: number;
+	/** Rows that became valid futures and options trades */
+	derivativeRows: number;
+	/** Rows skipped because of invalid or missing values */
+	issues: ParseIssue[];
+	/** Rows skipped per non-equity segment (e.g., { FO: 12, CD: 3 }) */
+	skippedSegments: Record<string, number>;
+	/** Rows that were not executed trades (e.g., cancelled orders) */
+	skippedNonTrades: number;
+}
+
+/**
+ * Derivative instrument type, derived from the contract symbol
+ * FUTURE: Futures contract (e.g., NIFTY24JANFUT)
+ * OPTION: Call or put option (e.g., NIFTY24JAN21000CE)
+ */
+export type DerivativeInstrument = 'FUTURE' | 'OPTION';
+
+/**
+ * Futures or options trade parsed from the FO segment of a tradebook
+ * Results are non-speculative business income, not capital gains
+ */
+export interface DerivativeTrade {
+	/** Unique trade identifier for deduplication */
+	tradeId: string;
+	/** Contract trading symbol (underlying, expiry, strike and option type) */
+	symbol: string;
+	/** Date when the trade was executed */
+	tradeDate: Date;
+	/** Exchange where trade was executed (NSE/BSE) */
+	exchange: string;
+	/** Futures or options contract */
+	instrument: DerivativeInstrument;
+	/** Type of trade - buy or sell */
+	tradeType: TradeType;
+	/** Number of units traded (lots × lot size) */
+	quantity: number;
+	/** Price (or premium) per unit */
+	price: number;
 }
 
 /**
@@ -46,10 +184,16 @@ export interface UploadedFile {
 	id: string;
 	/** Original filename */
 	name: string;
+	/** Broker whose export format was detected (e.g., "Zerodha", "Groww") */
+	broker: string;
 	/** Financial year range (e.g., "FY 2023-24") */
 	fyRange: string;
-	/** Total number of trades in the file */
+	/** Total number of equity trades in the file */
 	tradeCount: number;
+	/** Number of futures and options trades in the file */
+	derivativeTradeCount: number;
+	/** Rows that were skipped while parsing the file */
+	diagnostics: ParseDiagnostics;
 	/** Date range of trades in the file */
 	dateRange: {
 		from: Date;
@@ -57,6 +201,232 @@ export interface UploadedFile {
 	};
 }
 
+/**
+ * Type of corporate action that changes share count or per-share cost
+ * SPLIT: Face value split (e.g., 1 share becomes 5)
+ * CONSOLIDATION: Reverse split (e.g., 10 shares become 1)
+ * BONUS: Free shares allotted in proportion to the existing holding
+ */
+export type CorporateActionType = 'SPLIT' | 'CONSOLIDATION' | 'BONUS';
+
+/**
+ * Corporate action recorded against an ISIN
+ * Replayed against open lots on the ex-date before later trades are matched
+ */
+export interface CorporateAction {
+	/** Unique identifier for the corporate action */
+	id: string;
+	/** ISIN the action applies to */
+	isin: string;
+	/** Trading symbol (used for matching when trades have no ISIN) */
+	symbol: string;
+	/** Type of corporate action */
+	type: CorporateActionType;
+	/** Ex-date - lots held before this date are adjusted */
+	exDate: Date;
+	/** Shares held before the action (e.g., 1 in a 1:5 split, 1 in a 1:1 bonus) */
+	ratioFrom: number;
+	/** Shares after the action, or bonus shares issued (e.g., 5 in a 1:5 split) */
+	ratioTo: number;
+	/** Date bonus shares were allotted (defaults to ex-date) */
+	allotmentDate?: Date;
+	/** ISIN issued by a split or consolidation that changes the face value; lots move to it on the ex-date */
+	newIsin?: string;
+}
+
+/**
+ * Type of symbol change
+ * RENAME: Ticker (and possibly ISIN) changes, one old share becomes one new share
+ * MERGER: Shares of the merged company are swapped for shares of the surviving company
+ */
+export type SymbolChangeType = 'RENAME' | 'MERGER';
+
+/**
+ * A link in a security's symbol history
+ * Lots still open under the old symbol/ISIN on the effective date move to the
+ * new symbol/ISIN, keeping their acquisition dates and total cost
+ */
+export interface SymbolChange {
+	/** Unique identifier for the symbol change */
+	id: string;
+	/** Type of symbol change */
+	type: SymbolChangeType;
+	/** Symbol before the change */
+	oldSymbol: string;
+	/** ISIN before the change (may be empty) */
+	oldIsin: string;
+	/** Symbol after the change */
+	newSymbol: string;
+	/** ISIN after the change (may be empty) */
+	newIsin: string;
+	/** Date from which the new symbol trades (record date for mergers) */
+	effectiveDate: Date;
+	/** Old shares in the swap ratio (e.g., 25 HDFC Bank for 42 HDFC → 42) */
+	ratioFrom: number;
+	/** New shares in the swap ratio (e.g., 25 HDFC Bank for 42 HDFC → 25) */
+	ratioTo: number;
+}
+
+/**
+ * Demerger of an undertaking into a separately listed resulting company
+ * Shareholders keep their parent shares and receive resulting company shares;
+ * the parent's cost is split between the two (Section 49(2C)/(2D)) and both
+ * keep the original acquisition dates (Section 2(42A))
+ */
+export interface Demerger {
+	/** Unique identifier for the demerger */
+	id: string;
+	/** Symbol of the parent (demerged) company */
+	parentSymbol: string;
+	/** ISIN of the parent company (may be empty) */
+	parentIsin: string;
+	/** Symbol of the resulting company */
+	resultingSymbol: string;
+	/** ISIN of the resulting company (may be empty) */
+	resultingIsin: string;
+	/** Record date - lots held on this date are split */
+	recordDate: Date;
+	/** Parent shares in the entitlement ratio (e.g., 1 in 1 resulting share for every 1 held) */
+	ratioFrom: number;
+	/** Resulting company shares issued for ratioFrom parent shares */
+	ratioTo: number;
+	/** Fraction of the parent's cost moved to the resulting company, as announced (e.g., 0.2312) */
+	costShare: number;
+}
+
+/**
+ * Shares held before the uploaded trade history begins
+ * Seeded as a FIFO lot before tradebook trades are replayed, like a buy
+ * on the acquisition date (recorded corporate actions after that date still apply)
+ */
+export interface OpeningPosition {
+	/** Unique identifier for the opening position */
+	id: string;
+	/** Trading symbol */
+	symbol: string;
+	/** ISIN of the security (may be empty for manual entries) */
+	isin: string;
+	/** Exchange the shares are grouped under (NSE/BSE) */
+	exchange: string;
+	/** Number of shares held */
+	quantity: number;
+	/** Date the shares were acquired; null for imported holdings until the user enters it */
+	acquisitionDate: Date | null;
+	/** Cost per share */
+	purchasePrice: number;
+}
+
+/**
+ * Opening position with a known acquisition date, ready to seed a FIFO lot
+ */
+export type DatedOpeningPosition = OpeningPosition & { acquisitionDate: Date };
+
+/**
+ * How shares arrived in the demat account without a trade
+ * - GIFT / INHERITANCE: previous owner's cost and holding period carry over (Sections 49, 2(42A))
+ * - OWN_DEMAT: moved from another demat account of the same owner
+ * - OFF_MARKET: bought off-market, so no STT was paid on acquisition
+ */
+export type InwardTransferSource = 'GIFT' | 'INHERITANCE' | 'OWN_DEMAT' | 'OFF_MARKET';
+
+/**
+ * Shares credited by gift, inheritance or an off-market transfer
+ * Enters the FIFO queue on the credit date, but keeps the original acquisition
+ * date and cost for holding period and gain calculation
+ */
+export interface InwardTransfer {
+	/** Unique identifier for the transfer */
+	id: string;
+	/** Trading symbol */
+	symbol: string;
+	/** ISIN of the security (may be empty for manual entries) */
+	isin: string;
+	/** Exchange the shares are grouped under (NSE/BSE) */
+	exchange: string;
+	/** Number of shares credited */
+	quantity: number;
+	/** How the shares were received */
+	source: InwardTransferSource;
+	/** Date the shares were credited to this demat account */
+	transferDate: Date;
+	/** Date the shares were originally acquired (by the previous owner, for gifts and inheritance) */
+	acquisitionDate: Date;
+	/** Original cost per share */
+	purchasePrice: number;
+	/** Whether STT was paid on the original acquisition (needed for Section 112A) */
+	sttPaid: boolean;
+}
+
+/**
+ * Primary-market allotment that never appears as a tradebook buy
+ */
+export type AllotmentType = 'IPO' | 'RIGHTS';
+
+/**
+ * Shares allotted in an IPO or a rights issue
+ * Becomes a FIFO lot dated to the allotment date at the amount paid on application
+ */
+export interface ShareAllotment {
+	/** Unique identifier for the allotment */
+	id: string;
+	/** IPO or rights issue */
+	type: AllotmentType;
+	/** Trading symbol of the allotted shares */
+	symbol: string;
+	/** ISIN of the allotted shares (the partly-paid ISIN for partly-paid rights) */
+	isin: string;
+	/** Exchange the shares are grouped under (NSE/BSE) */
+	exchange: string;
+	/** Number of shares allotted */
+	quantity: number;
+	/** Date the shares were allotted */
+	allotmentDate: Date;
+	/** Amount paid per share on application (for partly-paid shares, only the part paid so far) */
+	pricePerShare: number;
+	/** Symbol of the rights entitlement (RE) converted into these shares (empty for IPOs) */
+	entitlementSymbol: string;
+	/** ISIN of the rights entitlement (empty for IPOs) */
+	entitlementIsin: string;
+}
+
+/**
+ * Call money paid on partly-paid shares
+ * Adds to the cost of every open lot; the final call converts the shares to the fully-paid ISIN
+ */
+export interface CallMoneyPayment {
+	/** Unique identifier for the payment */
+	id: string;
+	/** Symbol of the partly-paid shares */
+	symbol: string;
+	/** ISIN of the partly-paid shares */
+	isin: string;
+	/** Date the call money was paid */
+	paymentDate: Date;
+	/** Call money paid per share */
+	amountPerShare: number;
+	/** Fully-paid symbol the shares merge into after this call (empty unless it is the final call) */
+	fullyPaidSymbol: string;
+	/** Fully-paid ISIN the shares merge into after this call */
+	fullyPaidIsin: string;
+}
+
+/**
+ * A sell whose quantity could not be matched to any known lot
+ * Indicates missing trade history or opening positions
+ */
+export interface UnmatchedSell {
+	/** Trading symbol */
+	symbol: string;
+	/** ISIN of the security (may be empty) */
+	isin: string;
+	/** Exchange where the sell was executed */
+	exchange: string;
+	/** Date of the sell */
+	sellDate: Date;
+	/** Shares sold with no matching lot */
+	quantity: number;
+}
+
 /**
  * Individual purchase lot for FIFO (First-In-First-Out) tracking
  */
@@ -65,8 +435,16 @@ export interface HoldingLot {
 	quantity: number;
 	/** Date when this lot was purchased */
 	purchaseDate: Date;
-	/** Price per share at purchase */
+	/** Cost per share at purchase, including allocated buy charges */
 	purchasePrice: number;
+	/** 31 Jan 2018 FMV per share for Section 112A grandfathering (lots acquired before 1 Feb 2018) */
+	grandfatheredFmv?: number;
+	/** Exchange the lot was bought on (NSE/BSE), kept for order routing when lots are merged per ISIN */
+	exchange?: string;
+	/** Acquired without paying STT (e.g., off-market purchase), so Section 112A does not apply */
+	sttNotPaid?: boolean;
+	/** Date the lot joined the FIFO queue when it differs from purchaseDate (credit date of a transferred-in lot) */
+	queuedDate?: Date;
 }
 
 /**
@@ -78,7 +456,7 @@ export interface Holding {
 	symbol: string;
 	/** International Securities Identification Number */
 	isin: string;
-	/** Primary exchange for the holding */
+	/** Exchange to route sell orders to (exchange of the oldest lot) */
 	exchange: string;
 	/** Individual purchase lots maintained for FIFO calculations */
 	lots: HoldingLot[];
@@ -92,8 +470,12 @@ export interface Holding {
 	newestPurchaseDate: Date;
 	/** Tax classification based on holding period (legacy - based on oldest lot) */
 	classification: Classification;
+	/** Asset class deciding the holding-period rules (EQUITY when not set) */
+	assetClass?: AssetClass;
 	/** Current market price (populated after Kite connection) */
 	currentPrice?: number;
+	/** Date of the statement NAV used as current price, for fund units (they have no exchange quote) */
+	navDate?: Date;
 	/** Profit/Loss amount (populated after Kite connection) */
 	pnl?: number;
 	/** Profit/Loss percentage (populated after Kite connection) */
@@ -102,9 +484,9 @@ export interface Holding {
 	isLoss?: boolean;
 
 	// Per-lot classification breakdown (calculated when prices are fetched)
-	/** Quantity of shares in short-term lots (held <= 365 days) */
+	/** Quantity of shares in short-term lots (held 12 months or less) */
 	stQuantity?: number;
-	/** Quantity of shares in long-term lots (held > 365 days) */
+	/** Quantity of shares in long-term lots (held more than 12 months) */
 	ltQuantity?: number;
 	/** Average purchase price of short-term lots */
 	stAvgPrice?: number;
@@ -114,6 +496,12 @@ export interface Holding {
 	stPnl?: number;
 	/** P&L from long-term portion */
 	ltPnl?: number;
+
+	// Dividends (calculated when a dividend statement is imported)
+	/** Gross dividends received on this holding, across all recorded ex-dates */
+	dividendsReceived?: number;
+	/** Gross dividends of the last 12 months as a percentage of the cost of current lots */
+	dividendYield?: number;
 }
 
 /**
@@ -132,7 +520,7 @@ export interface SellOrder {
 	purchaseDate: Date;
 	/** Current market price from Kite quotes */
 	currentPrice: number;
-	/** Expected loss amount for tax harvesting */
+	/** Expected loss amount for tax harvesting (negative when the sale books a gain) */
 	expectedLoss: number;
 }
 
@@ -181,7 +569,7 @@ export interface BuybackRecord {
 	purchasePrice?: number;
 	/** Original purchase date of the sold shares */
 	purchaseDate?: Date;
-	/** Expected loss amount from the harvest */
+	/** Expected loss amount from the harvest (negative for gain harvesting) */
 	expectedLoss?: number;
 	/** Current status of the buyback */
 	status: BuybackStatus;
@@ -219,14 +607,109 @@ export interface RealizedGainEntry {
 	sellPrice: number;
 	/** Average purchase price of sold lots (FIFO) */
 	purchasePrice: number;
+	/** Per-share cost after Section 112A grandfathering (set only for lots acquired before 1 Feb 2018) */
+	grandfatheredCost?: number;
 	/** Purchase date of the oldest lot consumed */
 	purchaseDate: Date;
+	/** Sale-side charges deducted from the sale value */
+	saleCharges?: number;
+	/** Sold from a lot acquired without STT (outside Section 112A when long-term) */
+	sttNotPaid?: boolean;
+	/** Sale value taxed as a deemed dividend (buyback tender from 1 Oct 2024); the cost becomes a capital loss */
+	deemedDividend?: number;
+	/** Asset class of the sold units, when not listed equity shares */
+	assetClass?: AssetClass;
 	/** Realized profit/loss amount */
 	gainLoss: number;
 	/** Classification based on holding period */
 	classification: Classification;
 }
 
+/**
+ * Intraday (same-day, non-delivery) trades of one security on one day, netted
+ * Taxed as speculative business income, not as capital gains
+ */
+export interface SpeculativeEntry {
+	/** Trading symbol */
+	symbol: string;
+	/** ISIN of the security (may be empty) */
+	isin: string;
+	/** Trading day */
+	tradeDate: Date;
+	/** Quantity bought and sold on the same day */
+	quantity: number;
+	/** Volume-weighted average buy price for the day */
+	buyPrice: number;
+	/** Volume-weighted average sell price for the day */
+	sellPrice: number;
+	/** Speculative profit/loss on the intraday quantity */
+	pnl: number;
+}
+
+/**
+ * Summary of speculative (intraday) income for the financial year
+ */
+export interface SpeculativeIncomeSummary {
+	/** Sum of profitable days */
+	profit: number;
+	/** Sum of loss-making days (stored as positive for display) */
+	loss: number;
+	/** Net speculative income (profit - loss) */
+	netPnl: number;
+	/** Turnover: sum of absolute profit/loss per day */
+	turnover: number;
+	/** Individual entries for detailed view */
+	entries: SpeculativeEntry[];
+}
+
+/**
+ * Summary of dividend income for the financial year
+ */
+export interface DividendIncomeSummary {
+	/** Gross dividends with an ex-date in the FY (taxed at slab rate) */
+	total: number;
+	/** Tax deducted at source (gross minus amount credited) */
+	tds: number;
+	/** Dividends of the FY, in ex-date order */
+	entries: DividendRecord[];
+}
+
+/**
+ * Realized result of one derivative contract for the financial year
+ */
+export interface DerivativeContractPnl {
+	/** Contract trading symbol */
+	symbol: string;
+	/** Futures or options contract */
+	instrument: DerivativeInstrument;
+	/** Realized profit/loss on positions closed this FY */
+	realizedPnl: number;
+	/** Turnover: sum of absolute profit/loss per closing trade */
+	turnover: number;
+	/** Units closed this FY */
+	closedQuantity: number;
+	/** Units still open (negative for short positions) */
+	openQuantity: number;
+}
+
+/**
+ * Summary of futures and options (non-speculative business) income for the financial year
+ */
+export interface DerivativeIncomeSummary {
+	/** Sum of profitable contracts */
+	profit: number;
+	/** Sum of loss-making contracts (stored as positive for display) */
+	loss: number;
+	/** Net realized profit/loss (profit - loss) */
+	netPnl: number;
+	/** Turnover for the Section 44AB tax audit threshold */
+	turnover: number;
+	/** Whether turnover exceeds the Section 44AB audit threshold */
+	auditThresholdExceeded: boolean;
+	/** Per-contract breakdown, sorted by symbol */
+	contracts: DerivativeContractPnl[];
+}
+
 /**
  * Summary of realized gains/losses for the financial year
  */
@@ -243,6 +726,128 @@ export interface RealizedGainsSummary {
 	netShortTerm: number;
 	/** Net long-term (LTCG - LTCL) */
 	netLongTerm: number;
+	/** STT paid on equity trades this FY (reported separately, not deductible) */
+	sttPaid: number;
+	/** Long-term gains (included in ltcg) on lots acquired without STT, taxed under Section 112 instead of 112A */
+	sttNotPaidLtcg: number;
 	/** Individual entries for detailed view */
 	entries: RealizedGainEntry[];
 }
+
+/**
+ * Realized gains of one financial year
+ */
+export interface FinancialYearGains {
+	/** Label such as "FY 2024-25" */
+	label: string;
+	/** 1 April the FY starts on */
+	startDate: Date;
+	/** STCG, STCL, LTCG and LTCL of the FY */
+	gains: RealizedGainsSummary;
+}
+
+/**
+ * Section under which a capital gain is taxed at a special rate
+ * - 111A: short-term gains on listed equity, equity ETFs and equity funds
+ * - 112A: long-term gains on the same when STT was paid
+ * - 112: other long-term gains (no STT, debt/gold/international funds)
+ */
+export type CapitalGainsSection = '111A' | '112A' | '112';
+
+/**
+ * Gains of one section taxed at one rate, after loss set-off and exemption
+ */
+export interface TaxSlice {
+	/** Section the gains are taxed under */
+	section: CapitalGainsSection;
+	/** Rate in force on the sell dates of these gains */
+	rate: number;
+	/** Gains before set-off */
+	gain: number;
+	/** Gains left after set-off and the 112A exemption */
+	taxableGain: number;
+	/** Tax before surcharge and cess */
+	tax: number;
+}
+
+/**
+ * Short- and long-term capital losses (positive amounts)
+ */
+export interface CapitalLosses {
+	/** Short-term capital loss */
+	shortTerm: number;
+	/** Long-term capital loss */
+	longTerm: number;
+}
+
+/**
+ * Unabsorbed capital loss of a past FY carried forward (Schedule CFL)
+ */
+export interface CarryForwardLoss {
+	/** Unique identifier */
+	id: string;
+	/** 1 April of the FY the loss was incurred in */
+	lossFyStart: Date;
+	/** Short-term loss still to be set off */
+	shortTerm: number;
+	/** Long-term loss still to be set off */
+	longTerm: number;
+	/** Whether the return for the loss year was filed by the due date (Section 80) */
+	filedOnTime: boolean;
+	/** Entered from a filed return, or built from tradebooks */
+	source: 'ITR' | 'TRADEBOOK';
+}
+
+/**
+ * Brought-forward loss set off against one year's gains
+ */
+export interface BroughtForwardSetOff {
+	/** Ledger entry the loss came from */
+	loss: CarryForwardLoss;
+	/** Part set off this year */
+	setOff: CapitalLosses;
+	/** Balance left to carry to later years */
+	remaining: CapitalLosses;
+}
+
+/**
+ * Estimated tax on the capital gains of one financial year
+ */
+export interface TaxEstimate {
+	/** Taxable gains per section and rate, highest rate first */
+	slices: TaxSlice[];
+	/** Annual Section 112A exemption for the FY */
+	exemption: number;
+	/** Part of the exemption used against 112A gains */
+	exemptionUsed: number;
+	/** Tax at the special rates, before surcharge and cess */
+	tax: number;
+	/** Surcharge rate applied (capped for 111A/112A gains) */
+	surchargeRate: number;
+	/** Surcharge on the tax */
+	surcharge: number;
+	/** Health and education cess on tax plus surcharge */
+	cess: number;
+	/** Tax payable: tax + surcharge + cess */
+	totalTax: number;
+	/** Short-term gains on non-equity funds, taxed at slab rate and not estimated */
+	slabRateGains: number;
+	/** This year's losses left after set-off, carried forward to later years */
+	carryForward: CapitalLosses;
+	/** Losses brought forward from earlier years and how much of each was set off */
+	broughtForward: BroughtForwardSetOff[];
+}
+
+/**
+ * Buyback tender offers accepted from 1 Oct 2024 (Sections 2(22)(f) and 46A)
+ * The whole buyback price is a deemed dividend and the cost of the
+ * extinguished shares is a capital loss (already in the STCL/LTCL totals)
+ */
+export interface TenderOfferSummary {
+	/** Buyback proceeds taxed as dividend at slab rate */
+	deemedDividend: number;
+	/** Cost of the tendered shares, booked as capital loss */
+	capitalLoss: number;
+	/** Realized entries of the tendered lots */
+	entries: RealizedGainEntry[];
+}
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for share allotments
+ * Tests allotment CSV parsing and the symbol changes derived from rights and final calls
+ */
+
+import { describe, it, expect } from 'vitest';
+import { convertEntitlementLots, deriveAllotmentSymbolChanges, parseAllotmentsCsv } from './allotments';
+import type { CallMoneyPayment, ShareAllotment } from '$lib/types';
+
+/**
+ * Helper to create a rights allotment applied with entitlements
+ */
+function createRightsAllotment(overrides: Partial<ShareAllotment> = {}): ShareAllotment {
+	return {
+		id: 'al1',
+		type: 'RIGHTS',
+		symbol: 'RELIANCEPP',
+		isin: 'IN9002A01024',
+		exchange: 'NSE',
+		quantity: 10,
+		allotmentDate: new Date(2020, 5, 10),
+		pricePerShare: 314.25,
+		entitlementSymbol: 'RELIANCE-RE',
+		entitlementIsin: 'INE002A20018',
+		...overrides
+	};
+}
+
+describe('parseAllotmentsCsv', () => {
+	it('should parse IPO and rights rows and report invalid ones', () => {
+		const csv = [
+			'Symbol,ISIN,Type,Quantity,Allotment Date,Price,Entitlement Symbol',
+			'lici,INE0J1Y01017,IPO,15,2022-05-12,949,',
+			'RELIANCEPP,IN9002A01024,Rights,10,10-06-2020,314.25,RELIANCE-RE',
+			'XYZ,,BONUS,10,2022-05-12,0,'
+		].join('\n');
+
+		const { allotments, issues } = parseAllotmentsCsv(csv);
+
+		expect(allotments).toHaveLength(2);
+		expect(allotments[0]).toMatchObject({ type: 'IPO', symbol: 'LICI', quantity: 15, pricePerShare: 949 });
+		expect(allotments[1]).toMatchObject({
+			type: 'RIGHTS',
+			allotmentDate: new Date(2020, 5, 10),
+			entitlementSymbol: 'RELIANCE-RE'
+		});
+		expect(issues).toEqual([{ row: 4, column: 'type', value: 'BONUS', reason: 'Type must be IPO or RIGHTS' }]);
+	});
+
+	it('should reject files without the required columns', () => {
+		expect(() => parseAllotmentsCsv('Symbol,Quantity\nLICI,15')).toThrow('allotmentDate, pricePerShare');
+	});
+});
+
+describe('deriveAllotmentSymbolChanges', () => {
+	it('should link entitlements to rights shares and partly-paid shares to the fully-paid ISIN', () => {
+		const payments: CallMoneyPayment[] = [
+			{ id: 'cm1', symbol: 'RELIANCEPP', isin: 'IN9002A01024', paymentDate: new Date(2021, 4, 20), amountPerShare: 314.25, fullyPaidSymbol: '', fullyPaidIsin: '' },
+			{ id: 'cm2', symbol: 'RELIANCEPP', isin: 'IN9002A01024', paymentDate: new Date(2021, 10, 20), amountPerShare: 628.5, fullyPaidSymbol: 'RELIANCE', fullyPaidIsin: 'INE002A01018' }
+		];
+
+		const changes = deriveAllotmentSymbolChanges(
+			[createRightsAllotment(), createRightsAllotment({ id: 'al2', type: 'IPO', entitlementSymbol: '', entitlementIsin: '' })],
+			payments
+		);
+
+		expect(changes.map((change) => [change.id, change.oldIsin, change.newIsin])).toEqual([
+			['re_al1', 'INE002A20018', 'IN9002A01024'],
+			['call_cm2', 'IN9002A01024', 'INE002A01018']
+		]);
+		expect(changes.every((change) => change.ratioFrom === 1 && change.ratioTo === 1)).toBe(true);
+	});
+});
+
+describe('convertEntitlementLots', () => {
+	it('should date converted shares to the allotment and add the application money', () => {
+		const lots = [
+			{ quantity: 6, purchaseDate: new Date(2020, 4, 25), purchasePrice: 200 },
+			{ quantity: 6, purchaseDate: new Date(2020, 4, 28), purchasePrice: 220 }
+		];
+
+		expect(convertEntitlementLots(lots, createRightsAllotment())).toEqual([
+			{ quantity: 6, purchaseDate: new Date(2020, 5, 10), purchasePrice: 514.25 },
+			{ quantity: 4, purchaseDate: new Date(2020, 5, 10), purchasePrice: 534.25 }
+		]);
+	});
+});
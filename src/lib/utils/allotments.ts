@@ -0,0 +1,329 @@
+/**
+ * Share Allotments
+ * Turns IPO and rights allotments into FIFO lots, converts rights entitlements
+ * into the allotted shares, and merges partly-paid shares into the fully-paid
+ * ISIN once the final call money is paid
+ */
+
+import Papa from 'papaparse';
+import type {
+	AllotmentType,
+	CallMoneyPayment,
+	HoldingLot,
+	ParseIssue,
+	ShareAllotment,
+	SymbolChange
+} from '$lib/types';
+import { IMPORT_DATE_FORMATS, findColumn, parseDateWithFormats } from '$lib/utils/brokers/shared';
+
+/**
+ * Display labels for each allotment type
+ */
+export const ALLOTMENT_TYPE_LABELS: Record<AllotmentType, string> = {
+	IPO: 'IPO',
+	RIGHTS: 'Rights issue'
+};
+
+/**
+ * Column names (lowercased) accepted for each field, in order of preference
+ */
+const ALLOTMENT_COLUMNS = {
+	type: ['type', 'issue type'],
+	quantity: ['quantity', 'allotted quantity', 'qty'],
+	allotmentDate: ['allotment date', 'allotment_date', 'date'],
+	pricePerShare: ['price', 'issue price', 'amount paid per share'],
+	entitlementSymbol: ['entitlement symbol', 're symbol'],
+	entitlementIsin: ['entitlement isin', 're isin']
+} as const;
+
+/**
+ * Prefix of symbol changes derived from rights entitlement conversions
+ */
+const ENTITLEMENT_CHANGE_PREFIX = 're_';
+
+/**
+ * Prefix of symbol changes derived from final calls on partly-paid shares
+ */
+const FINAL_CALL_CHANGE_PREFIX = 'call_';
+
+/**
+ * Result of parsing an allotments export
+ */
+export interface AllotmentParseResult {
+	/** Allotments found in the export, without IDs */
+	allotments: Omit<ShareAllotment, 'id'>[];
+	/** Rows that were skipped because a value failed validation */
+	issues: ParseIssue[];
+}
+
+/**
+ * Validates an allotment before it is recorded
+ *
+ * @param allotment - Allotment to validate
+ * @returns Human-readable error message, or null if the allotment is valid
+ */
+export function validateAllotment(allotment: Omit<ShareAllotment, 'id'>): string | null {
+	if (!allotment.symbol?.trim()) {
+		return 'Symbol is required';
+	}
+
+	if (!(allotment.quantity > 0)) {
+		return 'Quantity must be a positive number';
+	}
+
+	if (!(allotment.pricePerShare >= 0)) {
+		return 'Price per share must be zero or more';
+	}
+
+	if (!(allotment.allotmentDate instanceof Date) || isNaN(allotment.allotmentDate.getTime())) {
+		return 'A valid allotment date is required';
+	}
+
+	if (allotment.type === 'IPO' && (allotment.entitlementSymbol?.trim() || allotment.entitlementIsin?.trim())) {
+		return 'Only rights allotments convert an entitlement';
+	}
+
+	return null;
+}
+
+/**
+ * Validates a call money payment before it is recorded
+ *
+ * @param payment - Call money payment to validate
+ * @returns Human-readable error message, or null if the payment is valid
+ */
+export function validateCallMoneyPayment(payment: Omit<CallMoneyPayment, 'id'>): string | null {
+	if (!payment.symbol?.trim() && !payment.isin?.trim()) {
+		return 'The partly-paid symbol or ISIN is required';
+	}
+
+	if (!(payment.amountPerShare >= 0)) {
+		return 'Call money per share must be zero or more';
+	}
+
+	if (!(payment.paymentDate instanceof Date) || isNaN(payment.paymentDate.getTime())) {
+		return 'A valid payment date is required';
+	}
+
+	if (payment.fullyPaidIsin?.trim() && !payment.fullyPaidSymbol?.trim()) {
+		return 'The fully-paid symbol is required when the shares convert';
+	}
+
+	return null;
+}
+
+/**
+ * Converts an allotment into the FIFO lot it adds on the allotment date
+ *
+ * @param allotment - Recorded allotment
+ * @param quantity - Shares to add (less than allotted when part came from converted entitlements)
+ */
+export function allotmentToLot(allotment: ShareAllotment, quantity = allotment.quantity): HoldingLot {
+	return {
+		quantity,
+		purchaseDate: allotment.allotmentDate,
+		purchasePrice: allotment.pricePerShare,
+		exchange: allotment.exchange
+	};
+}
+
+/**
+ * Converts rights entitlement lots into the rights shares allotted against them
+ * The shares are held from the allotment date and cost the entitlement price
+ * plus the amount paid on application
+ *
+ * @param lots - Open entitlement lots, already moved 1:1 to the rights ISIN
+ * @param allotment - Rights allotment the entitlements were exercised for
+ * @returns Lots of the allotted shares (at most the allotted quantity)
+ */
+export function convertEntitlementLots(lots: HoldingLot[], allotment: ShareAllotment): HoldingLot[] {
+	let remaining = allotment.quantity;
+	const converted: HoldingLot[] = [];
+
+	for (const lot of lots) {
+		if (remaining <= 0) {
+			break;
+		}
+		const quantity = Math.min(lot.quantity, remaining);
+		converted.push({
+			...lot,
+			quantity,
+			purchaseDate: allotment.allotmentDate,
+			purchasePrice: lot.purchasePrice + allotment.pricePerShare
+		});
+		remaining -= quantity;
+	}
+
+	return converted;
+}
+
+/**
+ * Derives the symbol changes implied by allotments and call money payments
+ * - A rights allotment with an entitlement moves the RE lots to the rights ISIN
+ * - A final call moves partly-paid lots to the fully-paid ISIN
+ * Both swap one share for one share on the allotment or payment date.
+ *
+ * @param allotments - Recorded allotments
+ * @param callPayments - Recorded call money payments
+ * @returns Symbol changes to replay alongside the user-recorded ones
+ */
+export function deriveAllotmentSymbolChanges(
+	allotments: ShareAllotment[],
+	callPayments: CallMoneyPayment[]
+): SymbolChange[] {
+	const entitlementChanges = allotments
+		.filter((allotment) => allotment.type === 'RIGHTS' && (allotment.entitlementSymbol || allotment.entitlementIsin))
+		.map((allotment) => ({
+			id: `${ENTITLEMENT_CHANGE_PREFIX}${allotment.id}`,
+			type: 'MERGER' as const,
+			oldSymbol: allotment.entitlementSymbol,
+			oldIsin: allotment.entitlementIsin,
+			newSymbol: allotment.symbol,
+			newIsin: allotment.isin,
+			effectiveDate: allotment.allotmentDate,
+			ratioFrom: 1,
+			ratioTo: 1
+		}));
+
+	const finalCallChanges = callPayments
+		.filter((payment) => payment.fullyPaidSymbol)
+		.map((payment) => ({
+			id: `${FINAL_CALL_CHANGE_PREFIX}${payment.id}`,
+			type: 'MERGER' as const,
+			oldSymbol: payment.symbol,
+			oldIsin: payment.isin,
+			newSymbol: payment.fullyPaidSymbol,
+			newIsin: payment.fullyPaidIsin,
+			effectiveDate: payment.paymentDate,
+			ratioFrom: 1,
+			ratioTo: 1
+		}));
+
+	return [...entitlementChanges, ...finalCallChanges];
+}
+
+/**
+ * Finds the rights allotment behind a derived entitlement conversion
+ *
+ * @param allotments - Recorded allotments
+ * @param change - Symbol change being applied
+ * @returns The allotment, or undefined if the change is not an entitlement conversion
+ */
+export function findEntitlementAllotment(
+	allotments: ShareAllotment[],
+	change: SymbolChange
+): ShareAllotment | undefined {
+	if (!change.id.startsWith(ENTITLEMENT_CHANGE_PREFIX)) {
+		return undefined;
+	}
+	return allotments.find((allotment) => change.id === `${ENTITLEMENT_CHANGE_PREFIX}${allotment.id}`);
+}
+
+/**
+ * Gets the call money payments made on a partly-paid holding
+ * Matches on ISIN when both sides have one, otherwise falls back to symbol
+ *
+ * @param payments - All recorded call money payments
+ * @param isin - ISIN of the holding
+ * @param symbol - Symbol of the holding
+ * @returns Payments in date order
+ */
+export function getCallPaymentsForHolding(
+	payments: CallMoneyPayment[],
+	isin: string,
+	symbol: string
+): CallMoneyPayment[] {
+	return payments
+		.filter((payment) =>
+			payment.isin && isin ? payment.isin === isin : payment.symbol.toUpperCase() === symbol.toUpperCase()
+		)
+		.sort((a, b) => a.paymentDate.getTime() - b.paymentDate.getTime());
+}
+
+/**
+ * Adds call money to the cost of every open lot
+ */
+export function applyCallMoney(lots: HoldingLot[], payment: CallMoneyPayment): HoldingLot[] {
+	return lots.map((lot) => ({ ...lot, purchasePrice: lot.purchasePrice + payment.amountPerShare }));
+}
+
+/**
+ * Parses an allotments CSV (one row per IPO or rights allotment)
+ *
+ * Needs Symbol, Quantity, Allotment Date and Price columns. A Type column
+ * distinguishes IPO from RIGHTS rows (IPO when missing); rights rows may name
+ * the entitlement (RE) symbol and ISIN they were applied with.
+ *
+ * @param csvContent - Raw CSV content as string
+ * @returns Parsed allotments and rows that could not be used
+ * @throws Error if a required column is missing
+ */
+export function parseAllotmentsCsv(csvContent: string): AllotmentParseResult {
+	const result = Papa.parse<Record<string, string>>(csvContent, {
+		header: true,
+		skipEmptyLines: true,
+		transformHeader: (header) => header.toLowerCase().trim()
+	});
+
+	const fields = result.meta.fields ?? [];
+	const columns = {
+		quantity: findColumn(fields, ALLOTMENT_COLUMNS.quantity),
+		allotmentDate: findColumn(fields, ALLOTMENT_COLUMNS.allotmentDate),
+		pricePerShare: findColumn(fields, ALLOTMENT_COLUMNS.pricePerShare)
+	};
+	const missing = [
+		...(fields.includes('symbol') ? [] : ['symbol']),
+		...Object.entries(columns)
+			.filter(([, column]) => !column)
+			.map(([field]) => field)
+	];
+	if (missing.length > 0) {
+		throw new Error(`Not an allotments export: missing ${missing.join(', ')}`);
+	}
+
+	const typeColumn = findColumn(fields, ALLOTMENT_COLUMNS.type);
+	const entitlementSymbolColumn = findColumn(fields, ALLOTMENT_COLUMNS.entitlementSymbol);
+	const entitlementIsinColumn = findColumn(fields, ALLOTMENT_COLUMNS.entitlementIsin);
+	const allotments: Omit<ShareAllotment, 'id'>[] = [];
+	const issues: ParseIssue[] = [];
+
+	result.data.forEach((row, index) => {
+		// Data rows start after the header, which is row 1
+		const rowNumber = index + 2;
+		const dateColumn = columns.allotmentDate!;
+		const type = typeColumn ? row[typeColumn]?.trim().toUpperCase() : 'IPO';
+
+		if (type !== 'IPO' && type !== 'RIGHTS') {
+			issues.push({ row: rowNumber, column: typeColumn!, value: row[typeColumn!] ?? '', reason: 'Type must be IPO or RIGHTS' });
+			return;
+		}
+
+		const allotmentDate = parseDateWithFormats(row[dateColumn] ?? '', IMPORT_DATE_FORMATS);
+		if (!allotmentDate) {
+			issues.push({ row: rowNumber, column: dateColumn, value: row[dateColumn] ?? '', reason: 'Invalid date' });
+			return;
+		}
+
+		const allotment: Omit<ShareAllotment, 'id'> = {
+			type,
+			symbol: row['symbol']?.trim().toUpperCase() ?? '',
+			isin: row['isin']?.trim().toUpperCase() ?? '',
+			exchange: 'NSE',
+			quantity: Number(row[columns.quantity!]?.trim().replace(/,/g, '')),
+			allotmentDate,
+			pricePerShare: Number(row[columns.pricePerShare!]?.trim().replace(/[,₹]/g, '')),
+			entitlementSymbol: entitlementSymbolColumn ? (row[entitlementSymbolColumn]?.trim().toUpperCase() ?? '') : '',
+			entitlementIsin: entitlementIsinColumn ? (row[entitlementIsinColumn]?.trim().toUpperCase() ?? '') : ''
+		};
+
+		const validationError = validateAllotment(allotment);
+		if (validationError) {
+			issues.push({ row: rowNumber, column: '', value: '', reason: validationError });
+			return;
+		}
+
+		allotments.push(allotment);
+	});
+
+	return { allotments, issues };
+}
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for asset classes
+ * Tests asset class resolution and holding-period rules per asset class
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	classifyByAssetClass,
+	getAssetClassLongTermDate,
+	inferAssetClassFromSchemeName,
+	resolveAssetClass
+} from './asset-classes';
+
+describe('resolveAssetClass', () => {
+	it('should prefer user overrides, then the bundled master, then the ISIN prefix', () => {
+		expect(resolveAssetClass('INF204KB17I5', { INF204KB17I5: 'OTHER_FUND' })).toBe('OTHER_FUND');
+		expect(resolveAssetClass('INF204KB17I5')).toBe('GOLD_ETF');
+		expect(resolveAssetClass('INF179K01VY8')).toBe('EQUITY_FUND');
+		expect(resolveAssetClass('INE009A01021')).toBe('EQUITY');
+		expect(resolveAssetClass('')).toBe('EQUITY');
+	});
+});
+
+describe('classifyByAssetClass', () => {
+	it('should treat equity as long-term after more than 12 months', () => {
+		const asOf = new Date(2025, 0, 20);
+		expect(classifyByAssetClass('EQUITY', new Date(2024, 0, 20), asOf)).toBe('SHORT_TERM');
+		expect(classifyByAssetClass('EQUITY_ETF', new Date(2024, 0, 19), asOf)).toBe('LONG_TERM');
+	});
+
+	it('should keep debt funds bought from 1 Apr 2023 short-term however long they are held', () => {
+		expect(classifyByAssetClass('DEBT_FUND', new Date(2023, 3, 1), new Date(2027, 0, 1))).toBe('SHORT_TERM');
+		expect(classifyByAssetClass('DEBT_FUND', new Date(2021, 0, 1), new Date(2023, 6, 1))).toBe('SHORT_TERM');
+		expect(classifyByAssetClass('DEBT_FUND', new Date(2021, 0, 1), new Date(2024, 6, 1))).toBe('LONG_TERM');
+	});
+
+	it('should apply the shorter gold ETF period to sales from 23 Jul 2024', () => {
+		const purchaseDate = new Date(2022, 5, 1);
+		expect(classifyByAssetClass('GOLD_ETF', purchaseDate, new Date(2024, 6, 22))).toBe('SHORT_TERM');
+		expect(classifyByAssetClass('GOLD_ETF', purchaseDate, new Date(2024, 6, 23))).toBe('LONG_TERM');
+		// Bought while gold ETFs were specified mutual funds
+		expect(classifyByAssetClass('GOLD_ETF', new Date(2024, 0, 10), new Date(2026, 0, 10))).toBe('SHORT_TERM');
+		expect(classifyByAssetClass('GOLD_ETF', new Date(2025, 3, 1), new Date(2026, 3, 10))).toBe('LONG_TERM');
+	});
+});
+
+describe('getAssetClassLongTermDate', () => {
+	it('should count the months of the asset class and skip deemed short-term lots', () => {
+		expect(getAssetClassLongTermDate('EQUITY_FUND', new Date(2025, 4, 10))).toEqual(new Date(2026, 4, 11));
+		expect(getAssetClassLongTermDate('DEBT_FUND', new Date(2022, 4, 10))).toEqual(new Date(2024, 4, 11));
+		expect(getAssetClassLongTermDate('DEBT_FUND', new Date(2023, 4, 10))).toBeNull();
+	});
+});
+
+describe('inferAssetClassFromSchemeName', () => {
+	it('should recognize debt and non-equity funds by name', () => {
+		expect(inferAssetClassFromSchemeName('HDFC Liquid Fund - Direct Plan - Growth')).toBe('DEBT_FUND');
+		expect(inferAssetClassFromSchemeName('ICICI Prudential Corporate Bond Fund - Growth')).toBe('DEBT_FUND');
+		expect(inferAssetClassFromSchemeName('Motilal Oswal Nasdaq 100 Fund of Fund - Direct')).toBe('OTHER_FUND');
+		expect(inferAssetClassFromSchemeName('Parag Parikh Flexi Cap Fund - Direct Plan')).toBe('EQUITY_FUND');
+	});
+});
@@ -0,0 +1,158 @@
+/**
+ * Asset Classes
+ * Resolves the asset class of a security from its ISIN and classifies lots
+ * as short- or long-term with the holding-period rules of that class
+ */
+
+import type { AssetClass, Classification } from '$lib/types';
+import { ASSET_CLASS_MASTER } from '$lib/data/asset-class-master';
+import { classifyHoldingPeriod, getLongTermDate } from '$lib/utils/holding-period';
+
+/**
+ * Display labels for each asset class
+ */
+export const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+	EQUITY: 'Equity share',
+	EQUITY_ETF: 'Equity ETF',
+	EQUITY_FUND: 'Equity mutual fund',
+	DEBT_FUND: 'Debt mutual fund',
+	GOLD_ETF: 'Gold / non-equity ETF',
+	OTHER_FUND: 'Gold / international fund'
+};
+
+/**
+ * Holding periods were shortened for sales from this date (Finance (No. 2) Act 2024)
+ */
+export const HOLDING_PERIOD_AMENDMENT_DATE = new Date(2024, 6, 23);
+
+/**
+ * Holding-period rule for one asset class
+ */
+export interface HoldingPeriodRule {
+	/** Months held beyond which a lot is long-term, for sales from 23 Jul 2024 */
+	longTermAfterMonths: number;
+	/** Months held beyond which a lot is long-term, for sales before 23 Jul 2024 */
+	longTermAfterMonthsBeforeAmendment: number;
+	/**
+	 * Acquisitions in this window are short-term however long they are held
+	 * (specified mutual funds, Section 50AA); `until` is exclusive
+	 */
+	deemedShortTerm?: { from: Date; until?: Date };
+}
+
+/**
+ * Holding-period rules per asset class
+ * - Listed equity, equity ETFs and equity funds: more than 12 months
+ * - Debt funds: bought from 1 Apr 2023 always short-term, otherwise 24 months (36 before 23 Jul 2024)
+ * - Listed non-equity ETFs: 12 months (36 before 23 Jul 2024); units bought
+ *   between 1 Apr 2023 and 31 Mar 2025 were specified mutual funds
+ * - Unlisted non-equity funds: 24 months (36 before 23 Jul 2024), same specified-fund window
+ */
+export const HOLDING_PERIOD_RULES: Record<AssetClass, HoldingPeriodRule> = {
+	EQUITY: { longTermAfterMonths: 12, longTermAfterMonthsBeforeAmendment: 12 },
+	EQUITY_ETF: { longTermAfterMonths: 12, longTermAfterMonthsBeforeAmendment: 12 },
+	EQUITY_FUND: { longTermAfterMonths: 12, longTermAfterMonthsBeforeAmendment: 12 },
+	DEBT_FUND: {
+		longTermAfterMonths: 24,
+		longTermAfterMonthsBeforeAmendment: 36,
+		deemedShortTerm: { from: new Date(2023, 3, 1) }
+	},
+	GOLD_ETF: {
+		longTermAfterMonths: 12,
+		longTermAfterMonthsBeforeAmendment: 36,
+		deemedShortTerm: { from: new Date(2023, 3, 1), until: new Date(2025, 3, 1) }
+	},
+	OTHER_FUND: {
+		longTermAfterMonths: 24,
+		longTermAfterMonthsBeforeAmendment: 36,
+		deemedShortTerm: { from: new Date(2023, 3, 1), until: new Date(2025, 3, 1) }
+	}
+};
+
+/**
+ * Resolves the asset class of a security
+ * User overrides win over the bundled master; other fund units (INF ISINs)
+ * fall back to the equity fund rules and everything else is an equity share
+ *
+ * @param isin - ISIN of the security (may be empty)
+ * @param overrides - Asset class per ISIN set by the user or inferred from statements
+ * @returns Asset class of the security
+ */
+export function resolveAssetClass(isin: string, overrides: Record<string, AssetClass> = {}): AssetClass {
+	const key = isin.trim().toUpperCase();
+	return overrides[key] ?? ASSET_CLASS_MASTER[key] ?? (key.startsWith('INF') ? 'EQUITY_FUND' : 'EQUITY');
+}
+
+/**
+ * Checks whether a lot was acquired in the rule's deemed short-term window
+ */
+function isDeemedShortTerm(rule: HoldingPeriodRule, purchaseDate: Date): boolean {
+	const deemed = rule.deemedShortTerm;
+	return !!deemed && purchaseDate >= deemed.from && (!deemed.until || purchaseDate < deemed.until);
+}
+
+/**
+ * Classifies a lot as short- or long-term under its asset class rules
+ *
+ * @param assetClass - Asset class of the security
+ * @param purchaseDate - Acquisition date of the lot
+ * @param asOf - Sale date, or the valuation date for open lots
+ * @returns SHORT_TERM or LONG_TERM
+ */
+export function classifyByAssetClass(assetClass: AssetClass, purchaseDate: Date, asOf: Date): Classification {
+	const rule = HOLDING_PERIOD_RULES[assetClass];
+	if (isDeemedShortTerm(rule, purchaseDate)) {
+		return 'SHORT_TERM';
+	}
+
+	const months =
+		asOf < HOLDING_PERIOD_AMENDMENT_DATE ? rule.longTermAfterMonthsBeforeAmendment : rule.longTermAfterMonths;
+	return classifyHoldingPeriod(purchaseDate, asOf, months);
+}
+
+/**
+ * Gets the first date on which a lot becomes long-term under today's rules
+ *
+ * @param assetClass - Asset class of the security
+ * @param purchaseDate - Acquisition date of the lot
+ * @returns First long-term date, or null if the lot stays short-term however long it is held
+ */
+export function getAssetClassLongTermDate(assetClass: AssetClass, purchaseDate: Date): Date | null {
+	const rule = HOLDING_PERIOD_RULES[assetClass];
+	if (isDeemedShortTerm(rule, purchaseDate)) {
+		return null;
+	}
+
+	return getLongTermDate(purchaseDate, rule.longTermAfterMonths);
+}
+
+/**
+ * Words in the names of debt and liquid fund schemes
+ */
+const DEBT_FUND_NAME =
+	/\b(liquid|debt|gilt|bond|money market|overnight|credit risk|corporate|banking (and|&) psu|duration|floater|floating rate|treasury|fixed maturity)\b/i;
+
+/**
+ * Words in the names of gold, silver and overseas fund schemes
+ */
+const OTHER_FUND_NAME = /\b(gold|silver|international|global|overseas|nasdaq|fund of funds?|fof)\b/i;
+
+/**
+ * Infers a mutual fund's asset class from its scheme name
+ * Statements carry no category column, so debt and non-equity funds are
+ * recognized by the words AMCs use in their names; the rest are equity funds
+ *
+ * @param name - Scheme name as printed on the statement
+ * @returns Inferred asset class
+ */
+export function inferAssetClassFromSchemeName(name: string): AssetClass {
+	if (DEBT_FUND_NAME.test(name)) {
+		return 'DEBT_FUND';
+	}
+
+	if (OTHER_FUND_NAME.test(name)) {
+		return 'OTHER_FUND';
+	}
+
+	return 'EQUITY_FUND';
+}
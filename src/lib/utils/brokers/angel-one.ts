@@ -0,0 +1,29 @@
+/**
+ * Angel One trade book adapter
+ * Export columns: Trade Date, Trade No, Symbol, ISIN, Exchange, Segment,
+ * Buy/Sell, Quantity, Rate
+ *
+ * Angel One suffixes cash-market symbols with the series (e.g., "INFY-EQ"),
+ * which is stripped so symbols match other brokers and price lookups.
+ */
+
+import type { BrokerAdapter } from './types';
+import { normalizeSide, parseDateWithFormats, readColumn } from './shared';
+
+export const angelOneAdapter: BrokerAdapter = {
+	id: 'angel-one',
+	name: 'Angel One',
+	requiredColumns: ['trade date', 'trade no', 'symbol', 'exchange', 'segment', 'buy/sell', 'quantity', 'rate'],
+	mapRow: (row) => ({
+		symbol: readColumn(row, 'symbol').replace(/-(EQ|BE)$/i, ''),
+		isin: readColumn(row, 'isin'),
+		trade_date: readColumn(row, 'trade date'),
+		exchange: readColumn(row, 'exchange'),
+		segment: readColumn(row, 'segment'),
+		trade_type: normalizeSide(readColumn(row, 'buy/sell')),
+		quantity: readColumn(row, 'quantity'),
+		price: readColumn(row, 'rate'),
+		trade_id: readColumn(row, 'trade no')
+	}),
+	parseDate: (value) => parseDateWithFormats(value, ['dd/MM/yyyy', 'dd-MM-yyyy'])
+};
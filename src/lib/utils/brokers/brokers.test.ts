@@ -0,0 +1,127 @@
+/**
+ * Unit tests for the broker adapter registry
+ * Parses each broker's fixture tradebook and checks detection and field mapping
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { detectBrokerAdapter, registerBrokerAdapter } from './index';
+import { parseTradebookWithReport } from '../csv-parser';
+
+/**
+ * Reads a fixture file from tests/fixtures
+ */
+function readFixture(name: string): string {
+	return readFileSync(resolve(process.cwd(), 'tests/fixtures', name), 'utf-8');
+}
+
+describe('detectBrokerAdapter', () => {
+	it('should detect Zerodha from tradebook headers', () => {
+		const headers = ['symbol', 'isin', 'trade_date', 'exchange', 'segment', 'trade_type', 'quantity', 'price', 'order_id', 'trade_id'];
+		expect(detectBrokerAdapter(headers)?.id).toBe('zerodha');
+	});
+
+	it('should return null for unknown headers', () => {
+		expect(detectBrokerAdapter(['foo', 'bar'])).toBeNull();
+	});
+
+	it('should reject registering a duplicate adapter ID', () => {
+		expect(() =>
+			registerBrokerAdapter({
+				id: 'zerodha',
+				name: 'Duplicate',
+				requiredColumns: [],
+				mapRow: () => null,
+				parseDate: () => null
+			})
+		).toThrow('already registered');
+	});
+});
+
+describe('parseTradebookWithReport with broker fixtures', () => {
+	let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
+
+	beforeEach(() => {
+		consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		consoleWarnSpy.mockRestore();
+	});
+
+	it('should parse the Zerodha sample tradebook', () => {
+		const { trades, broker } = parseTradebookWithReport(readFixture('sample-tradebook.csv'));
+
+		expect(broker?.name).toBe('Zerodha');
+		expect(trades.length).toBeGreaterThan(0);
+	});
+
+	it('should parse Groww orders, deriving price and skipping cancelled orders', () => {
+		const { trades, broker } = parseTradebookWithReport(readFixture('groww-orders.csv'));
+
+		expect(broker?.name).toBe('Groww');
+		expect(trades).toHaveLength(3);
+		expect(trades[0]).toEqual({
+			tradeId: '1100000012345601',
+			symbol: 'INFY',
+			isin: 'INE009A01021',
+			tradeDate: new Date(2024, 0, 15),
+			exchange: 'NSE',
+			tradeType: 'buy',
+			quantity: 10,
+			price: 1450.25
+		});
+		expect(trades.find((t) => t.symbol === 'RELIANCE')).toBeUndefined();
+	});
+
+	it('should read Groww values with thousands separators', () => {
+		const csv = [
+			'Stock name,Symbol,ISIN,Type,Quantity,Value,Exchange,Exchange Order Id,Execution date and time,Order status',
+			'Infosys Ltd,INFY,INE009A01021,BUY,"1,000","14,502,500.00",NSE,1100000012345601,15-01-2024 10:32 AM,Executed'
+		].join('\n');
+
+		const { trades } = parseTradebookWithReport(csv);
+
+		expect(trades[0].quantity).toBe(1000);
+		expect(trades[0].price).toBe(14502.5);
+	});
+
+	it('should parse Upstox trades and ignore the F&O row', () => {
+		const { trades, broker } = parseTradebookWithReport(readFixture('upstox-trades.csv'));
+
+		expect(broker?.name).toBe('Upstox');
+		expect(trades).toHaveLength(3);
+		expect(trades[2]).toMatchObject({
+			tradeId: '50012347',
+			symbol: 'INFY',
+			isin: '',
+			tradeDate: new Date(2024, 5, 10),
+			tradeType: 'sell',
+			quantity: 4,
+			price: 1600
+		});
+	});
+
+	it('should parse ICICI Direct trades with month-name dates', () => {
+		const { trades, broker } = parseTradebookWithReport(readFixture('icici-direct-trades.csv'));
+
+		expect(broker?.name).toBe('ICICI Direct');
+		expect(trades).toHaveLength(3);
+		expect(trades[0]).toMatchObject({
+			symbol: 'INFTEC',
+			isin: 'INE009A01021',
+			tradeDate: new Date(2024, 0, 15),
+			tradeType: 'buy'
+		});
+	});
+
+	it('should parse Angel One trades and strip the series suffix', () => {
+		const { trades, broker } = parseTradebookWithReport(readFixture('angel-one-trades.csv'));
+
+		expect(broker?.name).toBe('Angel One');
+		expect(trades).toHaveLength(3);
+		expect(trades.map((t) => t.symbol)).toEqual(['INFY', 'TCS', 'INFY']);
+		expect(trades[2].tradeType).toBe('sell');
+	});
+});
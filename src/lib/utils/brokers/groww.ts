@@ -0,0 +1,43 @@
+/**
+ * Groww order history adapter
+ * Export columns: Stock name, Symbol, ISIN, Type, Quantity, Value, Exchange,
+ * Exchange Order Id, Execution date and time, Order status
+ *
+ * Groww reports total order value rather than price, and only stock orders,
+ * so price is derived as value / quantity and the segment is always EQ.
+ * Values may carry thousands separators (e.g., "14,502.50").
+ */
+
+import type { BrokerAdapter } from './types';
+import { normalizeSide, parseAmount, parseDateWithFormats, readColumn } from './shared';
+
+export const growwAdapter: BrokerAdapter = {
+	id: 'groww',
+	name: 'Groww',
+	requiredColumns: ['symbol', 'isin', 'type', 'quantity', 'value', 'exchange', 'exchange order id', 'execution date and time'],
+	mapRow: (row) => {
+		const status = readColumn(row, 'order status').toLowerCase();
+		if (status && status !== 'executed') {
+			return null;
+		}
+
+		const rawValue = readColumn(row, 'value');
+		const value = parseAmount(rawValue);
+		const qty = parseAmount(readColumn(row, 'quantity'));
+		// Left empty when the value is missing or not a number, so the row is reported
+		const price = rawValue && !isNaN(value) && qty > 0 ? String(value / qty) : '';
+
+		return {
+			symbol: readColumn(row, 'symbol'),
+			isin: readColumn(row, 'isin'),
+			trade_date: readColumn(row, 'execution date and time'),
+			exchange: readColumn(row, 'exchange'),
+			segment: 'EQ',
+			trade_type: normalizeSide(readColumn(row, 'type')),
+			quantity: isNaN(qty) ? readColumn(row, 'quantity') : String(qty),
+			price,
+			trade_id: readColumn(row, 'exchange order id')
+		};
+	},
+	parseDate: (value) => parseDateWithFormats(value, ['dd-MM-yyyy', 'dd/MM/yyyy'])
+};
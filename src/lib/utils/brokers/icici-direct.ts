@@ -0,0 +1,43 @@
+/**
+ * ICICI Direct trade book adapter
+ * Export columns: Date, Stock, Action, Qty, Price, Trade Value, Order Ref,
+ * Settlement, Segment, Exchange, ISIN
+ *
+ * ICICI Direct labels the cash segment "Equity"/"Cash"; both map to EQ.
+ * Stock codes are ICICI-specific (e.g., RELIND) and are kept as the symbol.
+ */
+
+import type { BrokerAdapter } from './types';
+import { normalizeSide, parseDateWithFormats, readColumn } from './shared';
+
+/**
+ * Maps ICICI Direct segment labels to the common segment codes
+ */
+function normalizeSegment(segment: string): string {
+	const normalized = segment.trim().toUpperCase();
+	if (normalized === 'EQUITY' || normalized === 'CASH') {
+		return 'EQ';
+	}
+	if (normalized === 'DERIVATIVES' || normalized === 'FNO') {
+		return 'FO';
+	}
+	return normalized;
+}
+
+export const iciciDirectAdapter: BrokerAdapter = {
+	id: 'icici-direct',
+	name: 'ICICI Direct',
+	requiredColumns: ['date', 'stock', 'action', 'qty', 'price', 'order ref', 'segment', 'exchange'],
+	mapRow: (row) => ({
+		symbol: readColumn(row, 'stock'),
+		isin: readColumn(row, 'isin'),
+		trade_date: readColumn(row, 'date'),
+		exchange: readColumn(row, 'exchange'),
+		segment: normalizeSegment(readColumn(row, 'segment')),
+		trade_type: normalizeSide(readColumn(row, 'action')),
+		quantity: readColumn(row, 'qty'),
+		price: readColumn(row, 'price'),
+		trade_id: readColumn(row, 'order ref')
+	}),
+	parseDate: (value) => parseDateWithFormats(value, ['dd-MMM-yyyy', 'dd-MM-yyyy'])
+};
@@ -0,0 +1,58 @@
+/**
+ * Broker Adapter Registry
+ * Detects which broker produced a tradebook from its CSV headers
+ * and exposes the matching adapter to the CSV parser
+ */
+
+import type { BrokerAdapter } from './types';
+import { zerodhaAdapter } from './zerodha';
+import { growwAdapter } from './groww';
+import { upstoxAdapter } from './upstox';
+import { iciciDirectAdapter } from './icici-direct';
+import { angelOneAdapter } from './angel-one';
+
+export type { BrokerAdapter, RawTradeFields, CsvRow } from './types';
+
+/**
+ * Registered adapters in detection order
+ * Zerodha is checked first as it is the primary supported format
+ */
+const adapters: BrokerAdapter[] = [
+	zerodhaAdapter,
+	growwAdapter,
+	upstoxAdapter,
+	iciciDirectAdapter,
+	angelOneAdapter
+];
+
+/**
+ * Registers an additional broker adapter
+ * Adapters registered later are checked after the built-in ones
+ *
+ * @param adapter - Adapter to register
+ * @throws Error if an adapter with the same ID is already registered
+ */
+export function registerBrokerAdapter(adapter: BrokerAdapter): void {
+	if (adapters.some((existing) => existing.id === adapter.id)) {
+		throw new Error(`Broker adapter "${adapter.id}" is already registered`);
+	}
+	adapters.push(adapter);
+}
+
+/**
+ * Returns all registered broker adapters in detection order
+ */
+export function getBrokerAdapters(): readonly BrokerAdapter[] {
+	return adapters;
+}
+
+/**
+ * Detects the broker format from CSV headers
+ *
+ * @param headers - CSV header names (normalized to lowercase and trimmed)
+ * @returns The first adapter whose required columns are all present, or null
+ */
+export function detectBrokerAdapter(headers: string[]): BrokerAdapter | null {
+	const normalizedHeaders = new Set(headers.map((h) => h.toLowerCase().trim()));
+	return adapters.find((adapter) => adapter.requiredColumns.every((col) => normalizedHeaders.has(col))) ?? null;
+}
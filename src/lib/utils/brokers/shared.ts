@@ -0,0 +1,79 @@
+/**
+ * Shared helpers for broker adapters
+ */
+
+import { parse, isValid } from 'date-fns';
+import type { CsvRow } from './types';
+
+/**
+ * Date formats accepted in CSV imports that are not broker tradebooks
+ * (charges, dividends, allotments and fund statements)
+ */
+export const IMPORT_DATE_FORMATS = ['yyyy-MM-dd', 'dd-MM-yyyy', 'dd/MM/yyyy', 'dd-MMM-yyyy'] as const;
+
+/**
+ * Parses a date string by trying each date-fns format in order
+ * Time components after the date (e.g., "10:32 AM") are ignored
+ *
+ * @param value - Raw date string from the CSV
+ * @param formats - date-fns format strings to try
+ * @returns Local midnight Date, or null if no format matches
+ */
+export function parseDateWithFormats(value: string, formats: readonly string[]): Date | null {
+	if (!value || typeof value !== 'string') {
+		return null;
+	}
+
+	const datePart = value.trim().split(/\s+/)[0];
+
+	for (const format of formats) {
+		const date = parse(datePart, format, new Date());
+		if (isValid(date)) {
+			return date;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Finds the first accepted column name present in the header
+ *
+ * @param fields - Lowercased header fields
+ * @param aliases - Accepted column names, in order of preference
+ * @returns The matching column name, or undefined if none is present
+ */
+export function findColumn(fields: string[], aliases: readonly string[]): string | undefined {
+	return aliases.find((alias) => fields.includes(alias));
+}
+
+/**
+ * Parses a numeric cell, treating empty cells as zero
+ * Thousands separators and the rupee sign are ignored
+ */
+export function parseAmount(value: string | undefined): number {
+	const trimmed = value?.trim().replace(/[,₹]/g, '') ?? '';
+	return trimmed === '' ? 0 : Number(trimmed);
+}
+
+/**
+ * Reads a column value from a row, returning an empty string when missing
+ */
+export function readColumn(row: CsvRow, column: string): string {
+	return row[column]?.trim() ?? '';
+}
+
+/**
+ * Normalizes broker-specific buy/sell markers (e.g., "B", "Buy", "BUY") to "buy"/"sell"
+ * Unknown values are passed through so the parser can report them
+ */
+export function normalizeSide(value: string): string {
+	const normalized = value.trim().toLowerCase();
+	if (normalized === 'b' || normalized === 'buy') {
+		return 'buy';
+	}
+	if (normalized === 's' || normalized === 'sell') {
+		return 'sell';
+	}
+	return value;
+}
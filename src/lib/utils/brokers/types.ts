@@ -0,0 +1,49 @@
+/**
+ * Broker Adapter Types
+ * Shared interface for mapping broker-specific tradebook exports
+ * into the common raw trade shape consumed by the CSV parser
+ */
+
+/**
+ * Raw trade fields in the common (Zerodha-style) shape
+ * Values are still unvalidated strings; the CSV parser validates them
+ */
+export interface RawTradeFields {
+	symbol: string;
+	isin: string;
+	trade_date: string;
+	exchange: string;
+	segment: string;
+	trade_type: string;
+	quantity: string;
+	price: string;
+	trade_id: string;
+	/** Exchange series (e.g., EQ, BE), when the export has it */
+	series?: string;
+	/** Auction flag ("true"/"false"), when the export has it */
+	auction?: string;
+}
+
+/**
+ * A CSV row keyed by normalized (lowercased, trimmed) header names
+ */
+export type CsvRow = Record<string, string | undefined>;
+
+/**
+ * Adapter that understands one broker's tradebook export format
+ */
+export interface BrokerAdapter {
+	/** Stable identifier (e.g., "zerodha") */
+	id: string;
+	/** Display name shown to users (e.g., "Zerodha") */
+	name: string;
+	/** Normalized header names that must all be present for this format */
+	requiredColumns: readonly string[];
+	/**
+	 * Maps a CSV row to the common raw trade shape
+	 * Returns null for rows that are not executed trades (e.g., cancelled orders)
+	 */
+	mapRow(row: CsvRow): RawTradeFields | null;
+	/** Parses the broker's trade date format into a local Date */
+	parseDate(value: string): Date | null;
+}
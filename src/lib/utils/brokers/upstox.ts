@@ -0,0 +1,28 @@
+/**
+ * Upstox trade report adapter
+ * Export columns: Date, Company, Amount, Exchange, Segment, Scrip Code,
+ * Instrument Type, Strike Price, Expiry, Trade Num, Trade Time, Side, Quantity, Price
+ *
+ * Upstox does not include ISIN in the trade report, so ISIN is left empty.
+ */
+
+import type { BrokerAdapter } from './types';
+import { normalizeSide, parseDateWithFormats, readColumn } from './shared';
+
+export const upstoxAdapter: BrokerAdapter = {
+	id: 'upstox',
+	name: 'Upstox',
+	requiredColumns: ['date', 'exchange', 'segment', 'scrip code', 'trade num', 'side', 'quantity', 'price'],
+	mapRow: (row) => ({
+		symbol: readColumn(row, 'scrip code'),
+		isin: readColumn(row, 'isin'),
+		trade_date: readColumn(row, 'date'),
+		exchange: readColumn(row, 'exchange'),
+		segment: readColumn(row, 'segment'),
+		trade_type: normalizeSide(readColumn(row, 'side')),
+		quantity: readColumn(row, 'quantity'),
+		price: readColumn(row, 'price'),
+		trade_id: readColumn(row, 'trade num')
+	}),
+	parseDate: (value) => parseDateWithFormats(value, ['dd-MM-yyyy', 'dd/MM/yyyy'])
+};
@@ -0,0 +1,80 @@
+/**
+ * Zerodha Tradebook adapter
+ * Console export: symbol, isin, trade_date, exchange, segment, trade_type, quantity, price, trade_id
+ * (series and auction are read when present, to flag buyback tender offers)
+ */
+
+import type { BrokerAdapter } from './types';
+import { readColumn } from './shared';
+
+/**
+ * Parses a date string in various formats to a Date object
+ * Supports: YYYY-MM-DD, DD-MM-YYYY, DD/MM/YYYY
+ */
+function parseTradeDate(dateStr: string): Date | null {
+	if (!dateStr || typeof dateStr !== 'string') {
+		return null;
+	}
+
+	const trimmed = dateStr.trim();
+
+	// Try YYYY-MM-DD format first (ISO)
+	if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+		const date = new Date(trimmed + 'T00:00:00');
+		if (!isNaN(date.getTime())) {
+			return date;
+		}
+	}
+
+	// Try DD-MM-YYYY format
+	const dashMatch = trimmed.match(/^(\d{2})-(\d{2})-(\d{4})$/);
+	if (dashMatch) {
+		const [, day, month, year] = dashMatch;
+		const date = new Date(`${year}-${month}-${day}T00:00:00`);
+		if (!isNaN(date.getTime())) {
+			return date;
+		}
+	}
+
+	// Try DD/MM/YYYY format
+	const slashMatch = trimmed.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+	if (slashMatch) {
+		const [, day, month, year] = slashMatch;
+		const date = new Date(`${year}-${month}-${day}T00:00:00`);
+		if (!isNaN(date.getTime())) {
+			return date;
+		}
+	}
+
+	return null;
+}
+
+export const zerodhaAdapter: BrokerAdapter = {
+	id: 'zerodha',
+	name: 'Zerodha',
+	requiredColumns: [
+		'symbol',
+		'isin',
+		'trade_date',
+		'exchange',
+		'segment',
+		'trade_type',
+		'quantity',
+		'price',
+		'trade_id'
+	],
+	mapRow: (row) => ({
+		symbol: readColumn(row, 'symbol'),
+		isin: readColumn(row, 'isin'),
+		trade_date: readColumn(row, 'trade_date'),
+		exchange: readColumn(row, 'exchange'),
+		segment: readColumn(row, 'segment'),
+		trade_type: readColumn(row, 'trade_type'),
+		quantity: readColumn(row, 'quantity'),
+		price: readColumn(row, 'price'),
+		trade_id: readColumn(row, 'trade_id'),
+		series: readColumn(row, 'series'),
+		auction: readColumn(row, 'auction')
+	}),
+	parseDate: parseTradeDate
+};
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for the capital loss carry-forward ledger
+ * Tests usable years, lapse after eight years, late returns and building from tradebooks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildCarryForwardLedger, getLastSetOffFy, getUsableLosses, isInFinalYear } from './carry-forward';
+import type { CarryForwardLoss, FinancialYearGains, RealizedGainEntry } from '$lib/types';
+
+/**
+ * Helper to create a ledger entry
+ */
+function createLoss(lossFy: number, overrides: Partial<CarryForwardLoss> = {}): CarryForwardLoss {
+	return {
+		id: `cfl_${lossFy}`,
+		lossFyStart: new Date(lossFy, 3, 1),
+		shortTerm: 10000,
+		longTerm: 0,
+		filedOnTime: true,
+		source: 'ITR',
+		...overrides
+	};
+}
+
+/**
+ * Helper to create one FY of realized gains from short-term gains and losses
+ */
+function createYear(fy: number, amounts: number[]): FinancialYearGains {
+	const entries: RealizedGainEntry[] = amounts.map((gainLoss) => ({
+		symbol: 'INFY',
+		exchange: 'NSE',
+		quantity: 1,
+		sellDate: new Date(fy, 8, 10),
+		sellPrice: 1500,
+		purchasePrice: 1500 - gainLoss,
+		purchaseDate: new Date(fy, 5, 10),
+		gainLoss,
+		classification: 'SHORT_TERM'
+	}));
+
+	return {
+		label: `FY ${fy}`,
+		startDate: new Date(fy, 3, 1),
+		gains: {
+			stcg: 0,
+			stcl: 0,
+			ltcg: 0,
+			ltcl: 0,
+			netShortTerm: 0,
+			netLongTerm: 0,
+			sttPaid: 0,
+			sttNotPaidLtcg: 0,
+			entries
+		}
+	};
+}
+
+describe('getUsableLosses', () => {
+	it('should allow set-off for eight years after the loss year', () => {
+		const loss = createLoss(2017);
+
+		expect(getLastSetOffFy(loss.lossFyStart)).toEqual(new Date(2025, 3, 1));
+		expect(getUsableLosses([loss], new Date(2025, 3, 1))).toEqual([loss]);
+		expect(getUsableLosses([loss], new Date(2026, 3, 1))).toEqual([]);
+		expect(getUsableLosses([loss], new Date(2017, 3, 1))).toEqual([]);
+		expect(isInFinalYear(loss, new Date(2025, 3, 1))).toBe(true);
+		expect(isInFinalYear(loss, new Date(2024, 3, 1))).toBe(false);
+	});
+
+	it('should drop losses of late returns and empty balances, oldest first', () => {
+		const fyStart = new Date(2025, 3, 1);
+		const ledger = [
+			createLoss(2023),
+			createLoss(2020),
+			createLoss(2021, { filedOnTime: false }),
+			createLoss(2022, { shortTerm: 0 })
+		];
+
+		expect(getUsableLosses(ledger, fyStart).map((loss) => loss.id)).toEqual(['cfl_2020', 'cfl_2023']);
+	});
+});
+
+describe('buildCarryForwardLedger', () => {
+	it('should carry each year’s unabsorbed loss and use it against later gains', () => {
+		const years = [
+			createYear(2025, [500000]),
+			createYear(2024, [30000]),
+			createYear(2023, [-100000, 20000])
+		];
+
+		const ledger = buildCarryForwardLedger(years, new Date(2025, 3, 1));
+
+		expect(ledger).toHaveLength(1);
+		expect(ledger[0]).toMatchObject({
+			lossFyStart: new Date(2023, 3, 1),
+			shortTerm: 50000,
+			longTerm: 0,
+			source: 'TRADEBOOK'
+		});
+	});
+
+	it('should return nothing when every loss was absorbed', () => {
+		const ledger = buildCarryForwardLedger(
+			[createYear(2023, [-10000]), createYear(2024, [40000])],
+			new Date(2025, 3, 1)
+		);
+
+		expect(ledger).toEqual([]);
+	});
+});
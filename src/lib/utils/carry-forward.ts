@@ -0,0 +1,93 @@
+/**
+ * Capital Loss Carry Forward
+ * Rules of the Schedule CFL ledger: which past losses may be set off in a
+ * year, when they lapse, and how multi-year tradebooks build the ledger
+ */
+
+import { addYears } from 'date-fns';
+import type { CarryForwardLoss, FinancialYearGains } from '$lib/types';
+import { estimateCapitalGainsTax } from '$lib/utils/tax-estimator';
+
+/**
+ * Capital losses carry forward for this many assessment years after the loss year (Section 74)
+ */
+export const CARRY_FORWARD_YEARS = 8;
+
+/**
+ * Gets the last financial year in which a loss may be set off
+ *
+ * @param lossFyStart - 1 April of the FY the loss was incurred in
+ * @returns 1 April of the final FY
+ */
+export function getLastSetOffFy(lossFyStart: Date): Date {
+	return addYears(lossFyStart, CARRY_FORWARD_YEARS);
+}
+
+/**
+ * Checks whether a loss can be set off for the last time in a financial year
+ */
+export function isInFinalYear(loss: CarryForwardLoss, fyStart: Date): boolean {
+	return getLastSetOffFy(loss.lossFyStart).getTime() === fyStart.getTime();
+}
+
+/**
+ * Gets the ledger entries that may be set off in a financial year
+ * Losses of returns filed late are not carried forward (Section 80), and
+ * losses lapse after eight years
+ *
+ * @param ledger - Carry-forward ledger
+ * @param fyStart - 1 April of the FY being set off
+ * @returns Usable entries with a balance, oldest first
+ */
+export function getUsableLosses(ledger: CarryForwardLoss[], fyStart: Date): CarryForwardLoss[] {
+	return ledger
+		.filter(
+			(loss) =>
+				loss.filedOnTime &&
+				loss.lossFyStart < fyStart &&
+				fyStart <= getLastSetOffFy(loss.lossFyStart) &&
+				(loss.shortTerm > 0 || loss.longTerm > 0)
+		)
+		.sort((a, b) => a.lossFyStart.getTime() - b.lossFyStart.getTime());
+}
+
+/**
+ * Builds the carry-forward ledger from the financial years the tradebooks cover
+ *
+ * Replays each FY before `fyStart`, oldest first: its own losses are set
+ * off, then the losses carried from earlier tradebook years, and whatever is
+ * left is carried forward. Returns are assumed to have been filed on time.
+ *
+ * @param years - Realized gains per FY
+ * @param fyStart - 1 April of the FY the ledger is built for
+ * @returns Unexpired balances available in that FY, oldest first
+ */
+export function buildCarryForwardLedger(years: FinancialYearGains[], fyStart: Date): CarryForwardLoss[] {
+	const pastYears = years
+		.filter((year) => year.startDate < fyStart)
+		.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+	let ledger: CarryForwardLoss[] = [];
+	for (const year of pastYears) {
+		const estimate = estimateCapitalGainsTax(year.gains.entries, year.startDate, {
+			broughtForward: getUsableLosses(ledger, year.startDate)
+		});
+
+		const remaining = new Map(estimate.broughtForward.map((entry) => [entry.loss.id, entry.remaining]));
+		ledger = ledger.map((loss) => ({ ...loss, ...remaining.get(loss.id) }));
+
+		const { shortTerm, longTerm } = estimate.carryForward;
+		if (shortTerm > 0 || longTerm > 0) {
+			ledger.push({
+				id: `tradebook_${year.startDate.getFullYear()}`,
+				lossFyStart: year.startDate,
+				shortTerm,
+				longTerm,
+				filedOnTime: true,
+				source: 'TRADEBOOK'
+			});
+		}
+	}
+
+	return getUsableLosses(ledger, fyStart);
+}
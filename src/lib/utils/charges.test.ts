@@ -0,0 +1,106 @@
+/**
+ * Unit tests for transaction charges
+ * Tests charges CSV parsing and allocation of charges across trades
+ */
+
+import { describe, it, expect } from 'vitest';
+import { allocateCharges, getDeductibleCharges, parseChargesCsv } from './charges';
+import type { ContractNoteCharges, TradeRecord } from '$lib/types';
+
+/**
+ * Helper to create a trade record
+ */
+function createTrade(tradeId: string, tradeType: 'buy' | 'sell', quantity: number, price: number): TradeRecord {
+	return {
+		tradeId,
+		symbol: 'INFY',
+		isin: 'INE009A01021',
+		tradeDate: new Date(2025, 5, 2),
+		exchange: 'NSE',
+		tradeType,
+		quantity,
+		price
+	};
+}
+
+/**
+ * Helper to create a charges record for 2 Jun 2025
+ */
+function createCharges(overrides: Partial<ContractNoteCharges> = {}): ContractNoteCharges {
+	return {
+		id: 'ch1',
+		tradeDate: new Date(2025, 5, 2),
+		tradeId: '',
+		brokerage: 0,
+		exchangeCharges: 0,
+		sebiFees: 0,
+		stampDuty: 0,
+		gst: 0,
+		stt: 0,
+		...overrides
+	};
+}
+
+describe('parseChargesCsv', () => {
+	it('should read charge columns by their common names', () => {
+		const csv = [
+			'Date,Segment,Brokerage,Exchange Transaction Charges,SEBI Turnover Fees,Stamp Duty,GST,STT',
+			'2025-06-02,EQ,20,3.5,0.1,1.5,4.2,25',
+			'2025-06-02,FO,40,10,0.2,2,9,50',
+			'bad-date,EQ,20,0,0,0,0,0'
+		].join('\n');
+
+		const { charges, issues } = parseChargesCsv(csv);
+
+		expect(charges).toEqual([
+			{
+				tradeDate: new Date(2025, 5, 2),
+				tradeId: '',
+				brokerage: 20,
+				exchangeCharges: 3.5,
+				sebiFees: 0.1,
+				stampDuty: 1.5,
+				gst: 4.2,
+				stt: 25
+			}
+		]);
+		expect(getDeductibleCharges(charges[0])).toBeCloseTo(29.3, 6);
+		expect(issues).toEqual([{ row: 4, column: 'date', value: 'bad-date', reason: 'Invalid date' }]);
+	});
+
+	it('should sum CGST, SGST and UTGST when there is no combined GST column', () => {
+		const csv = ['Date,Brokerage,CGST,SGST,UTGST', '2025-06-02,20,1.8,1.8,0.4'].join('\n');
+
+		const { charges } = parseChargesCsv(csv);
+
+		expect(charges).toHaveLength(1);
+		expect(charges[0].gst).toBeCloseTo(4, 6);
+		expect(charges[0].brokerage).toBe(20);
+	});
+
+	it('should reject files without charge columns', () => {
+		expect(() => parseChargesCsv('Date,Symbol\n2025-06-02,INFY')).toThrow('no charge columns');
+	});
+});
+
+describe('allocateCharges', () => {
+	it('should spread a day of charges by trade value, with stamp duty on buys only', () => {
+		const trades = [createTrade('B1', 'buy', 10, 300), createTrade('S1', 'sell', 10, 100)];
+
+		const [buy, sell] = allocateCharges(trades, [createCharges({ brokerage: 40, stampDuty: 6, stt: 8 })]);
+
+		expect(buy.charges).toBeCloseTo(36, 6);
+		expect(sell.charges).toBeCloseTo(10, 6);
+		expect(buy.stt).toBeCloseTo(6, 6);
+		expect(sell.stt).toBeCloseTo(2, 6);
+	});
+
+	it('should charge a single trade when the record has a trade ID', () => {
+		const trades = [createTrade('B1', 'buy', 10, 300), createTrade('B2', 'buy', 10, 300)];
+
+		const allocated = allocateCharges(trades, [createCharges({ tradeId: 'B2', brokerage: 20 })]);
+
+		expect(allocated[0].charges).toBeUndefined();
+		expect(allocated[1].charges).toBe(20);
+	});
+});
@@ -0,0 +1,213 @@
+/**
+ * Transaction Charges
+ * Parses contract-note charges exports and spreads each charge across the
+ * trades it covers, so cost of acquisition and sale value include them
+ */
+
+import Papa from 'papaparse';
+import { format } from 'date-fns';
+import type { ContractNoteCharges, ParseIssue, TradeRecord } from '$lib/types';
+import { IMPORT_DATE_FORMATS, findColumn, parseAmount, parseDateWithFormats } from '$lib/utils/brokers/shared';
+
+/**
+ * Column names (lowercased) accepted for each field, in order of preference
+ */
+const CHARGES_COLUMNS = {
+	tradeDate: ['trade_date', 'trade date', 'date'],
+	tradeId: ['trade_id', 'trade id'],
+	segment: ['segment'],
+	brokerage: ['brokerage'],
+	exchangeCharges: ['exchange transaction charges', 'exchange charges', 'transaction charges', 'exchange_charges'],
+	sebiFees: ['sebi turnover fees', 'sebi fees', 'sebi_fees'],
+	stampDuty: ['stamp duty', 'stamp_duty'],
+	gst: ['gst', 'total gst'],
+	stt: ['stt', 'stt/ctt', 'securities transaction tax']
+} as const;
+
+/**
+ * Charge fields read from each row
+ */
+const CHARGE_FIELDS = ['brokerage', 'exchangeCharges', 'sebiFees', 'stampDuty', 'gst', 'stt'] as const;
+
+/**
+ * GST component columns (lowercased), summed when there is no combined GST column
+ */
+const GST_COMPONENT_COLUMNS = ['igst', 'cgst', 'sgst', 'utgst'];
+
+/**
+ * Finds the columns holding a charge field: its own column, or for GST the
+ * component columns present when the export splits it
+ */
+function findChargeColumns(fields: string[], field: (typeof CHARGE_FIELDS)[number]): string[] {
+	const column = findColumn(fields, CHARGES_COLUMNS[field]);
+	if (column) {
+		return [column];
+	}
+	return field === 'gst' ? GST_COMPONENT_COLUMNS.filter((component) => fields.includes(component)) : [];
+}
+
+/**
+ * Result of parsing a charges export
+ */
+export interface ChargesParseResult {
+	/** Charges found in the export, without IDs */
+	charges: Omit<ContractNoteCharges, 'id'>[];
+	/** Rows that were skipped because a value failed validation */
+	issues: ParseIssue[];
+}
+
+/**
+ * Returns the charges that may be deducted from capital gains (everything except STT)
+ */
+export function getDeductibleCharges(charges: Omit<ContractNoteCharges, 'id'>): number {
+	return charges.brokerage + charges.exchangeCharges + charges.sebiFees + charges.stampDuty + charges.gst;
+}
+
+/**
+ * Parses a contract-note charges CSV (one row per trading day, or per trade with a trade ID)
+ *
+ * Needs a date column and at least one charge column. Rows for a segment other
+ * than EQ are ignored, since F&O charges belong to business income.
+ *
+ * @param csvContent - Raw CSV content as string
+ * @returns Parsed charges and rows that could not be used
+ * @throws Error if the file has no date column or no charge columns
+ */
+export function parseChargesCsv(csvContent: string): ChargesParseResult {
+	const result = Papa.parse<Record<string, string>>(csvContent, {
+		header: true,
+		skipEmptyLines: true,
+		transformHeader: (header) => header.toLowerCase().trim()
+	});
+
+	const fields = result.meta.fields ?? [];
+	const dateColumn = findColumn(fields, CHARGES_COLUMNS.tradeDate);
+	if (!dateColumn) {
+		throw new Error('Not a charges export: missing date column');
+	}
+
+	const chargeColumns = CHARGE_FIELDS.map((field) => [field, findChargeColumns(fields, field)] as const);
+	if (chargeColumns.every(([, columns]) => columns.length === 0)) {
+		throw new Error('Not a charges export: no charge columns (brokerage, stamp duty, STT, ...)');
+	}
+
+	const tradeIdColumn = findColumn(fields, CHARGES_COLUMNS.tradeId);
+	const segmentColumn = findColumn(fields, CHARGES_COLUMNS.segment);
+	const charges: Omit<ContractNoteCharges, 'id'>[] = [];
+	const issues: ParseIssue[] = [];
+
+	result.data.forEach((row, index) => {
+		// Data rows start after the header, which is row 1
+		const rowNumber = index + 2;
+
+		const segment = segmentColumn ? row[segmentColumn]?.trim().toUpperCase() : '';
+		if (segment && segment !== 'EQ') {
+			return;
+		}
+
+		const tradeDate = parseDateWithFormats(row[dateColumn] ?? '', IMPORT_DATE_FORMATS);
+		if (!tradeDate) {
+			issues.push({ row: rowNumber, column: dateColumn, value: row[dateColumn] ?? '', reason: 'Invalid date' });
+			return;
+		}
+
+		const record: Omit<ContractNoteCharges, 'id'> = {
+			tradeDate,
+			tradeId: tradeIdColumn ? (row[tradeIdColumn]?.trim() ?? '') : '',
+			brokerage: 0,
+			exchangeCharges: 0,
+			sebiFees: 0,
+			stampDuty: 0,
+			gst: 0,
+			stt: 0
+		};
+
+		for (const [field, columns] of chargeColumns) {
+			for (const column of columns) {
+				const amount = parseAmount(row[column]);
+				if (!(amount >= 0)) {
+					issues.push({ row: rowNumber, column, value: row[column] ?? '', reason: 'Charge must be zero or more' });
+					return;
+				}
+				record[field] += amount;
+			}
+		}
+
+		charges.push(record);
+	});
+
+	return { charges, issues };
+}
+
+/**
+ * Spreads charges across the trades they cover, in proportion to trade value
+ *
+ * A record with a trade ID applies to that trade only; otherwise it covers every
+ * equity trade on its date. Stamp duty is spread over buys only, since it is
+ * levied on the buyer. Amounts from several records for the same trade add up.
+ *
+ * @param trades - Equity trades from parsed tradebooks
+ * @param charges - Imported contract-note charges
+ * @returns Trades with `charges` (deductible) and `stt` filled in
+ */
+export function allocateCharges(trades: TradeRecord[], charges: ContractNoteCharges[]): TradeRecord[] {
+	if (charges.length === 0) {
+		return trades;
+	}
+
+	const allocated = new Map<string, { charges: number; stt: number }>();
+	const addTo = (trade: TradeRecord, amount: number, field: 'charges' | 'stt') => {
+		const current = allocated.get(trade.tradeId) ?? { charges: 0, stt: 0 };
+		current[field] += amount;
+		allocated.set(trade.tradeId, current);
+	};
+
+	/**
+	 * Adds an amount to trades pro rata by value (quantity × price)
+	 */
+	const spread = (targets: TradeRecord[], amount: number, field: 'charges' | 'stt') => {
+		const totalValue = targets.reduce((sum, trade) => sum + trade.quantity * trade.price, 0);
+		for (const trade of targets) {
+			const share = totalValue > 0 ? (trade.quantity * trade.price) / totalValue : 1 / targets.length;
+			addTo(trade, amount * share, field);
+		}
+	};
+
+	// Index trades once, so each record finds its targets without scanning every trade
+	const tradesById = new Map<string, TradeRecord[]>();
+	const tradesByDay = new Map<string, TradeRecord[]>();
+	const addToIndex = (index: Map<string, TradeRecord[]>, key: string, trade: TradeRecord) => {
+		const existing = index.get(key);
+		if (existing) {
+			existing.push(trade);
+		} else {
+			index.set(key, [trade]);
+		}
+	};
+	for (const trade of trades) {
+		addToIndex(tradesById, trade.tradeId, trade);
+		addToIndex(tradesByDay, format(trade.tradeDate, 'yyyy-MM-dd'), trade);
+	}
+
+	for (const record of charges) {
+		const targets =
+			(record.tradeId
+				? tradesById.get(record.tradeId)
+				: tradesByDay.get(format(record.tradeDate, 'yyyy-MM-dd'))) ?? [];
+		if (targets.length === 0) {
+			continue;
+		}
+
+		const buys = targets.filter((trade) => trade.tradeType === 'buy');
+		spread(targets, getDeductibleCharges(record) - record.stampDuty, 'charges');
+		spread(buys.length > 0 ? buys : targets, record.stampDuty, 'charges');
+		spread(targets, record.stt, 'stt');
+	}
+
+	return trades.map((trade) => {
+		const amounts = allocated.get(trade.tradeId);
+		return amounts
+			? { ...trade, charges: (trade.charges ?? 0) + amounts.charges, stt: (trade.stt ?? 0) + amounts.stt }
+			: trade;
+	});
+}
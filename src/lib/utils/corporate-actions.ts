@@ -0,0 +1,230 @@
+/**
+ * Corporate Actions Engine
+ * Rewrites FIFO lots for splits, consolidations and bonus issues
+ * so that post-action trades match against correctly sized lots
+ */
+
+import type { CorporateAction, HoldingLot, SymbolChange } from '$lib/types';
+import { sortLotsForFifo } from '$lib/utils/inward-transfers';
+
+/**
+ * Prefix for symbol change IDs derived from ISIN-changing splits and consolidations
+ */
+const ISIN_CHANGE_PREFIX = 'ca_isin_';
+
+/**
+ * Validates a corporate action before it is recorded
+ *
+ * @param action - Corporate action to validate
+ * @returns Human-readable error message, or null if the action is valid
+ */
+export function validateCorporateAction(action: Omit<CorporateAction, 'id'>): string | null {
+	if (!action.isin?.trim() && !action.symbol?.trim()) {
+		return 'Either ISIN or symbol is required';
+	}
+
+	if (!(action.exDate instanceof Date) || isNaN(action.exDate.getTime())) {
+		return 'A valid ex-date is required';
+	}
+
+	if (!(action.ratioFrom > 0) || !(action.ratioTo > 0)) {
+		return 'Ratio values must be positive numbers';
+	}
+
+	if (action.type === 'SPLIT' && action.ratioTo <= action.ratioFrom) {
+		return 'A split must increase the number of shares (e.g., 1:5)';
+	}
+
+	if (action.type === 'CONSOLIDATION' && action.ratioTo >= action.ratioFrom) {
+		return 'A consolidation must reduce the number of shares (e.g., 10:1)';
+	}
+
+	if (action.newIsin?.trim()) {
+		if (action.type === 'BONUS') {
+			return 'Only a split or consolidation can change the ISIN';
+		}
+
+		if (!action.isin?.trim()) {
+			return 'The old ISIN is required when a new ISIN is given';
+		}
+
+		if (action.newIsin.trim().toUpperCase() === action.isin.trim().toUpperCase()) {
+			return 'The new ISIN must differ from the old one';
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Checks whether a corporate action applies to a holding
+ * Matches on ISIN when both sides have one, otherwise falls back to symbol
+ */
+function actionMatchesHolding(action: CorporateAction, isin: string, symbol: string): boolean {
+	if (action.isin && isin) {
+		return action.isin === isin;
+	}
+	return action.symbol.toUpperCase() === symbol.toUpperCase();
+}
+
+/**
+ * Returns the corporate actions that apply to a holding, sorted by ex-date
+ *
+ * @param actions - All recorded corporate actions
+ * @param isin - ISIN of the holding (may be empty)
+ * @param symbol - Trading symbol of the holding
+ * @returns Matching actions in chronological order
+ */
+export function getActionsForHolding(
+	actions: CorporateAction[],
+	isin: string,
+	symbol: string
+): CorporateAction[] {
+	return actions
+		.filter((action) => actionMatchesHolding(action, isin, symbol))
+		.sort((a, b) => a.exDate.getTime() - b.exDate.getTime());
+}
+
+/**
+ * Applies a split or consolidation to the eligible lots
+ *
+ * The new quantity is ratioTo/ratioFrom shares per old share on the total held,
+ * rounded down to whole shares (fractions are settled in cash), and is spread
+ * over the lots oldest first: each lot gets the whole shares its cumulative
+ * quantity earns. A lot keeps its total cost, so per-share price scales with
+ * the quantity; a lot that earns no whole share passes its cost on to the next
+ * one, so the whole cost stays on the shares held. A grandfathered 31 Jan 2018
+ * FMV is a per-share value and is carried the same way.
+ */
+function rescaleLots(
+	lots: HoldingLot[],
+	action: CorporateAction,
+	isEligible: (lot: HoldingLot) => boolean
+): HoldingLot[] {
+	const rescaled: HoldingLot[] = [];
+	let heldQuantity = 0;
+	let allotted = 0;
+	let lastIndex = -1;
+	// Cost and FMV of eligible lots that have not yet earned a whole share
+	let pendingCost = 0;
+	let pendingFmv = 0;
+
+	for (const lot of lots) {
+		if (!isEligible(lot)) {
+			rescaled.push(lot);
+			continue;
+		}
+
+		heldQuantity += lot.quantity;
+		const quantity = Math.floor((heldQuantity * action.ratioTo) / action.ratioFrom) - allotted;
+		pendingCost += lot.quantity * lot.purchasePrice;
+		pendingFmv += lot.quantity * (lot.grandfatheredFmv ?? lot.purchasePrice);
+
+		if (quantity <= 0) {
+			continue;
+		}
+
+		rescaled.push({
+			...lot,
+			quantity,
+			purchasePrice: pendingCost / quantity,
+			...(lot.grandfatheredFmv !== undefined && { grandfatheredFmv: pendingFmv / quantity })
+		});
+		allotted += quantity;
+		lastIndex = rescaled.length - 1;
+		pendingCost = 0;
+		pendingFmv = 0;
+	}
+
+	// Cost of the newest lots that earned no whole share stays with the last shares held
+	const last = rescaled[lastIndex];
+	if (last && pendingCost > 0) {
+		rescaled[lastIndex] = {
+			...last,
+			purchasePrice: (last.quantity * last.purchasePrice + pendingCost) / last.quantity,
+			...(last.grandfatheredFmv !== undefined && {
+				grandfatheredFmv: (last.quantity * last.grandfatheredFmv + pendingFmv) / last.quantity
+			})
+		};
+	}
+
+	return rescaled;
+}
+
+/**
+ * Applies a corporate action to the open lots of a holding
+ *
+ * - SPLIT / CONSOLIDATION: every lot keeps its purchase date and total cost;
+ *   quantity is multiplied by ratioTo/ratioFrom and rounded down to whole
+ *   shares on the total held (fractional entitlements are dropped)
+ * - BONUS: existing lots are untouched; a new zero-cost lot is added with the
+ *   allotment date as its acquisition date (fractional entitlements are dropped)
+ *
+ * Only lots acquired before the ex-date are affected.
+ *
+ * @param lots - Open lots in FIFO order
+ * @param action - Corporate action to apply
+ * @returns New array of lots in FIFO order
+ */
+export function applyCorporateAction(lots: HoldingLot[], action: CorporateAction): HoldingLot[] {
+	const isEligible = (lot: HoldingLot) => lot.purchaseDate < action.exDate;
+
+	if (action.type === 'BONUS') {
+		const eligibleQuantity = lots
+			.filter(isEligible)
+			.reduce((sum, lot) => sum + lot.quantity, 0);
+		const bonusQuantity = Math.floor((eligibleQuantity * action.ratioTo) / action.ratioFrom);
+
+		if (bonusQuantity <= 0) {
+			return lots;
+		}
+
+		const bonusLot: HoldingLot = {
+			quantity: bonusQuantity,
+			purchaseDate: action.allotmentDate ?? action.exDate,
+			purchasePrice: 0
+		};
+
+		// Keep FIFO order by queue date, so transferred-in lots stay where they were credited
+		return sortLotsForFifo([...lots, bonusLot]);
+	}
+
+	return rescaleLots(lots, action, isEligible);
+}
+
+/**
+ * Derives the ISIN changes of splits and consolidations that change the face value
+ *
+ * Lots are rescaled under the old ISIN on the ex-date, then move to the new ISIN
+ * one for one, so sells after the ex-date match against them in the same FIFO queue.
+ *
+ * @param actions - Recorded corporate actions
+ * @returns Symbol changes to replay alongside the user-recorded ones
+ */
+export function deriveCorporateActionSymbolChanges(actions: CorporateAction[]): SymbolChange[] {
+	return actions
+		.filter((action) => action.type !== 'BONUS' && action.newIsin && action.newIsin !== action.isin)
+		.map((action) => ({
+			id: `${ISIN_CHANGE_PREFIX}${action.id}`,
+			type: 'RENAME' as const,
+			oldSymbol: action.symbol,
+			oldIsin: action.isin,
+			newSymbol: action.symbol,
+			newIsin: action.newIsin!,
+			effectiveDate: action.exDate,
+			ratioFrom: 1,
+			ratioTo: 1
+		}));
+}
+
+/**
+ * Formats a corporate action for display (e.g., "Split 1:5", "Bonus 1:1")
+ */
+export function describeCorporateAction(action: CorporateAction): string {
+	const labels: Record<CorporateAction['type'], string> = {
+		SPLIT: 'Split',
+		CONSOLIDATION: 'Consolidation',
+		BONUS: 'Bonus'
+	};
+	return `${labels[action.type]} ${action.ratioFrom}:${action.ratioTo}`;
+}
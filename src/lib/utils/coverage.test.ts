@@ -0,0 +1,98 @@
+/**
+ * Unit tests for tradebook coverage analyzer
+ * Tests missing FY detection and sells that need older history
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeCoverage, findFinancialYearGaps } from './coverage';
+import type { UnmatchedSell, UploadedFile } from '$lib/types';
+
+/**
+ * Helper to create uploaded file metadata for a date range
+ */
+function createFile(id: string, from: Date, to: Date): UploadedFile {
+	return {
+		id,
+		name: `${id}.csv`,
+		broker: 'Zerodha',
+		fyRange: '',
+		tradeCount: 1,
+		derivativeTradeCount: 0,
+		diagnostics: { totalRows: 1, parsedRows: 1, derivativeRows: 0, issues: [], skippedSegments: {}, skippedNonTrades: 0 },
+		dateRange: { from, to }
+	};
+}
+
+/**
+ * Helper to create an unmatched sell
+ */
+function createUnmatchedSell(quantity: number, sellDate: Date, symbol = 'INFY'): UnmatchedSell {
+	return { symbol, isin: `ISIN_${symbol}`, exchange: 'NSE', sellDate, quantity };
+}
+
+describe('findFinancialYearGaps', () => {
+	it('should report no gaps for consecutive financial years', () => {
+		const files = [
+			createFile('fy23', new Date(2023, 3, 10), new Date(2024, 2, 20)),
+			createFile('fy24', new Date(2024, 3, 5), new Date(2025, 1, 15))
+		];
+
+		const { coveredYears, missingYears } = findFinancialYearGaps(files);
+
+		expect(coveredYears).toEqual(['FY 2023-24', 'FY 2024-25']);
+		expect(missingYears).toEqual([]);
+	});
+
+	it('should flag financial years between files with no upload', () => {
+		const files = [
+			createFile('fy20', new Date(2020, 5, 1), new Date(2021, 0, 15)),
+			createFile('fy23', new Date(2023, 6, 1), new Date(2024, 1, 1))
+		];
+
+		const { missingYears } = findFinancialYearGaps(files);
+
+		expect(missingYears).toEqual(['FY 2021-22', 'FY 2022-23']);
+	});
+
+	it('should treat a file spanning several years as covering all of them', () => {
+		const files = [createFile('multi', new Date(2019, 4, 1), new Date(2022, 7, 1))];
+
+		const { coveredYears, missingYears } = findFinancialYearGaps(files);
+
+		expect(coveredYears).toEqual(['FY 2019-20', 'FY 2020-21', 'FY 2021-22', 'FY 2022-23']);
+		expect(missingYears).toEqual([]);
+	});
+});
+
+describe('analyzeCoverage', () => {
+	it('should combine FY gaps, uncovered sells and the earliest file date', () => {
+		const files = [
+			createFile('fy21', new Date(2021, 6, 1), new Date(2021, 11, 1)),
+			createFile('fy23', new Date(2023, 6, 1), new Date(2023, 11, 1))
+		];
+		const unmatched = [createUnmatchedSell(3, new Date(2023, 7, 1), 'TCS'), createUnmatchedSell(5, new Date(2021, 6, 1))];
+
+		const report = analyzeCoverage(files, unmatched);
+
+		expect(report.missingYears).toEqual(['FY 2022-23']);
+		expect(report.uncoveredSells.map((s) => s.symbol)).toEqual(['INFY', 'TCS']);
+		expect(report.earliestDate).toEqual(new Date(2021, 6, 1));
+	});
+
+	it('should leave out unmatched sells from before the earliest file', () => {
+		const files = [createFile('fy23', new Date(2023, 6, 1), new Date(2023, 11, 1))];
+
+		const report = analyzeCoverage(files, [createUnmatchedSell(5, new Date(2022, 0, 10))]);
+
+		expect(report.uncoveredSells).toEqual([]);
+	});
+
+	it('should return an empty report when nothing is uploaded', () => {
+		const report = analyzeCoverage([], [createUnmatchedSell(5, new Date(2021, 6, 1))]);
+
+		expect(report.coveredYears).toEqual([]);
+		expect(report.missingYears).toEqual([]);
+		expect(report.uncoveredSells).toEqual([]);
+		expect(report.earliestDate).toBeNull();
+	});
+});
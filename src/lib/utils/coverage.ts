@@ -0,0 +1,95 @@
+/**
+ * Tradebook Coverage Analyzer
+ * Checks whether the uploaded tradebooks form a continuous trade history:
+ * flags financial years with no uploaded file and sells that need
+ * history older than the earliest file
+ */
+
+import type { UnmatchedSell, UploadedFile } from '$lib/types';
+import { getFyLabel, getFyStartDate } from './financial-year';
+
+/**
+ * Result of analyzing tradebook coverage
+ */
+export interface CoverageReport {
+	/** Financial years covered by at least one file (e.g., "FY 2023-24") */
+	coveredYears: string[];
+	/** Financial years between the earliest and latest file with no file uploaded */
+	missingYears: string[];
+	/** Sells in the uploaded history that need trade history older than the earliest file */
+	uncoveredSells: UnmatchedSell[];
+	/** Earliest trade date across all files, or null if nothing was uploaded */
+	earliestDate: Date | null;
+}
+
+/**
+ * Finds financial years between the earliest and latest uploaded file that no file covers
+ * A file covers every FY its date range touches
+ *
+ * @param files - Uploaded tradebook files
+ * @returns Covered and missing FY labels in chronological order
+ */
+export function findFinancialYearGaps(files: UploadedFile[]): {
+	coveredYears: string[];
+	missingYears: string[];
+} {
+	if (files.length === 0) {
+		return { coveredYears: [], missingYears: [] };
+	}
+
+	const covered = new Set<number>();
+	for (const file of files) {
+		const fromYear = getFyStartDate(file.dateRange.from).getFullYear();
+		const toYear = getFyStartDate(file.dateRange.to).getFullYear();
+		for (let year = fromYear; year <= toYear; year++) {
+			covered.add(year);
+		}
+	}
+
+	const years = Array.from(covered).sort((a, b) => a - b);
+	const missingYears: string[] = [];
+	for (let year = years[0]; year <= years[years.length - 1]; year++) {
+		if (!covered.has(year)) {
+			missingYears.push(getFyLabel(new Date(year, 3, 1)));
+		}
+	}
+
+	return { coveredYears: years.map((year) => getFyLabel(new Date(year, 3, 1))), missingYears };
+}
+
+/**
+ * Analyzes how completely the uploaded tradebooks cover the trade history
+ *
+ * Sells the FIFO replay could not match, dated on or after the earliest file,
+ * need buys from before it. Earlier unmatched sells (e.g., from a fund
+ * statement reaching further back) are outside what the tradebooks cover.
+ *
+ * @param files - Uploaded tradebook files
+ * @param unmatchedSells - Sells the FIFO replay could not match against known lots
+ * @returns Coverage report with missing FYs and sells needing older history
+ */
+export function analyzeCoverage(files: UploadedFile[], unmatchedSells: UnmatchedSell[] = []): CoverageReport {
+	const { coveredYears, missingYears } = findFinancialYearGaps(files);
+	const earliestDate = files.reduce<Date | null>(
+		(earliest, file) => (earliest && earliest <= file.dateRange.from ? earliest : file.dateRange.from),
+		null
+	);
+
+	return {
+		coveredYears,
+		missingYears,
+		uncoveredSells: earliestDate
+			? unmatchedSells
+					.filter((sell) => sell.sellDate >= earliestDate)
+					.sort((a, b) => a.sellDate.getTime() - b.sellDate.getTime())
+			: [],
+		earliestDate
+	};
+}
+
+/**
+ * Checks whether a coverage report has anything to warn about
+ */
+export function hasCoverageGaps(report: CoverageReport): boolean {
+	return report.missingYears.length > 0 || report.uncoveredSells.length > 0;
+}
@@ -4,7 +4,12 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { parseTradebook, mergeTradebooks } from './csv-parser';
+import {
+	parseTradebook,
+	parseTradebookWithReport,
+	mergeTradebooks,
+	describeSkippedRows
+} from './csv-parser';
 import type { TradeRecord } from '$lib/types';
 
 // Sample valid CSV header
@@ -326,7 +331,7 @@ describe('parseTradebook', () => {
 			expect(result).toEqual([]);
 		});
 
-		it('should skip rows with invalid trade_date and log warning', () => {
+		it('should skip rows with invalid trade_date and report the row', () => {
 			const csv = createCsv([
 				createCsvRow({
 					trade_date: 'invalid-date',
@@ -338,13 +343,13 @@ describe('parseTradebook', () => {
 				})
 			]);
 
-			const result = parseTradebook(csv);
+			const { trades, diagnostics } = parseTradebookWithReport(csv);
 
-			expect(result).toHaveLength(1);
-			expect(result[0].tradeId).toBe('TRD_VALID');
-			expect(consoleWarnSpy).toHaveBeenCalledWith(
-				expect.stringContaining('Skipping row with invalid trade_date')
-			);
+			expect(trades).toHaveLength(1);
+			expect(trades[0].tradeId).toBe('TRD_VALID');
+			expect(diagnostics.issues).toEqual([
+				{ row: 2, column: 'trade_date', value: 'invalid-date', reason: 'Invalid trade date' }
+			]);
 		});
 
 		it('should skip rows with invalid trade_type', () => {
@@ -449,7 +454,7 @@ describe('parseTradebook', () => {
 	});
 
 	describe('non-EQ segment trades are filtered out', () => {
-		it('should filter out F&O (FO) segment trades', () => {
+		it('should keep F&O (FO) segment trades out of equity trades', () => {
 			const csv = createCsv([
 				createCsvRow({
 					segment: 'FO',
@@ -576,6 +581,107 @@ describe('parseTradebook', () => {
 	});
 });
 
+describe('parseTradebookWithReport', () => {
+	it('should report row counts for a clean tradebook', () => {
+		const csv = createCsv([
+			createCsvRow({ trade_id: 'TRD_1' }),
+			createCsvRow({ trade_id: 'TRD_2', trade_type: 'sell' })
+		]);
+
+		const { broker, diagnostics } = parseTradebookWithReport(csv);
+
+		expect(broker?.id).toBe('zerodha');
+		expect(diagnostics.totalRows).toBe(2);
+		expect(diagnostics.parsedRows).toBe(2);
+		expect(diagnostics.issues).toHaveLength(0);
+	});
+
+	it('should report the row, column and value of each rejected row', () => {
+		const csv = createCsv([
+			createCsvRow({ trade_id: 'TRD_VALID' }),
+			createCsvRow({ trade_id: 'TRD_BAD_QTY', quantity: '-5' }),
+			createCsvRow({ trade_id: 'TRD_BAD_TYPE', trade_type: 'hold' })
+		]);
+
+		const { trades, diagnostics } = parseTradebookWithReport(csv);
+
+		expect(trades).toHaveLength(1);
+		expect(diagnostics.issues).toEqual([
+			{ row: 3, column: 'quantity', value: '-5', reason: 'Quantity must be a positive number' },
+			{ row: 4, column: 'trade_type', value: 'hold', reason: 'Trade type must be buy or sell' }
+		]);
+	});
+
+	it('should count skipped unsupported rows by segment', () => {
+		const csv = createCsv([
+			createCsvRow({ trade_id: 'TRD_EQ' }),
+			createCsvRow({ trade_id: 'TRD_FO_1', segment: 'FO' }),
+			createCsvRow({ trade_id: 'TRD_FO_2', segment: 'FO' }),
+			createCsvRow({ trade_id: 'TRD_CD', segment: 'CD' })
+		]);
+
+		const { diagnostics } = parseTradebookWithReport(csv);
+
+		expect(diagnostics.parsedRows).toBe(1);
+		expect(diagnostics.derivativeRows).toBe(2);
+		expect(diagnostics.skippedSegments).toEqual({ CD: 1 });
+		expect(diagnostics.issues).toHaveLength(0);
+	});
+
+	it('should parse FO segment rows into derivative trades', () => {
+		const csv = createCsv([
+			createCsvRow({ trade_id: 'TRD_FUT', segment: 'FO', symbol: 'NIFTY24JANFUT', isin: '' }),
+			createCsvRow({ trade_id: 'TRD_OPT', segment: 'FO', symbol: 'banknifty24jan48000pe', isin: '' })
+		]);
+
+		const { trades, derivativeTrades } = parseTradebookWithReport(csv);
+
+		expect(trades).toEqual([]);
+		expect(derivativeTrades.map((trade) => [trade.symbol, trade.instrument])).toEqual([
+			['NIFTY24JANFUT', 'FUTURE'],
+			['BANKNIFTY24JAN48000PE', 'OPTION']
+		]);
+	});
+
+	it('should flag buyback tender-offer sells from the series or auction column', () => {
+		const csv = [
+			'symbol,isin,trade_date,exchange,segment,series,trade_type,auction,quantity,price,trade_id',
+			'TCS,INE467B01029,2025-12-10,NSE,EQ,BB,sell,false,10,4500,TRD_TENDER',
+			'INFY,INE009A01021,2025-12-10,NSE,EQ,EQ,sell,true,5,1800,TRD_AUCTION',
+			'TCS,INE467B01029,2025-12-11,NSE,EQ,EQ,sell,false,2,3200,TRD_MARKET'
+		].join('\n');
+
+		const { trades } = parseTradebookWithReport(csv);
+
+		expect(trades.map((trade) => [trade.tradeId, trade.tenderOffer])).toEqual([
+			['TRD_TENDER', true],
+			['TRD_AUCTION', true],
+			['TRD_MARKET', undefined]
+		]);
+	});
+
+	it('should not write skipped rows to the console', () => {
+		const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const csv = createCsv([createCsvRow({ trade_date: 'not-a-date' })]);
+
+		parseTradebookWithReport(csv);
+
+		expect(consoleWarnSpy).not.toHaveBeenCalled();
+		consoleWarnSpy.mockRestore();
+	});
+
+	it('should describe skipped rows for display', () => {
+		const csv = createCsv([
+			createCsvRow({ trade_id: 'TRD_BAD', price: 'abc' }),
+			createCsvRow({ trade_id: 'TRD_CD', segment: 'CD' })
+		]);
+
+		const { diagnostics } = parseTradebookWithReport(csv);
+
+		expect(describeSkippedRows(diagnostics)).toBe('1 invalid row, 1 CD row');
+	});
+});
+
 describe('mergeTradebooks', () => {
 	describe('deduplication removes trades with same tradeId', () => {
 		it('should deduplicate trades with same tradeId', () => {
@@ -1,90 +1,41 @@
 /**
- * CSV Parser for Zerodha Tradebook files
- * Parses tradebook CSV content and returns structured TradeRecord array
+ * CSV Parser for broker Tradebook files
+ * Detects the broker format, maps rows through its adapter
+ * and returns structured TradeRecord array (plus FO-segment DerivativeTrade array)
  */
 
 import Papa from 'papaparse';
-import type { TradeRecord, TradeType } from '$lib/types';
-
-/**
- * Expected columns in Zerodha Tradebook CSV
- */
-interface RawTradeRow {
-	symbol: string;
-	isin: string;
-	trade_date: string;
-	exchange: string;
-	segment: string;
-	trade_type: string;
-	quantity: string;
-	price: string;
-	order_id: string;
-	trade_id: string;
-}
-
-/**
- * Required columns that must be present in a valid Tradebook CSV
- */
-const REQUIRED_COLUMNS = [
-	'symbol',
-	'isin',
-	'trade_date',
-	'exchange',
-	'segment',
-	'trade_type',
-	'quantity',
-	'price',
-	'trade_id'
-] as const;
+import type { DerivativeTrade, ParseDiagnostics, TradeRecord, TradeType } from '$lib/types';
+import { detectBrokerAdapter, type BrokerAdapter, type CsvRow } from '$lib/utils/brokers';
+import { getDerivativeInstrument } from '$lib/utils/fno-calculator';
+import { isTenderOfferRow } from '$lib/utils/tender-offers';
 
 /**
- * Validates that all required columns are present in the CSV header
+ * Result of parsing a tradebook, including which broker format was detected
  */
-function validateColumns(headers: string[]): boolean {
-	const normalizedHeaders = headers.map((h) => h.toLowerCase().trim());
-	return REQUIRED_COLUMNS.every((col) => normalizedHeaders.includes(col));
+export interface TradebookParseResult {
+	/** Valid equity trades sorted by tradeDate ascending */
+	trades: TradeRecord[];
+	/** Valid futures and options trades sorted by tradeDate ascending */
+	derivativeTrades: DerivativeTrade[];
+	/** Adapter that recognized the file, or null if the format is unknown */
+	broker: BrokerAdapter | null;
+	/** Rows that were skipped and why */
+	diagnostics: ParseDiagnostics;
 }
 
 /**
- * Parses a date string in various formats to a Date object
- * Supports: YYYY-MM-DD, DD-MM-YYYY, DD/MM/YYYY
+ * Creates an empty diagnostics report
  */
-function parseTradeDate(dateStr: string): Date | null {
-	if (!dateStr || typeof dateStr !== 'string') {
-		return null;
-	}
-
-	const trimmed = dateStr.trim();
-
-	// Try YYYY-MM-DD format first (ISO)
-	if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
-		const date = new Date(trimmed + 'T00:00:00');
-		if (!isNaN(date.getTime())) {
-			return date;
-		}
-	}
-
-	// Try DD-MM-YYYY format
-	const dashMatch = trimmed.match(/^(\d{2})-(\d{2})-(\d{4})$/);
-	if (dashMatch) {
-		const [, day, month, year] = dashMatch;
-		const date = new Date(`${year}-${month}-${day}T00:00:00`);
-		if (!isNaN(date.getTime())) {
-			return date;
-		}
-	}
-
-	// Try DD/MM/YYYY format
-	const slashMatch = trimmed.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
-	if (slashMatch) {
-		const [, day, month, year] = slashMatch;
-		const date = new Date(`${year}-${month}-${day}T00:00:00`);
-		if (!isNaN(date.getTime())) {
-			return date;
-		}
-	}
-
-	return null;
+function createEmptyDiagnostics(totalRows = 0): ParseDiagnostics {
+	return {
+		totalRows,
+		parsedRows: 0,
+		derivativeRows: 0,
+		issues: [],
+		skippedSegments: {},
+		skippedNonTrades: 0
+	};
 }
 
 /**
@@ -99,24 +50,28 @@ function parseTradeType(tradeType: string): TradeType | null {
 }
 
 /**
- * Parses Zerodha Tradebook CSV content and returns structured TradeRecord array
+ * Parses tradebook CSV content and reports which broker format was used
  *
- * - Filters for EQ segment only (equities)
- * - Parses trade_date to Date object
- * - Maps CSV columns to TradeRecord interface
- * - Returns empty array for invalid format
+ * - Detects the broker from headers via the adapter registry
+ * - Maps each row into the common trade shape using the adapter
+ * - Keeps EQ (equity) and FO (futures and options) segments apart, counting
+ *   skipped rows of any other segment
+ * - Parses trade dates using the broker's date format
+ * - Flags buyback tender-offer sells from series or auction markers
+ * - Records every skipped row with its row number, column, raw value and reason
+ * - Returns no trades and a null broker for unrecognized formats
  * - Sorts results by tradeDate ascending
  *
  * @param csvContent - Raw CSV content as string
- * @returns Array of TradeRecord objects, empty if invalid format or no EQ trades
+ * @returns Parsed equity and derivative trades, the detected broker adapter and parse diagnostics
  */
-export function parseTradebook(csvContent: string): TradeRecord[] {
+export function parseTradebookWithReport(csvContent: string): TradebookParseResult {
 	if (!csvContent || typeof csvContent !== 'string' || csvContent.trim().length === 0) {
-		return [];
+		return { trades: [], derivativeTrades: [], broker: null, diagnostics: createEmptyDiagnostics() };
 	}
 
 	try {
-		const result = Papa.parse<RawTradeRow>(csvContent, {
+		const result = Papa.parse<CsvRow>(csvContent, {
 			header: true,
 			skipEmptyLines: true,
 			transformHeader: (header) => header.toLowerCase().trim()
@@ -128,62 +83,93 @@ export function parseTradebook(csvContent: string): TradeRecord[] {
 			console.warn('CSV parse warnings:', result.errors);
 		}
 
-		// Validate required columns are present
-		if (!result.meta.fields || !validateColumns(result.meta.fields)) {
+		// Detect the broker format from the headers
+		const broker = result.meta.fields ? detectBrokerAdapter(result.meta.fields) : null;
+		if (!broker) {
 			console.error('Invalid CSV format: missing required columns');
-			return [];
+			return { trades: [], derivativeTrades: [], broker: null, diagnostics: createEmptyDiagnostics(result.data.length) };
 		}
 
-		// Filter for EQ segment and map to TradeRecord
+		// Map EQ rows to TradeRecord and FO rows to DerivativeTrade
 		const trades: TradeRecord[] = [];
+		const derivativeTrades: DerivativeTrade[] = [];
+		const diagnostics = createEmptyDiagnostics(result.data.length);
+
+		result.data.forEach((csvRow, index) => {
+			// Data rows start after the header, which is row 1
+			const rowNumber = index + 2;
+			const skip = (column: string, value: string | undefined, reason: string) => {
+				diagnostics.issues.push({ row: rowNumber, column, value: value ?? '', reason });
+			};
+
+			const row = broker.mapRow(csvRow);
+			if (!row) {
+				diagnostics.skippedNonTrades++;
+				return;
+			}
 
-		for (const row of result.data) {
-			// Skip non-equity trades (FO, CD, etc.)
+			// Skip segments other than equity and F&O (CD, MCX, etc.)
 			const segment = row.segment?.toUpperCase().trim();
-			if (segment !== 'EQ') {
-				continue;
+			if (segment !== 'EQ' && segment !== 'FO') {
+				const key = segment || 'UNKNOWN';
+				diagnostics.skippedSegments[key] = (diagnostics.skippedSegments[key] ?? 0) + 1;
+				return;
 			}
 
 			// Parse and validate required fields
-			const tradeDate = parseTradeDate(row.trade_date);
+			const tradeDate = broker.parseDate(row.trade_date);
 			if (!tradeDate) {
-				console.warn(`Skipping row with invalid trade_date: ${row.trade_date}`);
-				continue;
+				skip('trade_date', row.trade_date, 'Invalid trade date');
+				return;
 			}
 
 			const tradeType = parseTradeType(row.trade_type);
 			if (!tradeType) {
-				console.warn(`Skipping row with invalid trade_type: ${row.trade_type}`);
-				continue;
+				skip('trade_type', row.trade_type, 'Trade type must be buy or sell');
+				return;
 			}
 
 			const quantity = parseFloat(row.quantity);
 			if (isNaN(quantity) || quantity <= 0) {
-				console.warn(`Skipping row with invalid quantity: ${row.quantity}`);
-				continue;
+				skip('quantity', row.quantity, 'Quantity must be a positive number');
+				return;
 			}
 
 			const price = parseFloat(row.price);
 			if (isNaN(price) || price < 0) {
-				console.warn(`Skipping row with invalid price: ${row.price}`);
-				continue;
+				skip('price', row.price, 'Price must be a non-negative number');
+				return;
 			}
 
 			const tradeId = row.trade_id?.trim();
 			if (!tradeId) {
-				console.warn('Skipping row with missing trade_id');
-				continue;
+				skip('trade_id', row.trade_id, 'Missing trade ID');
+				return;
 			}
 
 			const symbol = row.symbol?.trim();
 			if (!symbol) {
-				console.warn('Skipping row with missing symbol');
-				continue;
+				skip('symbol', row.symbol, 'Missing symbol');
+				return;
 			}
 
 			const isin = row.isin?.trim() || '';
 			const exchange = row.exchange?.toUpperCase().trim() || 'NSE';
 
+			if (segment === 'FO') {
+				derivativeTrades.push({
+					tradeId,
+					symbol: symbol.toUpperCase(),
+					tradeDate,
+					exchange,
+					instrument: getDerivativeInstrument(symbol),
+					tradeType,
+					quantity,
+					price
+				});
+				return;
+			}
+
 			trades.push({
 				tradeId,
 				symbol,
@@ -192,20 +178,68 @@ export function parseTradebook(csvContent: string): TradeRecord[] {
 				exchange,
 				tradeType,
 				quantity,
-				price
+				price,
+				...(isTenderOfferRow(row) && { tenderOffer: true })
 			});
-		}
+		});
+
+		diagnostics.parsedRows = trades.length;
+		diagnostics.derivativeRows = derivativeTrades.length;
 
 		// Sort by tradeDate ascending
 		trades.sort((a, b) => a.tradeDate.getTime() - b.tradeDate.getTime());
+		derivativeTrades.sort((a, b) => a.tradeDate.getTime() - b.tradeDate.getTime());
 
-		return trades;
+		return { trades, derivativeTrades, broker, diagnostics };
 	} catch (error) {
 		console.error('Failed to parse CSV:', error);
-		return [];
+		return { trades: [], derivativeTrades: [], broker: null, diagnostics: createEmptyDiagnostics() };
 	}
 }
 
+/**
+ * Parses tradebook CSV content and returns structured TradeRecord array
+ *
+ * @param csvContent - Raw CSV content as string
+ * @returns Array of TradeRecord objects, empty if invalid format or no EQ trades
+ */
+export function parseTradebook(csvContent: string): TradeRecord[] {
+	return parseTradebookWithReport(csvContent).trades;
+}
+
+/**
+ * Counts all rows skipped while parsing (invalid, unsupported-segment and non-trade rows)
+ */
+export function countSkippedRows(diagnostics: ParseDiagnostics): number {
+	const segmentRows = Object.values(diagnostics.skippedSegments).reduce((sum, count) => sum + count, 0);
+	return diagnostics.issues.length + segmentRows + diagnostics.skippedNonTrades;
+}
+
+/**
+ * Summarizes skipped rows for display (e.g., "2 invalid rows, 12 FO rows")
+ *
+ * @param diagnostics - Diagnostics report from parseTradebookWithReport
+ * @returns Comma-separated summary, or an empty string if nothing was skipped
+ */
+export function describeSkippedRows(diagnostics: ParseDiagnostics): string {
+	const parts: string[] = [];
+	const plural = (count: number) => (count === 1 ? 'row' : 'rows');
+
+	if (diagnostics.issues.length > 0) {
+		parts.push(`${diagnostics.issues.length} invalid ${plural(diagnostics.issues.length)}`);
+	}
+
+	for (const [segment, count] of Object.entries(diagnostics.skippedSegments)) {
+		parts.push(`${count} ${segment} ${plural(count)}`);
+	}
+
+	if (diagnostics.skippedNonTrades > 0) {
+		parts.push(`${diagnostics.skippedNonTrades} unexecuted ${plural(diagnostics.skippedNonTrades)}`);
+	}
+
+	return parts.join(', ');
+}
+
 /**
  * Merges multiple tradebook arrays into a single deduplicated array
  *
@@ -218,15 +252,17 @@ export function parseTradebook(csvContent: string): TradeRecord[] {
  * - Deduplicates by tradeId (keeps first occurrence)
  * - Sorts chronologically by tradeDate ascending
  *
- * @param tradeLists - Array of TradeRecord arrays from multiple CSV files
- * @returns Single merged array of unique TradeRecord objects sorted by date
+ * Works for both equity (TradeRecord) and F&O (DerivativeTrade) lists.
+ *
+ * @param tradeLists - Array of trade arrays from multiple CSV files
+ * @returns Single merged array of unique trades sorted by date
  */
-export function mergeTradebooks(tradeLists: TradeRecord[][]): TradeRecord[] {
+export function mergeTradebooks<T extends TradeRecord | DerivativeTrade>(tradeLists: T[][]): T[] {
 	// Flatten all trade lists into a single array
 	const allTrades = tradeLists.flat();
 
 	// Deduplicate by tradeId using a Map (keeps first occurrence)
-	const uniqueTradesMap = new Map<string, TradeRecord>();
+	const uniqueTradesMap = new Map<string, T>();
 
 	for (const trade of allTrades) {
 		if (!uniqueTradesMap.has(trade.tradeId)) {
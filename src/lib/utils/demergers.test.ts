@@ -0,0 +1,110 @@
+/**
+ * Unit tests for demergers
+ * Tests validation and splitting parent lots into resulting company lots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { describeDemerger, getDemergersForHolding, splitLotsForDemerger, validateDemerger } from './demergers';
+import type { Demerger } from '$lib/types';
+
+/**
+ * Helper to create a 1:1 demerger moving 4.68% of cost to the resulting company
+ */
+function createDemerger(overrides: Partial<Demerger> = {}): Demerger {
+	return {
+		id: 'dm1',
+		parentSymbol: 'RELIANCE',
+		parentIsin: 'INE002A01018',
+		resultingSymbol: 'JIOFIN',
+		resultingIsin: 'INE758E01017',
+		recordDate: new Date(2023, 6, 20),
+		ratioFrom: 1,
+		ratioTo: 1,
+		costShare: 0.0468,
+		...overrides
+	};
+}
+
+describe('validateDemerger', () => {
+	it('should accept a complete demerger', () => {
+		expect(validateDemerger(createDemerger())).toBeNull();
+	});
+
+	it('should reject a cost split outside 0-100%', () => {
+		expect(validateDemerger(createDemerger({ costShare: 0 }))).toContain('between 0% and 100%');
+		expect(validateDemerger(createDemerger({ costShare: 1 }))).toContain('between 0% and 100%');
+	});
+
+	it('should reject a resulting company that is the parent', () => {
+		expect(validateDemerger(createDemerger({ resultingIsin: 'INE002A01018' }))).toContain('must differ');
+	});
+});
+
+describe('getDemergersForHolding', () => {
+	it('should match on ISIN and fall back to symbol', () => {
+		const demerger = createDemerger();
+
+		expect(getDemergersForHolding([demerger], 'INE002A01018', 'RIL')).toEqual([demerger]);
+		expect(getDemergersForHolding([demerger], '', 'reliance')).toEqual([demerger]);
+		expect(getDemergersForHolding([demerger], 'INE758E01017', 'RELIANCE')).toEqual([]);
+	});
+});
+
+describe('splitLotsForDemerger', () => {
+	it('should apportion cost and grandfathered FMV while keeping purchase dates', () => {
+		const lot = {
+			quantity: 10,
+			purchaseDate: new Date(2017, 0, 5),
+			purchasePrice: 1000,
+			grandfatheredFmv: 1200,
+			exchange: 'NSE'
+		};
+
+		const { parentLots, resultingLots } = splitLotsForDemerger(
+			[lot],
+			createDemerger({ ratioFrom: 2, ratioTo: 1, costShare: 0.25 })
+		);
+
+		expect(parentLots).toEqual([{ ...lot, purchasePrice: 750, grandfatheredFmv: 900 }]);
+		expect(resultingLots).toEqual([{ ...lot, quantity: 5, purchasePrice: 500, grandfatheredFmv: 600 }]);
+	});
+
+	it('should allot whole shares oldest lot first and keep the moved cost on them', () => {
+		const older = { quantity: 4, purchaseDate: new Date(2020, 0, 5), purchasePrice: 900 };
+		const newer = { quantity: 6, purchaseDate: new Date(2021, 0, 5), purchasePrice: 1200 };
+
+		const { parentLots, resultingLots } = splitLotsForDemerger(
+			[older, newer],
+			createDemerger({ ratioFrom: 3, ratioTo: 1, costShare: 0.3 })
+		);
+
+		expect(parentLots.map((lot) => lot.quantity)).toEqual([4, 6]);
+		expect(resultingLots.map((lot) => [lot.quantity, lot.purchaseDate])).toEqual([
+			[1, older.purchaseDate],
+			[2, newer.purchaseDate]
+		]);
+		expect(resultingLots[0].purchasePrice).toBeCloseTo(4 * 900 * 0.3);
+		expect(resultingLots[1].purchasePrice).toBeCloseTo((6 * 1200 * 0.3) / 2);
+	});
+
+	it('should keep the cost of lots too small for a whole share on the shares received', () => {
+		const lots = [
+			{ quantity: 2, purchaseDate: new Date(2020, 0, 5), purchasePrice: 900 },
+			{ quantity: 1, purchaseDate: new Date(2021, 0, 5), purchasePrice: 1200 },
+			{ quantity: 1, purchaseDate: new Date(2022, 0, 5), purchasePrice: 1500 }
+		];
+
+		const { resultingLots } = splitLotsForDemerger(lots, createDemerger({ ratioFrom: 3, ratioTo: 1, costShare: 0.3 }));
+
+		expect(resultingLots).toHaveLength(1);
+		expect(resultingLots[0].quantity).toBe(1);
+		expect(resultingLots[0].purchaseDate).toEqual(new Date(2021, 0, 5));
+		expect(resultingLots[0].purchasePrice).toBeCloseTo((1800 + 1200 + 1500) * 0.3);
+	});
+});
+
+describe('describeDemerger', () => {
+	it('should show the ratio and cost split', () => {
+		expect(describeDemerger(createDemerger())).toBe('RELIANCE → JIOFIN (1:1, 4.68% of cost)');
+	});
+});
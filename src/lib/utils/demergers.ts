@@ -0,0 +1,158 @@
+/**
+ * Demergers
+ * Splits the parent's open lots into a parent lineage and a resulting
+ * company lineage, apportioning cost in the announced ratio while both
+ * keep the original acquisition dates
+ */
+
+import type { Demerger, HoldingLot } from '$lib/types';
+
+/**
+ * Validates a demerger before it is recorded
+ *
+ * @param demerger - Demerger to validate
+ * @returns Human-readable error message, or null if the demerger is valid
+ */
+export function validateDemerger(demerger: Omit<Demerger, 'id'>): string | null {
+	if (!demerger.parentSymbol?.trim() && !demerger.parentIsin?.trim()) {
+		return 'The parent symbol or ISIN is required';
+	}
+
+	if (!demerger.resultingSymbol?.trim()) {
+		return 'The resulting company symbol is required';
+	}
+
+	const sameSymbol =
+		demerger.parentSymbol.trim().toUpperCase() === demerger.resultingSymbol.trim().toUpperCase();
+	const sameIsin = demerger.parentIsin.trim().toUpperCase() === demerger.resultingIsin.trim().toUpperCase();
+	if (sameSymbol || (sameIsin && demerger.parentIsin.trim() !== '')) {
+		return 'The resulting company must differ from the parent';
+	}
+
+	if (!(demerger.recordDate instanceof Date) || isNaN(demerger.recordDate.getTime())) {
+		return 'A valid record date is required';
+	}
+
+	if (!(demerger.ratioFrom > 0) || !(demerger.ratioTo > 0)) {
+		return 'Entitlement ratio values must be positive numbers';
+	}
+
+	if (!(demerger.costShare > 0 && demerger.costShare < 1)) {
+		return 'The cost moved to the resulting company must be between 0% and 100%';
+	}
+
+	return null;
+}
+
+/**
+ * Checks whether a demerger splits a holding
+ * Matches on ISIN when both sides have one, otherwise falls back to symbol
+ */
+function demergerMatchesHolding(demerger: Demerger, isin: string, symbol: string): boolean {
+	if (demerger.parentIsin && isin) {
+		return demerger.parentIsin === isin;
+	}
+	return demerger.parentSymbol.toUpperCase() === symbol.toUpperCase();
+}
+
+/**
+ * Returns the demergers that split a holding, sorted by record date
+ *
+ * @param demergers - All recorded demergers
+ * @param isin - ISIN of the holding (may be empty)
+ * @param symbol - Trading symbol of the holding
+ * @returns Matching demergers in chronological order
+ */
+export function getDemergersForHolding(demergers: Demerger[], isin: string, symbol: string): Demerger[] {
+	return demergers
+		.filter((demerger) => demergerMatchesHolding(demerger, isin, symbol))
+		.sort((a, b) => a.recordDate.getTime() - b.recordDate.getTime());
+}
+
+/**
+ * Lots on each side of a demerger
+ */
+export interface DemergerSplit {
+	/** Parent lots with their cost reduced by the share moved out */
+	parentLots: HoldingLot[];
+	/** Resulting company lots in the parent's FIFO order (parent lots too small for a whole share get none) */
+	resultingLots: HoldingLot[];
+}
+
+/**
+ * Splits open parent lots into parent and resulting company lots
+ *
+ * Each parent lot keeps its quantity and gives up costShare of its cost. The
+ * entitlement is ratioTo/ratioFrom shares per parent share on the total held,
+ * rounded down to whole shares (fractions are settled in cash), and is spread
+ * over the parent lots oldest first: each lot gets the whole shares its
+ * cumulative quantity earns. The cost given up by a lot moves to its resulting
+ * lot; a lot that earns no whole share passes its cost on to the next one, so
+ * the whole apportioned cost stays on the shares received. A grandfathered
+ * 31 Jan 2018 FMV is apportioned the same way. Resulting lots keep the parent
+ * lot's acquisition date.
+ *
+ * @param lots - Parent lots open on the record date
+ * @param demerger - Demerger being applied
+ * @returns Parent and resulting company lots
+ */
+export function splitLotsForDemerger(lots: HoldingLot[], demerger: Demerger): DemergerSplit {
+	const retained = 1 - demerger.costShare;
+	const resultingLots: HoldingLot[] = [];
+	let heldQuantity = 0;
+	let allotted = 0;
+	// Cost and FMV moved out of parent lots that have not yet earned a whole share
+	let pendingCost = 0;
+	let pendingFmv = 0;
+
+	for (const lot of lots) {
+		heldQuantity += lot.quantity;
+		const quantity = Math.floor((heldQuantity * demerger.ratioTo) / demerger.ratioFrom) - allotted;
+		pendingCost += lot.quantity * lot.purchasePrice * demerger.costShare;
+		pendingFmv += lot.quantity * (lot.grandfatheredFmv ?? lot.purchasePrice) * demerger.costShare;
+
+		if (quantity <= 0) {
+			continue;
+		}
+
+		resultingLots.push({
+			...lot,
+			quantity,
+			purchasePrice: pendingCost / quantity,
+			...(lot.grandfatheredFmv !== undefined && { grandfatheredFmv: pendingFmv / quantity })
+		});
+		allotted += quantity;
+		pendingCost = 0;
+		pendingFmv = 0;
+	}
+
+	// Cost of the newest lots that earned no whole share stays with the last shares received
+	const last = resultingLots.at(-1);
+	if (last && pendingCost > 0) {
+		const total = last.quantity * last.purchasePrice + pendingCost;
+		resultingLots[resultingLots.length - 1] = {
+			...last,
+			purchasePrice: total / last.quantity,
+			...(last.grandfatheredFmv !== undefined && {
+				grandfatheredFmv: (last.quantity * last.grandfatheredFmv + pendingFmv) / last.quantity
+			})
+		};
+	}
+
+	return {
+		parentLots: lots.map((lot) => ({
+			...lot,
+			purchasePrice: lot.purchasePrice * retained,
+			...(lot.grandfatheredFmv !== undefined && { grandfatheredFmv: lot.grandfatheredFmv * retained })
+		})),
+		resultingLots
+	};
+}
+
+/**
+ * Formats a demerger for display (e.g., "RELIANCE → JIOFIN (1:1, 4.68% of cost)")
+ */
+export function describeDemerger(demerger: Demerger): string {
+	const percent = Number((demerger.costShare * 100).toFixed(2));
+	return `${demerger.parentSymbol || demerger.parentIsin} → ${demerger.resultingSymbol} (${demerger.ratioFrom}:${demerger.ratioTo}, ${percent}% of cost)`;
+}
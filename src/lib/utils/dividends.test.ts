@@ -0,0 +1,127 @@
+/**
+ * Unit tests for dividends
+ * Tests dividend statement parsing, linking dividends to holdings and FY summaries
+ */
+
+import { describe, it, expect } from 'vitest';
+import { attachDividendsToHoldings, parseDividendStatement, summarizeDividendIncome } from './dividends';
+import type { DividendRecord, Holding, SymbolChange } from '$lib/types';
+
+/**
+ * Helper to create a dividend record
+ */
+function createDividend(overrides: Partial<DividendRecord> = {}): DividendRecord {
+	return {
+		id: 'div1',
+		symbol: 'ITC',
+		isin: 'INE154A01025',
+		exDate: new Date(2025, 5, 4),
+		quantity: 100,
+		dividendPerShare: 7.85,
+		amount: 785,
+		netAmount: 706.5,
+		...overrides
+	};
+}
+
+/**
+ * Helper to create a holding of 100 shares at ₹400
+ */
+function createHolding(overrides: Partial<Holding> = {}): Holding {
+	return {
+		symbol: 'ITC',
+		isin: 'INE154A01025',
+		exchange: 'NSE',
+		lots: [],
+		totalQuantity: 100,
+		avgPurchasePrice: 400,
+		oldestPurchaseDate: new Date(2023, 0, 2),
+		newestPurchaseDate: new Date(2023, 0, 2),
+		classification: 'LONG_TERM',
+		...overrides
+	};
+}
+
+describe('parseDividendStatement', () => {
+	it('should parse a Console statement, skipping the preamble and total line', () => {
+		const csv = [
+			'Client ID,AB1234',
+			'Dividend Statement from 2025-04-01 to 2026-03-31',
+			'',
+			'Symbol,ISIN,Ex-date,Quantity,Dividend Per Share,Net Dividend Amount',
+			'itc,INE154A01025,2025-06-04,100,7.85,706.5',
+			'INFY,INE009A01021,not-a-date,10,22,198',
+			'Total,,,,,904.5'
+		].join('\n');
+
+		const { dividends, issues } = parseDividendStatement(csv);
+
+		expect(dividends).toEqual([
+			{
+				symbol: 'ITC',
+				isin: 'INE154A01025',
+				exDate: new Date(2025, 5, 4),
+				quantity: 100,
+				dividendPerShare: 7.85,
+				amount: 785,
+				netAmount: 706.5
+			}
+		]);
+		expect(issues).toEqual([{ row: 6, column: 'ex-date', value: 'not-a-date', reason: 'Invalid date' }]);
+	});
+
+	it('should reject files without dividend amounts', () => {
+		expect(() => parseDividendStatement('Symbol,Ex-date\nITC,2025-06-04')).toThrow('Net Dividend Amount');
+	});
+});
+
+describe('attachDividendsToHoldings', () => {
+	it('should total dividends per holding and compute trailing 12-month yield on cost', () => {
+		const dividends = [
+			createDividend({ exDate: new Date(2024, 5, 4), amount: 625 }),
+			createDividend({ id: 'div2', exDate: new Date(2025, 5, 4), amount: 800 })
+		];
+
+		const [holding] = attachDividendsToHoldings([createHolding()], dividends, [], new Date(2025, 11, 1));
+
+		expect(holding.dividendsReceived).toBe(1425);
+		expect(holding.dividendYield).toBeCloseTo(2, 6);
+	});
+
+	it('should follow symbol changes to the holding that trades today', () => {
+		const merger: SymbolChange = {
+			id: 'sc1',
+			type: 'MERGER',
+			oldSymbol: 'HDFC',
+			oldIsin: 'INE001A01036',
+			newSymbol: 'HDFCBANK',
+			newIsin: 'INE040A01034',
+			effectiveDate: new Date(2023, 6, 13),
+			ratioFrom: 25,
+			ratioTo: 42
+		};
+		const dividend = createDividend({ symbol: 'HDFC', isin: 'INE001A01036', exDate: new Date(2023, 4, 16) });
+
+		const [holding, other] = attachDividendsToHoldings(
+			[createHolding({ symbol: 'HDFCBANK', isin: 'INE040A01034' }), createHolding()],
+			[dividend],
+			[merger]
+		);
+
+		expect(holding.dividendsReceived).toBe(785);
+		expect(other.dividendsReceived).toBeUndefined();
+	});
+});
+
+describe('summarizeDividendIncome', () => {
+	it('should include only dividends from the FY start and report TDS', () => {
+		const summary = summarizeDividendIncome(
+			[createDividend(), createDividend({ id: 'div0', exDate: new Date(2025, 2, 10) })],
+			new Date(2025, 3, 1)
+		);
+
+		expect(summary.total).toBe(785);
+		expect(summary.tds).toBeCloseTo(78.5, 6);
+		expect(summary.entries.map((entry) => entry.id)).toEqual(['div1']);
+	});
+});
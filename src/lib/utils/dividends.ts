@@ -0,0 +1,198 @@
+/**
+ * Dividends
+ * Parses Zerodha Console dividend statements and links dividends to
+ * holdings by ISIN for per-holding totals, yield and FY dividend income
+ */
+
+import Papa from 'papaparse';
+import { subMonths } from 'date-fns';
+import type {
+	DividendIncomeSummary,
+	DividendRecord,
+	Holding,
+	ParseIssue,
+	SymbolChange
+} from '$lib/types';
+import { IMPORT_DATE_FORMATS, findColumn, parseAmount, parseDateWithFormats } from '$lib/utils/brokers/shared';
+import { resolveCurrentIdentity } from '$lib/utils/symbol-history';
+
+/**
+ * Column names (lowercased) accepted for each field, in order of preference
+ */
+const DIVIDEND_COLUMNS = {
+	exDate: ['ex-date', 'ex date', 'ex_date'],
+	quantity: ['quantity', 'qty'],
+	dividendPerShare: ['dividend per share', 'dividend_per_share'],
+	netAmount: ['net dividend amount', 'net amount', 'amount']
+} as const;
+
+/**
+ * Result of parsing a dividend statement
+ */
+export interface DividendParseResult {
+	/** Dividends found in the statement, without IDs */
+	dividends: Omit<DividendRecord, 'id'>[];
+	/** Rows that were skipped because a value failed validation */
+	issues: ParseIssue[];
+}
+
+/**
+ * Parses a Zerodha Console dividend statement
+ *
+ * Needs Symbol and Ex-date columns, plus either Quantity with Dividend Per Share
+ * or Net Dividend Amount. The gross (taxable) amount is quantity × dividend per
+ * share; when either is missing the net amount is used as the gross. Any
+ * summary lines above the column header are ignored.
+ *
+ * @param csvContent - Raw CSV content as string
+ * @returns Parsed dividends and rows that could not be used
+ * @throws Error if the file is not a dividend statement
+ */
+export function parseDividendStatement(csvContent: string): DividendParseResult {
+	// Skip report preamble (client ID, statement period, ...) above the header row
+	const lines = csvContent.split(/\r?\n/);
+	const headerIndex = lines.findIndex((line) => /^"?symbol"?\s*,/i.test(line.trim()));
+	if (headerIndex === -1) {
+		throw new Error('Not a dividend statement: missing Symbol column');
+	}
+
+	const result = Papa.parse<Record<string, string>>(lines.slice(headerIndex).join('\n'), {
+		header: true,
+		skipEmptyLines: true,
+		transformHeader: (header) => header.toLowerCase().trim()
+	});
+
+	const fields = result.meta.fields ?? [];
+	const exDateColumn = findColumn(fields, DIVIDEND_COLUMNS.exDate);
+	if (!exDateColumn) {
+		throw new Error('Not a dividend statement: missing Ex-date column');
+	}
+
+	const quantityColumn = findColumn(fields, DIVIDEND_COLUMNS.quantity);
+	const perShareColumn = findColumn(fields, DIVIDEND_COLUMNS.dividendPerShare);
+	const netAmountColumn = findColumn(fields, DIVIDEND_COLUMNS.netAmount);
+	if (!netAmountColumn && !(quantityColumn && perShareColumn)) {
+		throw new Error('Not a dividend statement: missing Net Dividend Amount or Dividend Per Share column');
+	}
+
+	const dividends: Omit<DividendRecord, 'id'>[] = [];
+	const issues: ParseIssue[] = [];
+
+	result.data.forEach((row, index) => {
+		// Row numbers are relative to the file, including any preamble and the header
+		const rowNumber = headerIndex + index + 2;
+		const symbol = row['symbol']?.trim().toUpperCase() ?? '';
+
+		// Statements end with a "Total" line
+		if (!symbol || symbol === 'TOTAL') {
+			return;
+		}
+
+		const exDate = parseDateWithFormats(row[exDateColumn] ?? '', IMPORT_DATE_FORMATS);
+		if (!exDate) {
+			issues.push({ row: rowNumber, column: exDateColumn, value: row[exDateColumn] ?? '', reason: 'Invalid date' });
+			return;
+		}
+
+		const quantity = quantityColumn ? parseAmount(row[quantityColumn]) : 0;
+		const dividendPerShare = perShareColumn ? parseAmount(row[perShareColumn]) : 0;
+		const grossAmount = quantity * dividendPerShare;
+		const netAmount = netAmountColumn ? parseAmount(row[netAmountColumn]) : grossAmount;
+		const amount = grossAmount > 0 ? grossAmount : netAmount;
+
+		if (!(amount > 0) || !(netAmount >= 0)) {
+			const column = netAmountColumn ?? perShareColumn!;
+			issues.push({
+				row: rowNumber,
+				column,
+				value: row[column] ?? '',
+				reason: 'Dividend amount must be a positive number'
+			});
+			return;
+		}
+
+		dividends.push({
+			symbol,
+			isin: row['isin']?.trim().toUpperCase() ?? '',
+			exDate,
+			quantity,
+			dividendPerShare,
+			amount,
+			netAmount
+		});
+	});
+
+	return { dividends, issues };
+}
+
+/**
+ * Adds dividends received and trailing 12-month yield on cost to each holding
+ *
+ * A dividend belongs to the holding with the same ISIN (or symbol when either
+ * side has no ISIN). Dividends paid under an old symbol follow recorded renames
+ * and mergers to the holding that trades today.
+ *
+ * @param holdings - Holdings from the FIFO replay
+ * @param dividends - Recorded dividends
+ * @param symbolChanges - Recorded ticker renames and mergers
+ * @param asOf - Date the trailing 12-month window ends on (defaults to today)
+ * @returns Holdings with `dividendsReceived` and `dividendYield` set where dividends exist
+ */
+export function attachDividendsToHoldings(
+	holdings: Holding[],
+	dividends: DividendRecord[],
+	symbolChanges: SymbolChange[] = [],
+	asOf: Date = new Date()
+): Holding[] {
+	if (dividends.length === 0) {
+		return holdings;
+	}
+
+	const yieldFrom = subMonths(asOf, 12);
+	const resolved = dividends.map((dividend) => ({
+		dividend,
+		identity: resolveCurrentIdentity(symbolChanges, dividend)
+	}));
+
+	return holdings.map((holding) => {
+		const matching = resolved
+			.filter(({ identity }) =>
+				identity.isin && holding.isin ? identity.isin === holding.isin : identity.symbol === holding.symbol
+			)
+			.map(({ dividend }) => dividend);
+		if (matching.length === 0) {
+			return holding;
+		}
+
+		const dividendsReceived = matching.reduce((sum, dividend) => sum + dividend.amount, 0);
+		const trailing = matching
+			.filter((dividend) => dividend.exDate > yieldFrom && dividend.exDate <= asOf)
+			.reduce((sum, dividend) => sum + dividend.amount, 0);
+		const cost = holding.totalQuantity * holding.avgPurchasePrice;
+
+		return {
+			...holding,
+			dividendsReceived,
+			dividendYield: cost > 0 ? (trailing / cost) * 100 : 0
+		};
+	});
+}
+
+/**
+ * Summarizes dividend income with an ex-date on or after the given date
+ *
+ * @param dividends - Recorded dividends
+ * @param fromDate - Start of the financial year
+ * @returns Gross dividend income, TDS and the FY's dividends
+ */
+export function summarizeDividendIncome(dividends: DividendRecord[], fromDate: Date): DividendIncomeSummary {
+	const entries = dividends
+		.filter((dividend) => dividend.exDate >= fromDate)
+		.sort((a, b) => a.exDate.getTime() - b.exDate.getTime());
+
+	return {
+		total: entries.reduce((sum, dividend) => sum + dividend.amount, 0),
+		tds: entries.reduce((sum, dividend) => sum + Math.max(0, dividend.amount - dividend.netAmount), 0),
+		entries
+	};
+}
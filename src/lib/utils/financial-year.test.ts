@@ -0,0 +1,27 @@
+/**
+ * Unit tests for financial year helpers
+ * Tests FY start dates, membership and labels around 1 April
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getFyLabel, getFyStartDate, isInFy } from './financial-year';
+
+describe('financial year', () => {
+	it('should start the FY on 1 April of the year for Apr-Dec dates and the previous year for Jan-Mar', () => {
+		expect(getFyStartDate(new Date(2025, 3, 1))).toEqual(new Date(2025, 3, 1));
+		expect(getFyStartDate(new Date(2025, 2, 31))).toEqual(new Date(2024, 3, 1));
+		expect(getFyStartDate(new Date(2025, 11, 31))).toEqual(new Date(2025, 3, 1));
+	});
+
+	it('should include 31 March and exclude the next 1 April', () => {
+		const fyStart = new Date(2024, 3, 1);
+		expect(isInFy(new Date(2025, 2, 31, 15, 30), fyStart)).toBe(true);
+		expect(isInFy(new Date(2025, 3, 1), fyStart)).toBe(false);
+		expect(isInFy(new Date(2024, 2, 31), fyStart)).toBe(false);
+	});
+
+	it('should label the FY with both calendar years', () => {
+		expect(getFyLabel(new Date(2025, 0, 15))).toBe('FY 2024-25');
+		expect(getFyLabel(new Date(2099, 5, 1))).toBe('FY 2099-00');
+	});
+});
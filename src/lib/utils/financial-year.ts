@@ -0,0 +1,37 @@
+/**
+ * Financial Year
+ * Indian financial years run from 1 April to 31 March and are labelled by
+ * both calendar years (e.g., FY 2024-25)
+ */
+
+import { addYears } from 'date-fns';
+
+/**
+ * Gets the start date of the financial year containing a date
+ *
+ * @param date - Date within the FY (defaults to today)
+ * @returns 1 April of the FY
+ */
+export function getFyStartDate(date: Date = new Date()): Date {
+	// If Jan-Mar, FY started previous year April; if Apr-Dec, this year April
+	const fyStartYear = date.getMonth() < 3 ? date.getFullYear() - 1 : date.getFullYear();
+	return new Date(fyStartYear, 3, 1);
+}
+
+/**
+ * Checks whether a date falls in the financial year starting on `fyStart`
+ */
+export function isInFy(date: Date, fyStart: Date): boolean {
+	return date >= fyStart && date < addYears(fyStart, 1);
+}
+
+/**
+ * Formats the label of the financial year containing a date
+ *
+ * @param date - Date within the FY
+ * @returns Label such as "FY 2024-25"
+ */
+export function getFyLabel(date: Date): string {
+	const fyStartYear = getFyStartDate(date).getFullYear();
+	return `FY ${fyStartYear}-${(fyStartYear + 1).toString().slice(-2)}`;
+}
@@ -0,0 +1,107 @@
+/**
+ * Unit tests for the F&O calculator
+ * Tests instrument detection, per-contract FIFO P&L and turnover
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	AUDIT_TURNOVER_THRESHOLD,
+	getDerivativeInstrument,
+	summarizeDerivativeIncome
+} from './fno-calculator';
+import type { DerivativeTrade } from '$lib/types';
+
+const FY_START = new Date(2024, 3, 1);
+
+/**
+ * Helper to create a derivative trade
+ */
+function createTrade(
+	tradeId: string,
+	symbol: string,
+	tradeType: 'buy' | 'sell',
+	quantity: number,
+	price: number,
+	tradeDate: Date
+): DerivativeTrade {
+	return {
+		tradeId,
+		symbol,
+		tradeDate,
+		exchange: 'NFO',
+		instrument: getDerivativeInstrument(symbol),
+		tradeType,
+		quantity,
+		price
+	};
+}
+
+describe('getDerivativeInstrument', () => {
+	it('should detect options by a strike followed by CE or PE', () => {
+		expect(getDerivativeInstrument('NIFTY24JAN21000CE')).toBe('OPTION');
+		expect(getDerivativeInstrument('BANKNIFTY24JAN48000PE')).toBe('OPTION');
+		expect(getDerivativeInstrument('NIFTY24JANFUT')).toBe('FUTURE');
+	});
+});
+
+describe('summarizeDerivativeIncome', () => {
+	it('should match long and short positions FIFO per contract', () => {
+		const trades = [
+			createTrade('F1', 'NIFTY24JUNFUT', 'buy', 50, 22000, new Date(2024, 4, 2)),
+			createTrade('F2', 'NIFTY24JUNFUT', 'buy', 50, 22200, new Date(2024, 4, 3)),
+			createTrade('F3', 'NIFTY24JUNFUT', 'sell', 75, 22400, new Date(2024, 4, 10)),
+			// Short option: sold first, bought back cheaper
+			createTrade('O1', 'NIFTY24JUN23000CE', 'sell', 100, 120, new Date(2024, 4, 6)),
+			createTrade('O2', 'NIFTY24JUN23000CE', 'buy', 100, 150, new Date(2024, 4, 20))
+		];
+
+		const summary = summarizeDerivativeIncome(trades, FY_START);
+
+		expect(summary.contracts).toEqual([
+			{
+				symbol: 'NIFTY24JUN23000CE',
+				instrument: 'OPTION',
+				realizedPnl: -3000,
+				turnover: 3000,
+				closedQuantity: 100,
+				openQuantity: 0
+			},
+			{
+				symbol: 'NIFTY24JUNFUT',
+				instrument: 'FUTURE',
+				// 50 × 400 + 25 × 200
+				realizedPnl: 25000,
+				turnover: 25000,
+				closedQuantity: 75,
+				openQuantity: 25
+			}
+		]);
+		expect(summary.netPnl).toBe(22000);
+		expect(summary.turnover).toBe(28000);
+		expect(summary.auditThresholdExceeded).toBe(false);
+	});
+
+	it('should count only closing trades in the financial year', () => {
+		const trades = [
+			createTrade('F1', 'NIFTY24APRFUT', 'buy', 50, 22000, new Date(2024, 2, 20)),
+			createTrade('F2', 'NIFTY24APRFUT', 'sell', 25, 22100, new Date(2024, 2, 27)),
+			createTrade('F3', 'NIFTY24APRFUT', 'sell', 25, 21900, new Date(2024, 3, 5)),
+			createTrade('F4', 'NIFTY24MARFUT', 'buy', 50, 22000, new Date(2024, 1, 20))
+		];
+
+		const summary = summarizeDerivativeIncome(trades, FY_START);
+
+		expect(summary.contracts).toHaveLength(1);
+		expect(summary.contracts[0].realizedPnl).toBe(-2500);
+		expect(summary.loss).toBe(2500);
+	});
+
+	it('should flag turnover above the Section 44AB threshold', () => {
+		const trades = [
+			createTrade('F1', 'NIFTY24JUNFUT', 'buy', 1000, 20000, new Date(2024, 4, 2)),
+			createTrade('F2', 'NIFTY24JUNFUT', 'sell', 1000, 20000 + AUDIT_TURNOVER_THRESHOLD / 1000 + 1, new Date(2024, 4, 3))
+		];
+
+		expect(summarizeDerivativeIncome(trades, FY_START).auditThresholdExceeded).toBe(true);
+	});
+});
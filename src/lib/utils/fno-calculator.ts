@@ -0,0 +1,139 @@
+/**
+ * F&O Calculator
+ * Computes realized profit/loss and Section 44AB turnover for futures and
+ * options trades, which are taxed as non-speculative business income
+ */
+
+import type {
+	DerivativeContractPnl,
+	DerivativeIncomeSummary,
+	DerivativeInstrument,
+	DerivativeTrade
+} from '$lib/types';
+
+/**
+ * Section 44AB audit threshold for business turnover (₹10 crore)
+ * Applies when cash receipts and payments are within 5% of the total,
+ * which holds for exchange-traded derivatives settled through a broker
+ */
+export const AUDIT_TURNOVER_THRESHOLD = 100000000;
+
+/**
+ * Open units of a contract at one price (negative quantity for a short position)
+ */
+interface OpenPosition {
+	quantity: number;
+	price: number;
+}
+
+/**
+ * Derives the instrument type from a contract symbol
+ * Option symbols end in the strike followed by CE or PE (e.g., NIFTY24JAN21000CE)
+ *
+ * @param symbol - Contract trading symbol
+ * @returns 'OPTION' for calls and puts, otherwise 'FUTURE'
+ */
+export function getDerivativeInstrument(symbol: string): DerivativeInstrument {
+	return /\d(CE|PE)$/i.test(symbol.trim()) ? 'OPTION' : 'FUTURE';
+}
+
+/**
+ * Replays one contract's trades FIFO, long or short
+ * Each trade first closes open units on the opposite side; any remainder opens a new position.
+ * Only trades on or after `fromDate` count towards realized P&L and turnover.
+ */
+function calculateContractPnl(trades: DerivativeTrade[], fromDate: Date): DerivativeContractPnl {
+	const sorted = [...trades].sort((a, b) => a.tradeDate.getTime() - b.tradeDate.getTime());
+	const open: OpenPosition[] = [];
+	let realizedPnl = 0;
+	let turnover = 0;
+	let closedQuantity = 0;
+
+	for (const trade of sorted) {
+		const direction = trade.tradeType === 'buy' ? 1 : -1;
+		let remaining = trade.quantity;
+		let tradePnl = 0;
+		let tradeClosed = 0;
+
+		while (remaining > 0 && open.length > 0 && Math.sign(open[0].quantity) !== direction) {
+			const position = open[0];
+			const quantity = Math.min(remaining, Math.abs(position.quantity));
+			// Closing a long earns sell - buy; closing a short earns the opening sell - this buy
+			tradePnl += (trade.price - position.price) * quantity * -direction;
+			tradeClosed += quantity;
+			remaining -= quantity;
+			position.quantity += quantity * direction;
+
+			if (position.quantity === 0) {
+				open.shift();
+			}
+		}
+
+		if (remaining > 0) {
+			open.push({ quantity: remaining * direction, price: trade.price });
+		}
+
+		if (trade.tradeDate >= fromDate) {
+			realizedPnl += tradePnl;
+			turnover += Math.abs(tradePnl);
+			closedQuantity += tradeClosed;
+		}
+	}
+
+	return {
+		symbol: sorted[0].symbol,
+		instrument: sorted[0].instrument,
+		realizedPnl,
+		turnover,
+		closedQuantity,
+		openQuantity: open.reduce((sum, position) => sum + position.quantity, 0)
+	};
+}
+
+/**
+ * Summarizes futures and options trades into business income for the FY
+ *
+ * Turnover follows the ICAI Guidance Note on Tax Audit: the sum of favorable
+ * and unfavorable differences on each closing trade, for futures and options alike.
+ * Positions still open (or settled at expiry outside the tradebook) add nothing.
+ * Contracts with no trade on or after `fromDate` are left out.
+ *
+ * @param trades - Derivative trades from all uploaded tradebooks
+ * @param fromDate - Only closing trades on or after this date count (start of the FY)
+ * @returns Net income, turnover, audit flag and per-contract breakdown
+ */
+export function summarizeDerivativeIncome(trades: DerivativeTrade[], fromDate: Date): DerivativeIncomeSummary {
+	const byContract = new Map<string, DerivativeTrade[]>();
+	for (const trade of trades) {
+		const group = byContract.get(trade.symbol) ?? [];
+		group.push(trade);
+		byContract.set(trade.symbol, group);
+	}
+
+	// Contracts traded only in earlier FYs have nothing to report for this one
+	const contracts = Array.from(byContract.values())
+		.filter((group) => group.some((trade) => trade.tradeDate >= fromDate))
+		.map((group) => calculateContractPnl(group, fromDate))
+		.sort((a, b) => a.symbol.localeCompare(b.symbol));
+
+	let profit = 0;
+	let loss = 0;
+	let turnover = 0;
+	for (const contract of contracts) {
+		if (contract.realizedPnl >= 0) {
+			profit += contract.realizedPnl;
+		} else {
+			loss += Math.abs(contract.realizedPnl);
+		}
+		turnover += contract.turnover;
+	}
+
+	return {
+		profit,
+		loss,
+		netPnl: profit - loss,
+		turnover,
+		auditThresholdExceeded: turnover > AUDIT_TURNOVER_THRESHOLD,
+		contracts
+	};
+}
@@ -0,0 +1,155 @@
+/**
+ * Unit tests for gain harvesting
+ * Tests the exemption budget, FIFO lot selection and sizing of sell orders
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getGainHarvestBudget, getUnabsorbedLosses, planGainHarvest } from './gain-harvesting';
+import type { Holding, HoldingLot, RealizedGainEntry } from '$lib/types';
+
+const AS_OF = new Date(2026, 9, 19);
+
+/**
+ * Helper to create a lot bought in 2024, long-term on AS_OF
+ */
+function createLot(quantity: number, purchasePrice: number, overrides: Partial<HoldingLot> = {}): HoldingLot {
+	return { quantity, purchaseDate: new Date(2024, 0, 10), purchasePrice, ...overrides };
+}
+
+/**
+ * Helper to create a priced holding from its lots
+ */
+function createHolding(lots: HoldingLot[], currentPrice: number, overrides: Partial<Holding> = {}): Holding {
+	const totalQuantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+	return {
+		symbol: 'INFY',
+		isin: 'INE009A01021',
+		exchange: 'NSE',
+		lots,
+		totalQuantity,
+		avgPurchasePrice: lots.reduce((sum, lot) => sum + lot.quantity * lot.purchasePrice, 0) / totalQuantity,
+		oldestPurchaseDate: lots[0].purchaseDate,
+		newestPurchaseDate: lots[lots.length - 1].purchaseDate,
+		classification: 'LONG_TERM',
+		currentPrice,
+		...overrides
+	};
+}
+
+describe('planGainHarvest', () => {
+	it('should stop at the first short-term lot in FIFO order', () => {
+		const holding = createHolding(
+			[createLot(10, 100), createLot(5, 100, { purchaseDate: new Date(2026, 5, 1) }), createLot(10, 100)],
+			200
+		);
+
+		const plan = planGainHarvest([holding], 125000, AS_OF);
+
+		expect(plan.orders).toEqual([
+			{
+				symbol: 'INFY',
+				exchange: 'NSE',
+				quantity: 10,
+				purchasePrice: 100,
+				purchaseDate: new Date(2024, 0, 10),
+				currentPrice: 200,
+				expectedLoss: -1000
+			}
+		]);
+		expect(plan.totalGain).toBe(1000);
+	});
+
+	it('should stop at the first lot not in profit or bought without STT', () => {
+		const lossLot = planGainHarvest([createHolding([createLot(10, 100), createLot(10, 300), createLot(10, 50)], 200)], 125000, AS_OF);
+		const offMarket = planGainHarvest([createHolding([createLot(10, 100, { sttNotPaid: true })], 200)], 125000, AS_OF);
+
+		expect(lossLot.orders.map((order) => order.quantity)).toEqual([10]);
+		expect(offMarket.orders).toEqual([]);
+	});
+
+	it('should take whole shares of a lot up to the budget', () => {
+		const holding = createHolding([createLot(10, 100), createLot(10, 150)], 200);
+
+		const plan = planGainHarvest([holding], 1290, AS_OF);
+
+		expect(plan.orders[0].quantity).toBe(15);
+		expect(plan.orders[0].purchasePrice).toBeCloseTo((1000 + 750) / 15);
+		expect(plan.orders[0].expectedLoss).toBe(-1250);
+		expect(plan.totalGain).toBe(1250);
+	});
+
+	it('should measure gains on pre-2018 lots from the grandfathered cost', () => {
+		const holding = createHolding([createLot(100, 1000, { purchaseDate: new Date(2016, 4, 10), grandfatheredFmv: 1170 })], 1500);
+
+		const plan = planGainHarvest([holding], 125000, AS_OF);
+
+		expect(plan.orders[0].expectedLoss).toBe(-33000);
+	});
+
+	it('should give the budget to the holdings with the most gain and skip non-equity or unpriced ones', () => {
+		const plan = planGainHarvest(
+			[
+				createHolding([createLot(100, 100)], 150, { symbol: 'ITC' }),
+				createHolding([createLot(100, 100)], 300, { symbol: 'TCS' }),
+				createHolding([createLot(100, 10)], 100, { symbol: 'GOLDBEES', assetClass: 'GOLD_ETF' }),
+				createHolding([createLot(100, 10)], 100, { symbol: 'HDFCBANK', currentPrice: undefined })
+			],
+			22000,
+			AS_OF
+		);
+
+		expect(plan.orders.map((order) => [order.symbol, order.quantity])).toEqual([
+			['TCS', 100],
+			['ITC', 40]
+		]);
+		expect(plan.totalGain).toBe(22000);
+	});
+});
+
+describe('getGainHarvestBudget', () => {
+	it('should leave the exemption not used by the FY’s realized long-term gains', () => {
+		const entry: RealizedGainEntry = {
+			symbol: 'INFY',
+			exchange: 'NSE',
+			quantity: 10,
+			sellDate: new Date(2026, 5, 10),
+			sellPrice: 1500,
+			purchasePrice: 1400,
+			purchaseDate: new Date(2024, 0, 10),
+			gainLoss: 100000,
+			classification: 'LONG_TERM'
+		};
+
+		expect(getGainHarvestBudget([entry], new Date(2026, 3, 1))).toBe(25000);
+		expect(getGainHarvestBudget([{ ...entry, gainLoss: 200000 }], new Date(2026, 3, 1))).toBe(0);
+	});
+});
+
+describe('getUnabsorbedLosses', () => {
+	it('should report this FY’s short-term losses left after the realized gains', () => {
+		const ltcg: RealizedGainEntry = {
+			symbol: 'INFY',
+			exchange: 'NSE',
+			quantity: 10,
+			sellDate: new Date(2026, 5, 10),
+			sellPrice: 1500,
+			purchasePrice: 1400,
+			purchaseDate: new Date(2024, 0, 10),
+			gainLoss: 100000,
+			classification: 'LONG_TERM'
+		};
+		const stcl: RealizedGainEntry = {
+			...ltcg,
+			symbol: 'TCS',
+			purchaseDate: new Date(2026, 4, 2),
+			gainLoss: -150000,
+			classification: 'SHORT_TERM'
+		};
+		const fyStart = new Date(2026, 3, 1);
+
+		// The STCL wipes out the LTCG, leaving the exemption unused but 50,000 of loss to absorb first
+		expect(getGainHarvestBudget([ltcg, stcl], fyStart)).toBe(125000);
+		expect(getUnabsorbedLosses([ltcg, stcl], fyStart)).toEqual({ shortTerm: 50000, longTerm: 0 });
+		expect(getUnabsorbedLosses([ltcg, { ...stcl, gainLoss: -30000 }], fyStart)).toEqual({ shortTerm: 0, longTerm: 0 });
+	});
+});
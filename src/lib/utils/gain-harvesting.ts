@@ -0,0 +1,157 @@
+/**
+ * Gain Harvesting
+ * Plans sell-and-rebuy orders that book long-term gains up to the unused
+ * Section 112A exemption, raising the cost basis of the holdings tax-free
+ */
+
+import type { CapitalLosses, CarryForwardLoss, Holding, HoldingLot, RealizedGainEntry, SellOrder } from '$lib/types';
+import { classifyByAssetClass } from '$lib/utils/asset-classes';
+import { getGrandfatheredCost } from '$lib/utils/grandfathering';
+import { estimateCapitalGainsTax } from '$lib/utils/tax-estimator';
+
+/**
+ * Asset classes whose long-term gains fall under Section 112A and can be sold on the exchange
+ */
+const HARVESTABLE_ASSET_CLASSES = new Set(['EQUITY', 'EQUITY_ETF']);
+
+/**
+ * Result of planning a gain harvest
+ */
+export interface GainHarvestPlan {
+	/** One sell order per holding; expectedLoss is negative (a gain is booked) */
+	orders: SellOrder[];
+	/** Long-term gain the orders book */
+	totalGain: number;
+	/** Exemption the plan was sized to */
+	budget: number;
+}
+
+/**
+ * Gets the part of the FY's Section 112A exemption not yet used
+ * Realized gains are set off against this FY's and brought-forward losses first,
+ * so only the exemption left after that can absorb harvested gains
+ *
+ * @param entries - Realized gain entries of the FY
+ * @param fyStart - 1 April of the FY
+ * @param broughtForward - Usable losses of earlier years
+ * @returns Exemption still available, in rupees
+ */
+export function getGainHarvestBudget(
+	entries: RealizedGainEntry[],
+	fyStart: Date,
+	broughtForward: CarryForwardLoss[] = []
+): number {
+	const estimate = estimateCapitalGainsTax(entries, fyStart, { broughtForward });
+	return estimate.exemption - estimate.exemptionUsed;
+}
+
+/**
+ * Gets the losses still unabsorbed after the FY's realized gains
+ * Harvested long-term gains are set off against these (this FY's first, then
+ * brought-forward ones) before the exemption, so harvesting uses them up
+ * instead of carrying them forward
+ *
+ * @param entries - Realized gain entries of the FY
+ * @param fyStart - 1 April of the FY
+ * @param broughtForward - Usable losses of earlier years
+ * @returns Unabsorbed short- and long-term losses, in rupees
+ */
+export function getUnabsorbedLosses(
+	entries: RealizedGainEntry[],
+	fyStart: Date,
+	broughtForward: CarryForwardLoss[] = []
+): CapitalLosses {
+	const estimate = estimateCapitalGainsTax(entries, fyStart, { broughtForward });
+	return estimate.broughtForward.reduce(
+		(losses, { remaining }) => ({
+			shortTerm: losses.shortTerm + remaining.shortTerm,
+			longTerm: losses.longTerm + remaining.longTerm
+		}),
+		estimate.carryForward
+	);
+}
+
+/**
+ * Gets the lots at the head of a holding's FIFO queue that a sale today books as 112A gains
+ * A sale consumes lots oldest first, so the run ends at the first lot that is
+ * short-term, acquired without STT or not in profit
+ */
+function getHarvestableLots(holding: Holding, price: number, asOf: Date): HoldingLot[] {
+	const lots: HoldingLot[] = [];
+	for (const lot of holding.lots) {
+		const isLongTerm = classifyByAssetClass(holding.assetClass ?? 'EQUITY', lot.purchaseDate, asOf) === 'LONG_TERM';
+		if (!isLongTerm || lot.sttNotPaid || price <= getGrandfatheredCost(lot, price)) {
+			break;
+		}
+		lots.push(lot);
+	}
+	return lots;
+}
+
+/**
+ * Plans sells that book long-term gains up to the exemption budget
+ *
+ * Only exchange-traded equity (shares and equity ETFs) with a current price is
+ * considered. Holdings with the most harvestable gain go first; within a
+ * holding, whole shares are taken from the oldest lots until the budget runs
+ * out. Gains use the grandfathered cost for lots bought before 1 Feb 2018.
+ *
+ * @param holdings - Current holdings with prices
+ * @param budget - Unused Section 112A exemption (see getGainHarvestBudget)
+ * @param asOf - Sale date used to classify lots (defaults to today)
+ * @returns Sell orders and the gain they book
+ */
+export function planGainHarvest(holdings: Holding[], budget: number, asOf: Date = new Date()): GainHarvestPlan {
+	const candidates = holdings
+		.filter(
+			(holding) =>
+				holding.currentPrice !== undefined && HARVESTABLE_ASSET_CLASSES.has(holding.assetClass ?? 'EQUITY')
+		)
+		.map((holding) => {
+			const price = holding.currentPrice!;
+			const lots = getHarvestableLots(holding, price, asOf);
+			const gain = lots.reduce((sum, lot) => sum + lot.quantity * (price - getGrandfatheredCost(lot, price)), 0);
+			return { holding, price, lots, gain };
+		})
+		.filter((candidate) => candidate.lots.length > 0)
+		.sort((a, b) => b.gain - a.gain);
+
+	const orders: SellOrder[] = [];
+	let remaining = budget;
+
+	for (const { holding, price, lots } of candidates) {
+		let quantity = 0;
+		let cost = 0;
+		let gain = 0;
+
+		for (const lot of lots) {
+			const gainPerShare = price - getGrandfatheredCost(lot, price);
+			const shares = Math.min(lot.quantity, Math.floor(remaining / gainPerShare));
+			if (shares <= 0) {
+				break;
+			}
+
+			quantity += shares;
+			cost += shares * lot.purchasePrice;
+			gain += shares * gainPerShare;
+			remaining -= shares * gainPerShare;
+			if (shares < lot.quantity) {
+				break;
+			}
+		}
+
+		if (quantity > 0) {
+			orders.push({
+				symbol: holding.symbol,
+				exchange: holding.exchange,
+				quantity,
+				purchasePrice: cost / quantity,
+				purchaseDate: lots[0].purchaseDate,
+				currentPrice: price,
+				expectedLoss: -gain
+			});
+		}
+	}
+
+	return { orders, totalGain: budget - remaining, budget };
+}
@@ -0,0 +1,59 @@
+/**
+ * Unit tests for Section 112A grandfathering
+ * Tests the cost of acquisition rule and FMV assignment to pre-2018 lots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { assignGrandfatheredFmv, getGrandfatheredCost, lookupGrandfatheredFmv } from './grandfathering';
+import type { HoldingLot } from '$lib/types';
+
+const INFY_ISIN = 'INE009A01021';
+
+describe('getGrandfatheredCost', () => {
+	const lot: HoldingLot = {
+		quantity: 10,
+		purchaseDate: new Date('2016-05-10'),
+		purchasePrice: 1000,
+		grandfatheredFmv: 1170
+	};
+
+	it('should use the sale price when it lies between actual cost and FMV', () => {
+		expect(getGrandfatheredCost(lot, 1100)).toBe(1100);
+	});
+
+	it('should use the FMV when the sale price exceeds it', () => {
+		expect(getGrandfatheredCost(lot, 1500)).toBe(1170);
+	});
+
+	it('should use actual cost when the sale price is below actual cost', () => {
+		expect(getGrandfatheredCost(lot, 900)).toBe(1000);
+	});
+
+	it('should use actual cost when it is higher than the FMV', () => {
+		expect(getGrandfatheredCost({ ...lot, purchasePrice: 1300 }, 1500)).toBe(1300);
+	});
+
+	it('should use actual cost for lots without a grandfathered FMV', () => {
+		expect(getGrandfatheredCost({ ...lot, grandfatheredFmv: undefined }, 1500)).toBe(1000);
+	});
+});
+
+describe('assignGrandfatheredFmv', () => {
+	it('should attach the FMV only to lots acquired before 1 Feb 2018', () => {
+		const lots: HoldingLot[] = [
+			{ quantity: 10, purchaseDate: new Date('2018-01-31'), purchasePrice: 1100 },
+			{ quantity: 5, purchaseDate: new Date('2018-02-01T00:00:00'), purchasePrice: 1150 }
+		];
+
+		const result = assignGrandfatheredFmv(lots, INFY_ISIN);
+
+		expect(result[0].grandfatheredFmv).toBe(lookupGrandfatheredFmv(INFY_ISIN));
+		expect(result[1].grandfatheredFmv).toBeUndefined();
+	});
+
+	it('should leave lots untouched for ISINs missing from the table', () => {
+		const lots: HoldingLot[] = [{ quantity: 10, purchaseDate: new Date('2015-01-01'), purchasePrice: 100 }];
+
+		expect(assignGrandfatheredFmv(lots, 'INE000000000')).toBe(lots);
+	});
+});
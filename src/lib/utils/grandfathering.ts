@@ -0,0 +1,67 @@
+/**
+ * Section 112A Grandfathering
+ * Computes the cost of acquisition for long-term lots acquired before
+ * 1 February 2018 using the 31 January 2018 fair market value (FMV)
+ */
+
+import type { HoldingLot } from '$lib/types';
+import { GRANDFATHERED_FMV } from '$lib/data/grandfathered-fmv';
+
+/**
+ * Lots acquired before this date are eligible for grandfathering (1 Feb 2018)
+ */
+export const GRANDFATHERING_CUTOFF_DATE = new Date(2018, 1, 1);
+
+/**
+ * Looks up the 31 Jan 2018 FMV for an ISIN
+ *
+ * @param isin - ISIN the share traded under on 31 Jan 2018
+ * @returns FMV per share, or undefined if the ISIN is not in the bundled table
+ */
+export function lookupGrandfatheredFmv(isin: string): number | undefined {
+	if (!isin) {
+		return undefined;
+	}
+	return GRANDFATHERED_FMV[isin.trim().toUpperCase()];
+}
+
+/**
+ * Attaches the 31 Jan 2018 FMV to every lot acquired before the cutoff with STT paid
+ * Called once when the FIFO replay crosses 1 Feb 2018, so that earlier
+ * corporate actions are already reflected and later ones rescale the FMV
+ *
+ * @param lots - Open lots in FIFO order
+ * @param isin - ISIN of the holding
+ * @returns New array of lots with grandfatheredFmv set where applicable
+ */
+export function assignGrandfatheredFmv(lots: HoldingLot[], isin: string): HoldingLot[] {
+	const fmv = lookupGrandfatheredFmv(isin);
+	if (fmv === undefined) {
+		return lots;
+	}
+
+	// Lots acquired without STT fall outside Section 112A, so they are not grandfathered
+	return lots.map((lot) =>
+		lot.purchaseDate < GRANDFATHERING_CUTOFF_DATE && !lot.sttNotPaid ? { ...lot, grandfatheredFmv: fmv } : lot
+	);
+}
+
+/**
+ * Returns the per-share cost of acquisition for a long-term lot
+ *
+ * Section 112A: cost = higher of
+ * - the actual cost of acquisition, and
+ * - the lower of the 31 Jan 2018 FMV and the sale price
+ *
+ * Lots without a grandfathered FMV use their actual purchase price.
+ *
+ * @param lot - Lot being sold (or valued)
+ * @param salePrice - Per-share sale price (or current price for unrealized P&L)
+ * @returns Per-share cost of acquisition
+ */
+export function getGrandfatheredCost(lot: HoldingLot, salePrice: number): number {
+	if (lot.grandfatheredFmv === undefined) {
+		return lot.purchasePrice;
+	}
+	return Math.max(lot.purchasePrice, Math.min(lot.grandfatheredFmv, salePrice));
+}
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for the harvest optimizer
+ * Tests FIFO-respecting quantities, ranking by loss per rupee and each goal
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DP_CHARGE_PER_SCRIP, ROUND_TRIP_CHARGE_RATE, optimizeHarvest } from './harvest-optimizer';
+import type { Holding, HoldingLot, RealizedGainsSummary } from '$lib/types';
+
+const AS_OF = new Date(2026, 9, 19);
+
+/**
+ * Helper to create a lot bought in 2024, long-term on AS_OF
+ */
+function createLot(quantity: number, purchasePrice: number, overrides: Partial<HoldingLot> = {}): HoldingLot {
+	return { quantity, purchaseDate: new Date(2024, 0, 10), purchasePrice, ...overrides };
+}
+
+/**
+ * Helper to create a short-term lot, bought in June 2026
+ */
+function createShortTermLot(quantity: number, purchasePrice: number): HoldingLot {
+	return createLot(quantity, purchasePrice, { purchaseDate: new Date(2026, 5, 1) });
+}
+
+/**
+ * Helper to create a priced holding from its lots
+ */
+function createHolding(symbol: string, lots: HoldingLot[], currentPrice: number): Holding {
+	const totalQuantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+	return {
+		symbol,
+		isin: `INE${symbol}`,
+		exchange: 'NSE',
+		lots,
+		totalQuantity,
+		avgPurchasePrice: lots.reduce((sum, lot) => sum + lot.quantity * lot.purchasePrice, 0) / totalQuantity,
+		oldestPurchaseDate: lots[0].purchaseDate,
+		newestPurchaseDate: lots[lots.length - 1].purchaseDate,
+		classification: 'LONG_TERM',
+		currentPrice
+	};
+}
+
+/**
+ * Helper to create a realized gains summary with a net short-term gain
+ */
+function createGains(netShortTerm = 0): RealizedGainsSummary {
+	return {
+		stcg: netShortTerm,
+		stcl: 0,
+		ltcg: 0,
+		ltcl: 0,
+		netShortTerm,
+		netLongTerm: 0,
+		sttPaid: 0,
+		sttNotPaidLtcg: 0,
+		entries: []
+	};
+}
+
+describe('optimizeHarvest', () => {
+	it('should sell the profitable lots at the head of the queue to reach a loss behind them', () => {
+		const holding = createHolding('INFY', [createLot(10, 90), createLot(10, 200)], 100);
+
+		const plan = optimizeHarvest([holding], createGains(), { type: 'TARGET_LOSS', amount: 500 }, AS_OF);
+
+		expect(plan.orders).toEqual([
+			{
+				symbol: 'INFY',
+				exchange: 'NSE',
+				quantity: 16,
+				purchasePrice: (900 + 1200) / 16,
+				purchaseDate: new Date(2024, 0, 10),
+				currentPrice: 100,
+				expectedLoss: 500
+			}
+		]);
+		expect(plan.achieved).toBe(500);
+	});
+
+	it('should book the target loss from the holdings with the most loss per rupee traded', () => {
+		const plan = optimizeHarvest(
+			[createHolding('TCS', [createLot(10, 1100)], 1000), createHolding('ITC', [createLot(30, 150)], 100)],
+			createGains(),
+			{ type: 'TARGET_LOSS', amount: 1000 },
+			AS_OF
+		);
+
+		expect(plan.orders.map((order) => [order.symbol, order.quantity])).toEqual([['ITC', 20]]);
+		expect(plan.tradeValue).toBe(2000);
+		expect(plan.charges).toBeCloseTo(2000 * ROUND_TRIP_CHARGE_RATE + DP_CHARGE_PER_SCRIP);
+	});
+
+	it('should offset STCG with short-term losses only', () => {
+		const plan = optimizeHarvest(
+			[
+				createHolding('ITC', [createLot(100, 200)], 100),
+				createHolding('TCS', [createLot(10, 1200), createShortTermLot(40, 1100)], 1000)
+			],
+			createGains(3000),
+			{ type: 'OFFSET_STCG' },
+			AS_OF
+		);
+
+		expect(plan.orders.map((order) => [order.symbol, order.quantity, order.expectedLoss])).toEqual([['TCS', 40, 5000]]);
+		expect(plan.losses).toEqual({ shortTerm: 3000, longTerm: 2000 });
+		expect(plan.achieved).toBe(3000);
+		expect(plan.target).toBe(3000);
+	});
+
+	it('should report a shortfall when holdings cannot cover the target', () => {
+		const plan = optimizeHarvest([createHolding('ITC', [createLot(10, 150)], 100)], createGains(), { type: 'TARGET_LOSS', amount: 1000 }, AS_OF);
+
+		expect(plan.achieved).toBe(500);
+		expect(plan.target).toBe(1000);
+	});
+
+	it('should spend the trade budget on the most loss per rupee', () => {
+		const plan = optimizeHarvest(
+			[createHolding('TCS', [createLot(100, 120)], 100), createHolding('ITC', [createLot(30, 150)], 100)],
+			createGains(),
+			{ type: 'TRADE_BUDGET', amount: 5000 },
+			AS_OF
+		);
+
+		expect(plan.orders.map((order) => [order.symbol, order.quantity])).toEqual([
+			['ITC', 30],
+			['TCS', 20]
+		]);
+		expect(plan.tradeValue).toBe(5000);
+		expect(plan.losses).toEqual({ shortTerm: 0, longTerm: 1900 });
+	});
+
+	it('should not sell only the profitable head of a holding when the budget runs out', () => {
+		const holding = createHolding('INFY', [createLot(20, 90), createLot(20, 200)], 100);
+
+		const plan = optimizeHarvest([holding], createGains(), { type: 'TRADE_BUDGET', amount: 1500 }, AS_OF);
+
+		expect(plan.orders).toEqual([]);
+	});
+});
@@ -0,0 +1,264 @@
+/**
+ * Harvest Optimizer
+ * Picks how many shares of each holding to sell so a harvest meets a goal
+ * (offset this FY's STCG, book a target loss, or spend a trade-value budget)
+ * with the least trade value and charges
+ */
+
+import type { CapitalLosses, Holding, RealizedGainsSummary, SellOrder } from '$lib/types';
+import { classifyByAssetClass } from '$lib/utils/asset-classes';
+import { getGrandfatheredCost } from '$lib/utils/grandfathering';
+
+/**
+ * Approximate charges of selling and rebuying ₹1 of equity delivery with zero brokerage:
+ * STT 0.1% on each side, NSE transaction charges 0.00297% and SEBI fees 0.0001% on each
+ * side with 18% GST, and 0.015% stamp duty on the rebuy
+ */
+export const ROUND_TRIP_CHARGE_RATE = 0.002 + 2 * (0.0000297 + 0.000001) * 1.18 + 0.00015;
+
+/**
+ * Depository charge per scrip sold in a day, including GST
+ */
+export const DP_CHARGE_PER_SCRIP = 15.93;
+
+/**
+ * What the harvest should achieve
+ * - OFFSET_STCG: short-term losses covering the FY's net short-term gain
+ * - TARGET_LOSS: capital losses (short- or long-term) of the given amount
+ * - TRADE_BUDGET: the most capital loss without selling more than the given value
+ */
+export type HarvestGoal =
+	| { type: 'OFFSET_STCG' }
+	| { type: 'TARGET_LOSS'; amount: number }
+	| { type: 'TRADE_BUDGET'; amount: number };
+
+/**
+ * Result of optimizing a harvest
+ */
+export interface HarvestPlan {
+	/** One sell order per holding, quantities taken oldest lot first */
+	orders: SellOrder[];
+	/** Losses the orders book, by term (gains booked on the way are netted) */
+	losses: CapitalLosses;
+	/** Amount the goal counts: short-term loss for OFFSET_STCG, total loss otherwise */
+	achieved: number;
+	/** Loss the goal asked for (0 for TRADE_BUDGET) */
+	target: number;
+	/** Sell value of the orders */
+	tradeValue: number;
+	/** Estimated round-trip charges of the orders */
+	charges: number;
+}
+
+/**
+ * A lot in FIFO order with what selling one of its shares books
+ */
+interface LotStep {
+	quantity: number;
+	purchasePrice: number;
+	purchaseDate: Date;
+	/** Loss per share (negative for a gain) */
+	loss: number;
+	/** Loss per share the goal counts */
+	goalLoss: number;
+	isShortTerm: boolean;
+}
+
+/**
+ * A run of consecutive lots of one holding that is sold as a unit
+ */
+interface Block {
+	holding: Holding;
+	lots: LotStep[];
+	/** Goal loss per rupee of trade value and charges */
+	ratio: number;
+}
+
+/**
+ * Builds the FIFO steps of a priced holding
+ * LT losses use the Section 112A grandfathered cost, as in the opportunity breakdown
+ */
+function getLotSteps(holding: Holding, price: number, goal: HarvestGoal, asOf: Date): LotStep[] {
+	return holding.lots.map((lot) => {
+		const isShortTerm = classifyByAssetClass(holding.assetClass ?? 'EQUITY', lot.purchaseDate, asOf) === 'SHORT_TERM';
+		const loss = (isShortTerm ? lot.purchasePrice : getGrandfatheredCost(lot, price)) - price;
+		return {
+			quantity: lot.quantity,
+			purchasePrice: lot.purchasePrice,
+			purchaseDate: lot.purchaseDate,
+			loss,
+			goalLoss: goal.type === 'OFFSET_STCG' && !isShortTerm ? 0 : loss,
+			isShortTerm
+		};
+	});
+}
+
+/**
+ * Splits a holding's lots into blocks worth selling
+ *
+ * A sale always consumes the oldest lots first, so a profitable lot at the
+ * head of the queue must be sold to reach a loss behind it. Each block is the
+ * prefix of the remaining lots with the best goal loss per rupee, so blocks
+ * come out in falling ratio and can be ranked across holdings without
+ * breaking FIFO order. Lots after the last block with a positive ratio are
+ * never worth selling.
+ */
+function getBlocks(holding: Holding, steps: LotStep[], price: number): Block[] {
+	const blocks: Block[] = [];
+	let start = 0;
+
+	while (start < steps.length) {
+		let goalLoss = 0;
+		let cost = start === 0 ? DP_CHARGE_PER_SCRIP : 0;
+		let best = { end: -1, ratio: 0 };
+
+		for (let index = start; index < steps.length; index++) {
+			goalLoss += steps[index].quantity * steps[index].goalLoss;
+			cost += steps[index].quantity * price * (1 + ROUND_TRIP_CHARGE_RATE);
+			if (goalLoss / cost > best.ratio) {
+				best = { end: index, ratio: goalLoss / cost };
+			}
+		}
+
+		if (best.end < 0) {
+			break;
+		}
+
+		blocks.push({ holding, lots: steps.slice(start, best.end + 1), ratio: best.ratio });
+		start = best.end + 1;
+	}
+
+	return blocks;
+}
+
+/**
+ * Gets the loss the goal asks for
+ */
+function getTarget(goal: HarvestGoal, gains: RealizedGainsSummary): number {
+	if (goal.type === 'OFFSET_STCG') {
+		return Math.max(0, gains.netShortTerm);
+	}
+
+	return goal.type === 'TARGET_LOSS' ? Math.max(0, goal.amount) : 0;
+}
+
+/**
+ * Suggests per-holding sell quantities that meet a harvest goal
+ *
+ * Sales consume lots oldest first, so each holding can only be sold as a
+ * prefix of its lots. Prefixes are ranked by the loss the goal counts per
+ * rupee of trade value and charges, and taken best first until the goal is
+ * met or the budget is spent; the last holding is cut to whole shares. Only
+ * holdings with a current price are considered.
+ *
+ * @param holdings - Current holdings with prices
+ * @param gains - Realized gains of the FY, used by OFFSET_STCG
+ * @param goal - What the harvest should achieve
+ * @param asOf - Sale date used to classify lots (defaults to today)
+ * @returns Sell orders and what they book; achieved falls short of target when holdings cannot cover it
+ */
+export function optimizeHarvest(
+	holdings: Holding[],
+	gains: RealizedGainsSummary,
+	goal: HarvestGoal,
+	asOf: Date = new Date()
+): HarvestPlan {
+	const target = getTarget(goal, gains);
+	const budget = goal.type === 'TRADE_BUDGET' ? Math.max(0, goal.amount) : Infinity;
+
+	const blocks = holdings
+		.filter((holding) => holding.currentPrice !== undefined)
+		.flatMap((holding) => {
+			const price = holding.currentPrice!;
+			return getBlocks(holding, getLotSteps(holding, price, goal, asOf), price);
+		})
+		// Stable sort keeps each holding's blocks in FIFO order on equal ratios
+		.sort((a, b) => b.ratio - a.ratio);
+
+	// Lots taken per holding, in FIFO order; a holding cut short takes no more blocks
+	const taken = new Map<Holding, { lot: LotStep; shares: number }[]>();
+	const closed = new Set<Holding>();
+	let achieved = 0;
+	let tradeValue = 0;
+
+	for (const block of blocks) {
+		if (goal.type !== 'TRADE_BUDGET' && achieved >= target) {
+			break;
+		}
+
+		if (closed.has(block.holding)) {
+			continue;
+		}
+
+		const price = block.holding.currentPrice!;
+		const picks: { lot: LotStep; shares: number }[] = [];
+		let blockLoss = 0;
+		let blockValue = 0;
+
+		for (const lot of block.lots) {
+			let shares = lot.quantity;
+			if (goal.type === 'TRADE_BUDGET') {
+				shares = Math.min(shares, Math.floor((budget - tradeValue - blockValue) / price));
+			} else if (lot.goalLoss > 0) {
+				shares = Math.min(shares, Math.ceil((target - achieved - blockLoss) / lot.goalLoss));
+			}
+
+			if (shares > 0) {
+				picks.push({ lot, shares });
+				blockLoss += shares * lot.goalLoss;
+				blockValue += shares * price;
+			}
+
+			if (shares < lot.quantity) {
+				closed.add(block.holding);
+				break;
+			}
+		}
+
+		// A block cut short by the budget may stop on the profitable lots at its head
+		if (picks.length > 0 && blockLoss > 0) {
+			taken.set(block.holding, [...(taken.get(block.holding) ?? []), ...picks]);
+			achieved += blockLoss;
+			tradeValue += blockValue;
+		}
+	}
+
+	const orders: SellOrder[] = [];
+	const losses: CapitalLosses = { shortTerm: 0, longTerm: 0 };
+	let charges = 0;
+
+	for (const [holding, picks] of taken) {
+		const price = holding.currentPrice!;
+		const quantity = picks.reduce((sum, pick) => sum + pick.shares, 0);
+		const cost = picks.reduce((sum, pick) => sum + pick.shares * pick.lot.purchasePrice, 0);
+		const loss = picks.reduce((sum, pick) => sum + pick.shares * pick.lot.loss, 0);
+
+		for (const { lot, shares } of picks) {
+			if (lot.isShortTerm) {
+				losses.shortTerm += shares * lot.loss;
+			} else {
+				losses.longTerm += shares * lot.loss;
+			}
+		}
+
+		orders.push({
+			symbol: holding.symbol,
+			exchange: holding.exchange,
+			quantity,
+			purchasePrice: cost / quantity,
+			purchaseDate: picks[0].lot.purchaseDate,
+			currentPrice: price,
+			expectedLoss: loss
+		});
+		charges += quantity * price * ROUND_TRIP_CHARGE_RATE + DP_CHARGE_PER_SCRIP;
+	}
+
+	return {
+		orders,
+		losses: { shortTerm: Math.max(0, losses.shortTerm), longTerm: Math.max(0, losses.longTerm) },
+		achieved,
+		target,
+		tradeValue,
+		charges
+	};
+}
@@ -0,0 +1,43 @@
+/**
+ * Unit tests for holding period
+ * Tests the calendar "more than twelve months" test around month ends and leap years
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyHoldingPeriod, getLongTermDate } from './holding-period';
+
+describe('getLongTermDate', () => {
+	it('should return the day after the same calendar date twelve months later', () => {
+		expect(getLongTermDate(new Date(2024, 0, 20))).toEqual(new Date(2025, 0, 21));
+		expect(getLongTermDate(new Date(2023, 2, 31))).toEqual(new Date(2024, 3, 1));
+	});
+
+	it('should clamp a 29 Feb purchase to the end of February', () => {
+		expect(getLongTermDate(new Date(2024, 1, 29))).toEqual(new Date(2025, 2, 1));
+	});
+
+	it('should count longer periods in months', () => {
+		expect(getLongTermDate(new Date(2022, 5, 15), 24)).toEqual(new Date(2024, 5, 16));
+	});
+});
+
+describe('classifyHoldingPeriod', () => {
+	it('should keep a lot short-term until it is held for more than twelve months', () => {
+		const purchaseDate = new Date(2024, 0, 20);
+		// 366 days, across the leap day, but exactly twelve months
+		expect(classifyHoldingPeriod(purchaseDate, new Date(2025, 0, 20))).toBe('SHORT_TERM');
+		expect(classifyHoldingPeriod(purchaseDate, new Date(2025, 0, 21))).toBe('LONG_TERM');
+	});
+
+	it('should turn long-term after 365 days when no leap day falls in between', () => {
+		const purchaseDate = new Date(2024, 2, 1);
+		expect(classifyHoldingPeriod(purchaseDate, new Date(2025, 2, 1))).toBe('SHORT_TERM');
+		expect(classifyHoldingPeriod(purchaseDate, new Date(2025, 2, 2))).toBe('LONG_TERM');
+	});
+
+	it('should ignore the time of day of the purchase and the as-of date', () => {
+		const purchaseDate = new Date(2024, 0, 20, 15, 30);
+		expect(classifyHoldingPeriod(purchaseDate, new Date(2025, 0, 21, 9, 15))).toBe('LONG_TERM');
+		expect(classifyHoldingPeriod(purchaseDate, new Date(2025, 0, 20, 23, 59))).toBe('SHORT_TERM');
+	});
+});
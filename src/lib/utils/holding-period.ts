@@ -0,0 +1,44 @@
+/**
+ * Holding Period
+ * Applies the statutory "held for more than twelve months" test on calendar
+ * dates rather than day counts, against an injectable as-of date
+ */
+
+import { addDays, addMonths, startOfDay } from 'date-fns';
+import type { Classification } from '$lib/types';
+
+/**
+ * Listed shares and equity-oriented funds are long-term when held for more than this many months
+ */
+export const LONG_TERM_AFTER_MONTHS = 12;
+
+/**
+ * Gets the first date on which a lot is long-term
+ * The holding period runs to the same calendar date `months` later (clamped
+ * to the month end, so 29 Feb ends on 28 Feb); a lot still held on the day
+ * after that has been held for more than `months` months
+ *
+ * @param purchaseDate - Acquisition date of the lot
+ * @param months - Months the lot must be held beyond (defaults to 12)
+ * @returns Start of the first long-term day
+ */
+export function getLongTermDate(purchaseDate: Date, months: number = LONG_TERM_AFTER_MONTHS): Date {
+	return addDays(addMonths(startOfDay(purchaseDate), months), 1);
+}
+
+/**
+ * Classifies a lot as short- or long-term on calendar dates
+ * Time of day is ignored, so a sale at any time on a date classifies alike
+ *
+ * @param purchaseDate - Acquisition date of the lot
+ * @param asOf - Sale date, or the valuation date for open lots (defaults to today)
+ * @param months - Months the lot must be held beyond (defaults to 12)
+ * @returns SHORT_TERM if held for `months` months or less, LONG_TERM if held for more
+ */
+export function classifyHoldingPeriod(
+	purchaseDate: Date,
+	asOf: Date = new Date(),
+	months: number = LONG_TERM_AFTER_MONTHS
+): Classification {
+	return startOfDay(asOf) >= getLongTermDate(purchaseDate, months) ? 'LONG_TERM' : 'SHORT_TERM';
+}
@@ -4,8 +4,16 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { calculateHoldings, classifyHolding } from './holdings-calculator';
-import type { TradeRecord } from '$lib/types';
+import { calculateHoldings, classifyHolding, analyzePortfolio } from './holdings-calculator';
+import type {
+	TradeRecord,
+	CorporateAction,
+	Demerger,
+	InwardTransfer,
+	OpeningPosition,
+	ShareAllotment,
+	SymbolChange
+} from '$lib/types';
 
 /**
  * Helper function to create a TradeRecord for testing
@@ -15,12 +23,57 @@ function createTrade(
 ): TradeRecord {
 	return {
 		tradeId: `trade-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-		isin: 'INE000000000',
+		isin: `TEST-${overrides.symbol}`,
 		exchange: 'NSE',
 		...overrides
 	};
 }
 
+/**
+ * Helper function to create a CorporateAction for testing
+ */
+function createAction(
+	overrides: Partial<CorporateAction> & Pick<CorporateAction, 'type' | 'exDate' | 'ratioFrom' | 'ratioTo'>
+): CorporateAction {
+	return {
+		id: `ca-${Math.random().toString(36).substring(2, 9)}`,
+		isin: `TEST-${overrides.symbol ?? 'INFY'}`,
+		symbol: 'INFY',
+		...overrides
+	};
+}
+
+/**
+ * Helper function to create an OpeningPosition for testing
+ */
+function createPosition(
+	overrides: Partial<OpeningPosition> & Pick<OpeningPosition, 'symbol' | 'quantity' | 'acquisitionDate' | 'purchasePrice'>
+): OpeningPosition {
+	return {
+		id: `op-${Math.random().toString(36).substring(2, 9)}`,
+		isin: `TEST-${overrides.symbol}`,
+		exchange: 'NSE',
+		...overrides
+	};
+}
+
+/**
+ * Helper function to create a SymbolChange for testing
+ */
+function createChange(
+	overrides: Partial<SymbolChange> & Pick<SymbolChange, 'oldSymbol' | 'newSymbol' | 'effectiveDate'>
+): SymbolChange {
+	return {
+		id: `sc-${Math.random().toString(36).substring(2, 9)}`,
+		type: 'RENAME',
+		oldIsin: `TEST-${overrides.oldSymbol}`,
+		newIsin: `TEST-${overrides.newSymbol}`,
+		ratioFrom: 1,
+		ratioTo: 1,
+		...overrides
+	};
+}
+
 /**
  * Helper function to create a Date from days ago relative to reference date
  */
@@ -265,13 +318,22 @@ describe('calculateHoldings', () => {
 			expect(classification).toBe('SHORT_TERM');
 		});
 
-		it('should classify holding as LONG_TERM when held for 366 days', () => {
-			// 366 days before Jan 20, 2025 = Jan 20, 2024
-			// (includes the leap day Feb 29, 2024)
+		it('should classify holding as SHORT_TERM when held for exactly 12 months', () => {
+			// Jan 20, 2024 to Jan 20, 2025 is 366 days (includes the leap day Feb 29, 2024)
+			// but not more than twelve months
 			const purchaseDate = new Date('2024-01-20');
 
 			const classification = classifyHolding(purchaseDate);
 
+			expect(classification).toBe('SHORT_TERM');
+		});
+
+		it('should classify holding as LONG_TERM when held for more than 12 months', () => {
+			// Jan 19, 2024 to Jan 20, 2025 = 12 months and a day
+			const purchaseDate = new Date('2024-01-19');
+
+			const classification = classifyHolding(purchaseDate);
+
 			expect(classification).toBe('LONG_TERM');
 		});
 
@@ -360,7 +422,7 @@ describe('calculateHoldings', () => {
 		});
 	});
 
-	describe('Exchange Separation (NSE vs BSE)', () => {
+	describe('Exchange Separation (NSE vs BSE) in EXCHANGE mode', () => {
 		it('should treat NSE and BSE trades for same stock as separate holdings', () => {
 			const buyDate = new Date('2024-06-15');
 
@@ -385,7 +447,7 @@ describe('calculateHoldings', () => {
 				})
 			];
 
-			const holdings = calculateHoldings(trades);
+			const holdings = calculateHoldings(trades, { fifoMode: 'EXCHANGE' });
 
 			expect(holdings).toHaveLength(2);
 
@@ -446,7 +508,7 @@ describe('calculateHoldings', () => {
 				})
 			];
 
-			const holdings = calculateHoldings(trades);
+			const holdings = calculateHoldings(trades, { fifoMode: 'EXCHANGE' });
 
 			expect(holdings).toHaveLength(2);
 
@@ -497,7 +559,7 @@ describe('calculateHoldings', () => {
 				})
 			];
 
-			const holdings = calculateHoldings(trades);
+			const holdings = calculateHoldings(trades, { fifoMode: 'EXCHANGE' });
 
 			// Only BSE holding should remain
 			expect(holdings).toHaveLength(1);
@@ -506,6 +568,936 @@ describe('calculateHoldings', () => {
 		});
 	});
 
+	describe('ISIN-level FIFO across exchanges', () => {
+		it('should pool NSE and BSE lots of the same ISIN into one holding', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy-nse', symbol: 'RELIANCE', exchange: 'NSE', tradeDate: new Date('2024-06-15'), tradeType: 'buy', quantity: 100, price: 2500 }),
+				createTrade({ tradeId: 'buy-bse', symbol: 'RELIANCE', exchange: 'BSE', tradeDate: new Date('2024-06-16'), tradeType: 'buy', quantity: 50, price: 2510 })
+			];
+
+			const holdings = calculateHoldings(trades);
+
+			expect(holdings).toHaveLength(1);
+			expect(holdings[0].totalQuantity).toBe(150);
+			expect(holdings[0].lots.map((lot) => lot.exchange)).toEqual(['NSE', 'BSE']);
+		});
+
+		it('should consume the oldest lot first whichever exchange the sell is on', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy-bse', symbol: 'RELIANCE', exchange: 'BSE', tradeDate: new Date('2023-01-10'), tradeType: 'buy', quantity: 40, price: 2000 }),
+				createTrade({ tradeId: 'buy-nse', symbol: 'RELIANCE', exchange: 'NSE', tradeDate: new Date('2024-06-15'), tradeType: 'buy', quantity: 60, price: 2600 }),
+				createTrade({ tradeId: 'sell-nse', symbol: 'RELIANCE', exchange: 'NSE', tradeDate: new Date('2024-07-01'), tradeType: 'sell', quantity: 50, price: 2800 })
+			];
+
+			const { holdings, unmatchedSells } = analyzePortfolio(trades);
+
+			expect(unmatchedSells).toEqual([]);
+			expect(holdings).toHaveLength(1);
+			expect(holdings[0].totalQuantity).toBe(50);
+			expect(holdings[0].lots).toHaveLength(1);
+			expect(holdings[0].lots[0].purchasePrice).toBe(2600);
+			expect(holdings[0].exchange).toBe('NSE');
+		});
+
+		it('should route sells to the exchange of the oldest remaining lot', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy-bse', symbol: 'RELIANCE', exchange: 'BSE', tradeDate: new Date('2023-01-10'), tradeType: 'buy', quantity: 40, price: 2000 }),
+				createTrade({ tradeId: 'buy-nse', symbol: 'RELIANCE', exchange: 'NSE', tradeDate: new Date('2024-06-15'), tradeType: 'buy', quantity: 60, price: 2600 })
+			];
+
+			const holdings = calculateHoldings(trades);
+
+			expect(holdings[0].exchange).toBe('BSE');
+			expect(holdings[0].symbol).toBe('RELIANCE');
+		});
+
+		it('should join trades without an ISIN to the ISIN group of the same symbol', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy-nse', symbol: 'TCS', isin: 'INE467B01029', exchange: 'NSE', tradeDate: new Date('2024-01-10'), tradeType: 'buy', quantity: 10, price: 3500 }),
+				createTrade({ tradeId: 'sell-bse', symbol: 'TCS', isin: '', exchange: 'BSE', tradeDate: new Date('2024-03-10'), tradeType: 'sell', quantity: 4, price: 3900 })
+			];
+
+			const { holdings, unmatchedSells } = analyzePortfolio(trades);
+
+			expect(unmatchedSells).toEqual([]);
+			expect(holdings).toHaveLength(1);
+			expect(holdings[0].isin).toBe('INE467B01029');
+			expect(holdings[0].totalQuantity).toBe(6);
+		});
+
+		it('should group trades with no known ISIN by symbol', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy-nse', symbol: 'XYZ', isin: '', exchange: 'NSE', tradeDate: new Date('2024-01-10'), tradeType: 'buy', quantity: 10, price: 100 }),
+				createTrade({ tradeId: 'buy-bse', symbol: 'XYZ', isin: '', exchange: 'BSE', tradeDate: new Date('2024-02-10'), tradeType: 'buy', quantity: 5, price: 110 }),
+				createTrade({ tradeId: 'buy-abc', symbol: 'ABC', isin: '', exchange: 'NSE', tradeDate: new Date('2024-02-10'), tradeType: 'buy', quantity: 5, price: 110 })
+			];
+
+			const holdings = calculateHoldings(trades);
+
+			expect(holdings).toHaveLength(2);
+			expect(holdings.find((h) => h.symbol === 'XYZ')?.totalQuantity).toBe(15);
+		});
+	});
+
+	describe('Corporate Actions', () => {
+		it('should rescale lots for a split and match post-split sells without leftovers', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'INFY', tradeDate: new Date('2023-01-10'), tradeType: 'buy', quantity: 10, price: 1000 }),
+				createTrade({ tradeId: 'sell1', symbol: 'INFY', tradeDate: new Date('2023-06-10'), tradeType: 'sell', quantity: 30, price: 250 })
+			];
+			const actions = [createAction({ type: 'SPLIT', exDate: new Date('2023-03-01'), ratioFrom: 1, ratioTo: 5 })];
+
+			const { holdings, unmatchedSells } = analyzePortfolio(trades, { corporateActions: actions });
+
+			expect(holdings).toHaveLength(1);
+			expect(holdings[0].totalQuantity).toBe(20);
+			expect(holdings[0].lots[0].purchasePrice).toBe(200);
+			expect(holdings[0].lots[0].purchaseDate.getTime()).toBe(new Date('2023-01-10').getTime());
+			expect(unmatchedSells).toEqual([]);
+		});
+
+		it('should merge lots for a consolidation while preserving total cost', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'INFY', tradeDate: new Date('2023-01-10'), tradeType: 'buy', quantity: 100, price: 10 })
+			];
+			const actions = [createAction({ type: 'CONSOLIDATION', exDate: new Date('2023-03-01'), ratioFrom: 10, ratioTo: 1 })];
+
+			const holdings = calculateHoldings(trades, { corporateActions: actions });
+
+			expect(holdings[0].totalQuantity).toBe(10);
+			expect(holdings[0].avgPurchasePrice).toBe(100);
+		});
+
+		it('should drop fractional shares of a consolidation and keep their cost on the shares held', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'INFY', tradeDate: new Date('2023-01-10'), tradeType: 'buy', quantity: 15, price: 10 }),
+				createTrade({ tradeId: 'buy2', symbol: 'INFY', tradeDate: new Date('2023-02-10'), tradeType: 'buy', quantity: 3, price: 20 }),
+				createTrade({ tradeId: 'buy3', symbol: 'INFY', tradeDate: new Date('2023-02-20'), tradeType: 'buy', quantity: 1, price: 30 })
+			];
+			const actions = [createAction({ type: 'CONSOLIDATION', exDate: new Date('2023-03-01'), ratioFrom: 10, ratioTo: 1 })];
+
+			const holdings = calculateHoldings(trades, { corporateActions: actions });
+
+			// 19 shares consolidate 10:1 into 1 whole share; the rest is settled in cash
+			expect(holdings[0].totalQuantity).toBe(1);
+			expect(holdings[0].lots).toHaveLength(1);
+			expect(holdings[0].lots[0].purchaseDate.getTime()).toBe(new Date('2023-01-10').getTime());
+			expect(holdings[0].lots[0].purchasePrice).toBe(240);
+		});
+
+		it('should add a zero-cost bonus lot dated on allotment', () => {
+			const allotmentDate = new Date('2023-03-03');
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'INFY', tradeDate: new Date('2023-01-10'), tradeType: 'buy', quantity: 50, price: 1000 })
+			];
+			const actions = [
+				createAction({ type: 'BONUS', exDate: new Date('2023-03-01'), ratioFrom: 1, ratioTo: 1, allotmentDate })
+			];
+
+			const holdings = calculateHoldings(trades, { corporateActions: actions });
+
+			expect(holdings[0].totalQuantity).toBe(100);
+			expect(holdings[0].lots).toHaveLength(2);
+			expect(holdings[0].lots[1].purchasePrice).toBe(0);
+			expect(holdings[0].lots[1].purchaseDate.getTime()).toBe(allotmentDate.getTime());
+			expect(holdings[0].avgPurchasePrice).toBe(500);
+		});
+
+		it('should not adjust lots bought on or after the ex-date', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'INFY', tradeDate: new Date('2023-03-01'), tradeType: 'buy', quantity: 10, price: 200 })
+			];
+			const actions = [createAction({ type: 'SPLIT', exDate: new Date('2023-03-01'), ratioFrom: 1, ratioTo: 5 })];
+
+			const holdings = calculateHoldings(trades, { corporateActions: actions });
+
+			expect(holdings[0].totalQuantity).toBe(10);
+			expect(holdings[0].lots[0].purchasePrice).toBe(200);
+		});
+
+		it('should keep one FIFO queue across a split that issues a new ISIN', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'HDFCBANK', isin: 'INE040A01026', tradeDate: new Date('2019-06-10'), tradeType: 'buy', quantity: 10, price: 2400 }),
+				createTrade({ tradeId: 'sell1', symbol: 'HDFCBANK', isin: 'INE040A01034', tradeDate: new Date('2019-10-10'), tradeType: 'sell', quantity: 20, price: 1250 }),
+				createTrade({ tradeId: 'buy2', symbol: 'HDFCBANK', isin: 'INE040A01034', tradeDate: new Date('2019-11-10'), tradeType: 'buy', quantity: 5, price: 1280 })
+			];
+			const actions = [
+				createAction({
+					type: 'SPLIT',
+					symbol: 'HDFCBANK',
+					isin: 'INE040A01026',
+					newIsin: 'INE040A01034',
+					exDate: new Date('2019-09-19'),
+					ratioFrom: 1,
+					ratioTo: 2
+				})
+			];
+
+			const { holdings, unmatchedSells, realizedGainEntries } = analyzePortfolio(trades, {
+				corporateActions: actions,
+				asOfDate: new Date('2020-01-31')
+			});
+
+			expect(unmatchedSells).toEqual([]);
+			expect(realizedGainEntries.map((entry) => [entry.quantity, entry.purchasePrice])).toEqual([[20, 1200]]);
+			expect(holdings).toHaveLength(1);
+			expect(holdings[0].isin).toBe('INE040A01034');
+			expect(holdings[0].lots.map((lot) => [lot.quantity, lot.purchasePrice])).toEqual([[5, 1280]]);
+		});
+
+		it('should only apply actions to the matching ISIN', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'TCS', isin: 'INE467B01029', tradeDate: new Date('2023-01-10'), tradeType: 'buy', quantity: 10, price: 3000 })
+			];
+			const actions = [createAction({ type: 'SPLIT', isin: 'INE009A01021', exDate: new Date('2023-03-01'), ratioFrom: 1, ratioTo: 5 })];
+
+			const holdings = calculateHoldings(trades, { corporateActions: actions });
+
+			expect(holdings[0].totalQuantity).toBe(10);
+		});
+	});
+
+	describe('Grandfathering (Section 112A)', () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+			vi.setSystemTime(new Date('2025-01-20'));
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it('should cap LTCG using the 31 Jan 2018 FMV for pre-2018 lots', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'INFY', isin: 'INE009A01021', tradeDate: new Date('2016-05-10'), tradeType: 'buy', quantity: 10, price: 1000 }),
+				createTrade({ tradeId: 'sell1', symbol: 'INFY', isin: 'INE009A01021', tradeDate: new Date('2024-12-02'), tradeType: 'sell', quantity: 10, price: 1900 })
+			];
+
+			const { realizedGains } = analyzePortfolio(trades);
+
+			expect(realizedGains.entries).toHaveLength(1);
+			expect(realizedGains.entries[0].grandfatheredCost).toBe(1170);
+			expect(realizedGains.entries[0].purchasePrice).toBe(1000);
+			expect(realizedGains.ltcg).toBeCloseTo((1900 - 1170) * 10, 2);
+		});
+
+		it('should rescale the FMV for splits after 31 Jan 2018', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'INFY', isin: 'INE009A01021', tradeDate: new Date('2016-05-10'), tradeType: 'buy', quantity: 10, price: 1000 }),
+				createTrade({ tradeId: 'sell1', symbol: 'INFY', isin: 'INE009A01021', tradeDate: new Date('2024-12-02'), tradeType: 'sell', quantity: 20, price: 900 })
+			];
+			const actions = [
+				createAction({ type: 'SPLIT', isin: 'INE009A01021', exDate: new Date('2019-06-01'), ratioFrom: 1, ratioTo: 2 })
+			];
+
+			const { realizedGains } = analyzePortfolio(trades, { corporateActions: actions });
+
+			expect(realizedGains.entries[0].grandfatheredCost).toBe(585);
+			expect(realizedGains.ltcg).toBeCloseTo((900 - 585) * 20, 2);
+		});
+
+		it('should not grandfather lots acquired on or after 1 Feb 2018', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'INFY', isin: 'INE009A01021', tradeDate: new Date('2018-03-01'), tradeType: 'buy', quantity: 10, price: 1000 }),
+				createTrade({ tradeId: 'sell1', symbol: 'INFY', isin: 'INE009A01021', tradeDate: new Date('2024-12-02'), tradeType: 'sell', quantity: 10, price: 1900 })
+			];
+
+			const { realizedGains } = analyzePortfolio(trades);
+
+			expect(realizedGains.entries[0].grandfatheredCost).toBeUndefined();
+			expect(realizedGains.ltcg).toBeCloseTo(9000, 2);
+		});
+	});
+
+	describe('Opening Positions and Unmatched Sells', () => {
+		it('should report sells that exceed the known lots', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'INFY', tradeDate: new Date('2023-05-10'), tradeType: 'buy', quantity: 10, price: 1400 }),
+				createTrade({ tradeId: 'sell1', symbol: 'INFY', tradeDate: new Date('2023-08-10'), tradeType: 'sell', quantity: 25, price: 1500 })
+			];
+
+			const { holdings, unmatchedSells } = analyzePortfolio(trades);
+
+			expect(holdings).toHaveLength(0);
+			expect(unmatchedSells).toEqual([
+				{ symbol: 'INFY', isin: 'TEST-INFY', exchange: 'NSE', sellDate: new Date('2023-08-10'), quantity: 15 }
+			]);
+		});
+
+		it('should seed opening positions as the oldest lots before trades replay', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'INFY', tradeDate: new Date('2023-05-10'), tradeType: 'buy', quantity: 10, price: 1400 }),
+				createTrade({ tradeId: 'sell1', symbol: 'INFY', tradeDate: new Date('2023-08-10'), tradeType: 'sell', quantity: 25, price: 1500 })
+			];
+			const positions = [
+				createPosition({ symbol: 'INFY', quantity: 20, acquisitionDate: new Date('2020-06-01'), purchasePrice: 700 })
+			];
+
+			const { holdings, unmatchedSells } = analyzePortfolio(trades, { openingPositions: positions });
+
+			expect(unmatchedSells).toEqual([]);
+			expect(holdings).toHaveLength(1);
+			// 20 opening shares + 10 bought - 25 sold: 5 shares of the newer lot remain
+			expect(holdings[0].totalQuantity).toBe(5);
+			expect(holdings[0].lots[0].purchasePrice).toBe(1400);
+		});
+
+		it('should hold opening positions that have no trades', () => {
+			const positions = [
+				createPosition({ symbol: 'TCS', isin: 'INE467B01029', quantity: 8, acquisitionDate: new Date('2019-04-01'), purchasePrice: 2000 })
+			];
+
+			const holdings = calculateHoldings([], { openingPositions: positions });
+
+			expect(holdings).toHaveLength(1);
+			expect(holdings[0].symbol).toBe('TCS');
+			expect(holdings[0].isin).toBe('INE467B01029');
+			expect(holdings[0].totalQuantity).toBe(8);
+			expect(holdings[0].classification).toBe('LONG_TERM');
+		});
+
+		it('should apply later corporate actions to opening positions', () => {
+			const positions = [
+				createPosition({ symbol: 'INFY', quantity: 10, acquisitionDate: new Date('2022-01-01'), purchasePrice: 1000 })
+			];
+			const actions = [createAction({ type: 'SPLIT', exDate: new Date('2023-03-01'), ratioFrom: 1, ratioTo: 2 })];
+
+			const holdings = calculateHoldings([], { openingPositions: positions, corporateActions: actions });
+
+			expect(holdings[0].totalQuantity).toBe(20);
+			expect(holdings[0].avgPurchasePrice).toBe(500);
+		});
+	});
+
+	describe('Inward Transfers (gifts, inheritance, off-market)', () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+			vi.setSystemTime(new Date('2025-01-20'));
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		/**
+		 * Helper to create an inward transfer of INFY
+		 */
+		function createTransfer(overrides: Partial<InwardTransfer>): InwardTransfer {
+			return {
+				id: 'it1',
+				symbol: 'INFY',
+				isin: 'TEST-INFY',
+				exchange: 'NSE',
+				quantity: 10,
+				source: 'GIFT',
+				transferDate: new Date('2024-06-03'),
+				acquisitionDate: new Date('2015-04-01'),
+				purchasePrice: 500,
+				sttPaid: true,
+				...overrides
+			};
+		}
+
+		it('should queue a gift by its credit date but classify it by the original acquisition date', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'INFY', tradeDate: new Date('2024-01-10'), tradeType: 'buy', quantity: 10, price: 1500 }),
+				createTrade({ tradeId: 'sell1', symbol: 'INFY', tradeDate: new Date('2024-12-02'), tradeType: 'sell', quantity: 15, price: 1800 })
+			];
+
+			const { holdings, realizedGains } = analyzePortfolio(trades, { inwardTransfers: [createTransfer({})] });
+
+			expect(realizedGains.entries).toHaveLength(2);
+			expect(realizedGains.entries[0].purchasePrice).toBe(1500);
+			expect(realizedGains.entries[0].classification).toBe('SHORT_TERM');
+			expect(realizedGains.entries[1]).toMatchObject({ quantity: 5, purchasePrice: 500, classification: 'LONG_TERM' });
+			expect(realizedGains.entries[1].purchaseDate).toEqual(new Date('2015-04-01'));
+			expect(holdings[0].totalQuantity).toBe(5);
+			expect(realizedGains.sttNotPaidLtcg).toBe(0);
+		});
+
+		it('should keep a gift queued by its credit date after a later bonus', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'INFY', tradeDate: new Date('2024-01-10'), tradeType: 'buy', quantity: 10, price: 1500 }),
+				createTrade({ tradeId: 'sell1', symbol: 'INFY', tradeDate: new Date('2024-12-02'), tradeType: 'sell', quantity: 15, price: 1800 })
+			];
+			const actions = [
+				createAction({
+					type: 'BONUS',
+					exDate: new Date('2024-08-01'),
+					ratioFrom: 1,
+					ratioTo: 1,
+					allotmentDate: new Date('2024-08-03')
+				})
+			];
+
+			const { holdings, realizedGains } = analyzePortfolio(trades, {
+				corporateActions: actions,
+				inwardTransfers: [createTransfer({})]
+			});
+
+			expect(realizedGains.entries).toHaveLength(2);
+			expect(realizedGains.entries[0]).toMatchObject({ quantity: 10, purchasePrice: 1500 });
+			expect(realizedGains.entries[1]).toMatchObject({ quantity: 5, purchasePrice: 500, classification: 'LONG_TERM' });
+			expect(holdings[0].totalQuantity).toBe(25);
+			expect(holdings[0].lots.map((lot) => lot.quantity)).toEqual([5, 20]);
+		});
+
+		it('should flag lots acquired without STT and skip grandfathering for them', () => {
+			const transfer = createTransfer({
+				isin: 'INE009A01021',
+				source: 'OFF_MARKET',
+				acquisitionDate: new Date('2016-05-10'),
+				purchasePrice: 1000,
+				sttPaid: false
+			});
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'sell1', symbol: 'INFY', isin: 'INE009A01021', tradeDate: new Date('2024-12-02'), tradeType: 'sell', quantity: 10, price: 1900 })
+			];
+
+			const { realizedGains } = analyzePortfolio(trades, { inwardTransfers: [transfer] });
+
+			expect(realizedGains.entries[0].sttNotPaid).toBe(true);
+			expect(realizedGains.entries[0].grandfatheredCost).toBeUndefined();
+			expect(realizedGains.ltcg).toBeCloseTo(9000, 2);
+			expect(realizedGains.sttNotPaidLtcg).toBeCloseTo(9000, 2);
+		});
+	});
+
+	describe('Allotments (IPO, rights, partly-paid)', () => {
+		/**
+		 * Helper to create an allotment
+		 */
+		function createAllotment(overrides: Partial<ShareAllotment>): ShareAllotment {
+			return {
+				id: 'al1',
+				type: 'IPO',
+				symbol: 'LICI',
+				isin: 'INE0J1Y01017',
+				exchange: 'NSE',
+				quantity: 15,
+				allotmentDate: new Date('2022-05-12'),
+				pricePerShare: 949,
+				entitlementSymbol: '',
+				entitlementIsin: '',
+				...overrides
+			};
+		}
+
+		it('should add an IPO allotment as a lot dated to the allotment', () => {
+			const { holdings } = analyzePortfolio([], { allotments: [createAllotment({})] });
+
+			expect(holdings).toHaveLength(1);
+			expect(holdings[0].lots).toEqual([
+				{ quantity: 15, purchaseDate: new Date('2022-05-12'), purchasePrice: 949, exchange: 'NSE' }
+			]);
+		});
+
+		it('should add call money to cost and merge partly-paid shares into the fully-paid ISIN', () => {
+			const allotment = createAllotment({
+				type: 'RIGHTS',
+				symbol: 'RELIANCEPP',
+				isin: 'IN9002A01024',
+				quantity: 10,
+				allotmentDate: new Date('2020-06-10'),
+				pricePerShare: 314.25
+			});
+			const payments = [
+				{ id: 'cm1', symbol: 'RELIANCEPP', isin: 'IN9002A01024', paymentDate: new Date('2021-05-20'), amountPerShare: 314.25, fullyPaidSymbol: '', fullyPaidIsin: '' },
+				{ id: 'cm2', symbol: 'RELIANCEPP', isin: 'IN9002A01024', paymentDate: new Date('2021-11-20'), amountPerShare: 628.5, fullyPaidSymbol: 'RELIANCE', fullyPaidIsin: 'INE002A01018' }
+			];
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'RELIANCE', isin: 'INE002A01018', tradeDate: new Date('2022-01-10'), tradeType: 'buy', quantity: 5, price: 2400 })
+			];
+
+			const { holdings } = analyzePortfolio(trades, { allotments: [allotment], callPayments: payments });
+
+			expect(holdings).toHaveLength(1);
+			expect(holdings[0].symbol).toBe('RELIANCE');
+			expect(holdings[0].totalQuantity).toBe(15);
+			expect(holdings[0].lots[0].purchaseDate).toEqual(new Date('2020-06-10'));
+			expect(holdings[0].lots[0].purchasePrice).toBeCloseTo(1257, 6);
+		});
+
+		it('should convert rights entitlements into the allotted shares', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'AIRTEL-RE', isin: 'IN9397D01014', tradeDate: new Date('2021-10-08'), tradeType: 'buy', quantity: 4, price: 150 })
+			];
+			const allotment = createAllotment({
+				type: 'RIGHTS',
+				symbol: 'AIRTELPP',
+				isin: 'IN9397D01014X',
+				quantity: 6,
+				allotmentDate: new Date('2021-10-21'),
+				pricePerShare: 133.75,
+				entitlementSymbol: 'AIRTEL-RE',
+				entitlementIsin: 'IN9397D01014'
+			});
+
+			const { holdings } = analyzePortfolio(trades, { allotments: [allotment] });
+
+			expect(holdings).toHaveLength(1);
+			expect(holdings[0].symbol).toBe('AIRTELPP');
+			expect(holdings[0].totalQuantity).toBe(6);
+			// 4 from bought entitlements (150 + 133.75), 2 from entitlements credited free
+			expect(holdings[0].lots).toEqual([
+				{ quantity: 4, purchaseDate: new Date('2021-10-21'), purchasePrice: 283.75, exchange: 'NSE' },
+				{ quantity: 2, purchaseDate: new Date('2021-10-21'), purchasePrice: 133.75, exchange: 'NSE' }
+			]);
+		});
+	});
+
+	describe('Symbol Changes (renames and mergers)', () => {
+		// Realized gains are summarized for the current FY (2025-26)
+		beforeEach(() => {
+			vi.useFakeTimers();
+			vi.setSystemTime(new Date('2025-12-01'));
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it('should carry lots across a rename that changes the ISIN', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'MINDTREE', tradeDate: new Date('2021-06-01'), tradeType: 'buy', quantity: 10, price: 3000 }),
+				createTrade({ tradeId: 'sell1', symbol: 'LTIM', tradeDate: new Date('2025-06-01'), tradeType: 'sell', quantity: 4, price: 5000 })
+			];
+			const changes = [createChange({ oldSymbol: 'MINDTREE', newSymbol: 'LTIM', effectiveDate: new Date('2022-11-24') })];
+
+			const { holdings, realizedGains, unmatchedSells } = analyzePortfolio(trades, { symbolChanges: changes });
+
+			expect(unmatchedSells).toEqual([]);
+			expect(holdings).toHaveLength(1);
+			expect(holdings[0].symbol).toBe('LTIM');
+			expect(holdings[0].totalQuantity).toBe(6);
+			expect(realizedGains.entries).toHaveLength(1);
+			expect(realizedGains.entries[0].purchaseDate).toEqual(new Date('2021-06-01'));
+			expect(realizedGains.entries[0].classification).toBe('LONG_TERM');
+		});
+
+		it('should carry cost and acquisition dates through a merger swap ratio', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'HDFC', tradeDate: new Date('2020-05-04'), tradeType: 'buy', quantity: 42, price: 1750 })
+			];
+			const changes = [
+				createChange({ type: 'MERGER', oldSymbol: 'HDFC', newSymbol: 'HDFCBANK', effectiveDate: new Date('2023-07-13'), ratioFrom: 25, ratioTo: 42 })
+			];
+
+			const holdings = calculateHoldings(trades, { symbolChanges: changes });
+
+			expect(holdings).toHaveLength(1);
+			expect(holdings[0].symbol).toBe('HDFCBANK');
+			expect(holdings[0].isin).toBe('TEST-HDFCBANK');
+			// 42 HDFC x 42/25 = 70.56 HDFC Bank shares, total cost unchanged
+			expect(holdings[0].totalQuantity).toBeCloseTo(70.56, 6);
+			expect(holdings[0].totalQuantity * holdings[0].avgPurchasePrice).toBeCloseTo(42 * 1750, 6);
+			expect(holdings[0].oldestPurchaseDate).toEqual(new Date('2020-05-04'));
+		});
+
+		it('should merge inherited lots into the acquirer in FIFO order', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'HDFCBANK', tradeDate: new Date('2021-01-10'), tradeType: 'buy', quantity: 10, price: 1400 }),
+				createTrade({ tradeId: 'buy2', symbol: 'HDFC', tradeDate: new Date('2019-03-01'), tradeType: 'buy', quantity: 25, price: 2000 }),
+				createTrade({ tradeId: 'sell1', symbol: 'HDFCBANK', tradeDate: new Date('2025-09-01'), tradeType: 'sell', quantity: 42, price: 1600 })
+			];
+			const changes = [
+				createChange({ type: 'MERGER', oldSymbol: 'HDFC', newSymbol: 'HDFCBANK', effectiveDate: new Date('2023-07-13'), ratioFrom: 25, ratioTo: 42 })
+			];
+
+			const { holdings, realizedGains } = analyzePortfolio(trades, { symbolChanges: changes });
+
+			// The inherited HDFC lot (2019) is older than the HDFC Bank lot, so it is sold first
+			expect(realizedGains.entries).toHaveLength(1);
+			expect(realizedGains.entries[0].purchaseDate).toEqual(new Date('2019-03-01'));
+			expect(realizedGains.entries[0].purchasePrice).toBeCloseTo((25 * 2000) / 42, 6);
+			expect(holdings[0].totalQuantity).toBe(10);
+			expect(holdings[0].lots[0].purchasePrice).toBe(1400);
+		});
+
+		it('should match sells of the old symbol before the effective date against its own lots', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'HDFC', tradeDate: new Date('2020-05-04'), tradeType: 'buy', quantity: 50, price: 1750 }),
+				createTrade({ tradeId: 'sell1', symbol: 'HDFC', tradeDate: new Date('2023-01-10'), tradeType: 'sell', quantity: 25, price: 2600 })
+			];
+			const changes = [
+				createChange({ type: 'MERGER', oldSymbol: 'HDFC', newSymbol: 'HDFCBANK', effectiveDate: new Date('2023-07-13'), ratioFrom: 25, ratioTo: 42 })
+			];
+
+			const { holdings, unmatchedSells } = analyzePortfolio(trades, { symbolChanges: changes });
+
+			// 25 HDFC shares left on the record date become 42 HDFC Bank shares
+			expect(unmatchedSells).toEqual([]);
+			expect(holdings).toHaveLength(1);
+			expect(holdings[0].symbol).toBe('HDFCBANK');
+			expect(holdings[0].totalQuantity).toBe(42);
+		});
+
+		it('should follow chains of symbol changes', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'AAA', tradeDate: new Date('2020-01-10'), tradeType: 'buy', quantity: 10, price: 100 })
+			];
+			const changes = [
+				createChange({ oldSymbol: 'AAA', newSymbol: 'BBB', effectiveDate: new Date('2021-01-01') }),
+				createChange({ type: 'MERGER', oldSymbol: 'BBB', newSymbol: 'CCC', effectiveDate: new Date('2022-01-01'), ratioFrom: 2, ratioTo: 1 })
+			];
+
+			const holdings = calculateHoldings(trades, { symbolChanges: changes });
+
+			expect(holdings).toHaveLength(1);
+			expect(holdings[0].symbol).toBe('CCC');
+			expect(holdings[0].totalQuantity).toBe(5);
+			expect(holdings[0].avgPurchasePrice).toBe(200);
+		});
+
+		it('should show the current symbol for a rename that keeps the ISIN', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'ZOMATO', isin: 'INE758T01015', tradeDate: new Date('2022-01-10'), tradeType: 'buy', quantity: 10, price: 100 }),
+				createTrade({ tradeId: 'buy2', symbol: 'ETERNAL', isin: 'INE758T01015', tradeDate: new Date('2025-04-10'), tradeType: 'buy', quantity: 5, price: 220 })
+			];
+			const changes = [
+				createChange({ oldSymbol: 'ZOMATO', oldIsin: 'INE758T01015', newSymbol: 'ETERNAL', newIsin: 'INE758T01015', effectiveDate: new Date('2025-03-20') })
+			];
+
+			const holdings = calculateHoldings(trades, { symbolChanges: changes });
+
+			expect(holdings).toHaveLength(1);
+			expect(holdings[0].symbol).toBe('ETERNAL');
+			expect(holdings[0].totalQuantity).toBe(15);
+		});
+	});
+
+	describe('Demergers', () => {
+		// Realized gains are summarized for the current FY (2025-26)
+		beforeEach(() => {
+			vi.useFakeTimers();
+			vi.setSystemTime(new Date('2025-12-01'));
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		const demerger: Demerger = {
+			id: 'dm1',
+			parentSymbol: 'RELIANCE',
+			parentIsin: 'TEST-RELIANCE',
+			resultingSymbol: 'JIOFIN',
+			resultingIsin: 'TEST-JIOFIN',
+			recordDate: new Date('2023-07-20'),
+			ratioFrom: 1,
+			ratioTo: 1,
+			costShare: 0.0468
+		};
+
+		it('should split every open lot between the parent and the resulting company', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'RELIANCE', tradeDate: new Date('2021-06-01'), tradeType: 'buy', quantity: 60, price: 2000 }),
+				createTrade({ tradeId: 'buy2', symbol: 'RELIANCE', tradeDate: new Date('2022-03-01'), tradeType: 'buy', quantity: 40, price: 2500 })
+			];
+
+			const holdings = calculateHoldings(trades, { demergers: [demerger] });
+
+			const parent = holdings.find((holding) => holding.symbol === 'RELIANCE')!;
+			const resulting = holdings.find((holding) => holding.symbol === 'JIOFIN')!;
+			expect(parent.totalQuantity).toBe(100);
+			expect(resulting.totalQuantity).toBe(100);
+			expect(resulting.isin).toBe('TEST-JIOFIN');
+			// Total cost is unchanged across both companies
+			const parentCost = parent.totalQuantity * parent.avgPurchasePrice;
+			const resultingCost = resulting.totalQuantity * resulting.avgPurchasePrice;
+			expect(parentCost + resultingCost).toBeCloseTo(60 * 2000 + 40 * 2500, 6);
+			expect(resultingCost).toBeCloseTo((60 * 2000 + 40 * 2500) * 0.0468, 6);
+			// Both lineages keep the original purchase dates
+			expect(resulting.lots.map((lot) => lot.purchaseDate)).toEqual([new Date('2021-06-01'), new Date('2022-03-01')]);
+			expect(resulting.lots[0].purchasePrice).toBeCloseTo(2000 * 0.0468, 6);
+			expect(parent.lots[1].purchasePrice).toBeCloseTo(2500 * 0.9532, 6);
+		});
+
+		it('should match sells of the resulting company against its split lots', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'RELIANCE', tradeDate: new Date('2021-06-01'), tradeType: 'buy', quantity: 10, price: 2000 }),
+				createTrade({ tradeId: 'sell1', symbol: 'RELIANCE', tradeDate: new Date('2022-06-01'), tradeType: 'sell', quantity: 4, price: 2600 }),
+				createTrade({ tradeId: 'sell2', symbol: 'JIOFIN', tradeDate: new Date('2025-06-02'), tradeType: 'sell', quantity: 12, price: 300 })
+			];
+			const twoForOne: Demerger = { ...demerger, ratioTo: 2 };
+
+			const { holdings, realizedGains, unmatchedSells } = analyzePortfolio(trades, { demergers: [twoForOne] });
+
+			// 6 parent shares on the record date give 12 resulting shares, all sold
+			expect(unmatchedSells).toEqual([]);
+			expect(holdings.map((holding) => holding.symbol)).toEqual(['RELIANCE']);
+			expect(realizedGains.entries).toHaveLength(1);
+			expect(realizedGains.entries[0].symbol).toBe('JIOFIN');
+			expect(realizedGains.entries[0].purchaseDate).toEqual(new Date('2021-06-01'));
+			expect(realizedGains.entries[0].classification).toBe('LONG_TERM');
+			expect(realizedGains.entries[0].purchasePrice).toBeCloseTo((2000 * 0.0468) / 2, 6);
+		});
+
+		it('should leave lots bought after the record date with the parent', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'RELIANCE', tradeDate: new Date('2023-08-01'), tradeType: 'buy', quantity: 10, price: 2500 })
+			];
+
+			const holdings = calculateHoldings(trades, { demergers: [demerger] });
+
+			expect(holdings).toHaveLength(1);
+			expect(holdings[0].symbol).toBe('RELIANCE');
+			expect(holdings[0].avgPurchasePrice).toBe(2500);
+		});
+	});
+
+	describe('Buyback Tender Offers', () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it('should book the buyback price as deemed dividend and the cost as capital loss from 1 Oct 2024', () => {
+			vi.setSystemTime(new Date('2025-12-01'));
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'TCS', tradeDate: new Date('2023-01-05'), tradeType: 'buy', quantity: 10, price: 3000 }),
+				createTrade({ tradeId: 'buy2', symbol: 'TCS', tradeDate: new Date('2025-06-10'), tradeType: 'buy', quantity: 5, price: 3400 }),
+				createTrade({ tradeId: 'tender1', symbol: 'TCS', tradeDate: new Date('2025-06-10'), tradeType: 'sell', quantity: 10, price: 4500, tenderOffer: true })
+			];
+
+			const { holdings, realizedGains, tenderOffers } = analyzePortfolio(trades);
+
+			// The same-day buy is not netted against the tender as intraday
+			expect(holdings[0].totalQuantity).toBe(5);
+			expect(holdings[0].lots[0].purchasePrice).toBe(3400);
+			expect(realizedGains.entries).toHaveLength(1);
+			expect(realizedGains.entries[0].deemedDividend).toBe(45000);
+			expect(realizedGains.entries[0].gainLoss).toBe(-30000);
+			expect(realizedGains.ltcl).toBe(30000);
+			expect(realizedGains.ltcg).toBe(0);
+			expect(tenderOffers.deemedDividend).toBe(45000);
+			expect(tenderOffers.capitalLoss).toBe(30000);
+		});
+
+		it('should consume lots without a gain for tenders before 1 Oct 2024', () => {
+			vi.setSystemTime(new Date('2024-12-01'));
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'TCS', tradeDate: new Date('2023-01-05'), tradeType: 'buy', quantity: 10, price: 3000 }),
+				createTrade({ tradeId: 'tender1', symbol: 'TCS', tradeDate: new Date('2024-07-01'), tradeType: 'sell', quantity: 4, price: 4150, tenderOffer: true })
+			];
+
+			const { holdings, realizedGains, tenderOffers, unmatchedSells } = analyzePortfolio(trades);
+
+			expect(holdings[0].totalQuantity).toBe(6);
+			expect(realizedGains.entries).toEqual([]);
+			expect(tenderOffers.entries).toEqual([]);
+			expect(unmatchedSells).toEqual([]);
+		});
+
+		it('should book capital gains on listed tenders before 5 Jul 2019', () => {
+			vi.setSystemTime(new Date('2019-12-01'));
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'TCS', tradeDate: new Date('2018-01-05'), tradeType: 'buy', quantity: 10, price: 1500 }),
+				createTrade({ tradeId: 'tender1', symbol: 'TCS', tradeDate: new Date('2019-06-20'), tradeType: 'sell', quantity: 4, price: 2100, tenderOffer: true })
+			];
+
+			const { holdings, realizedGainEntries, tenderOffers } = analyzePortfolio(trades);
+
+			expect(holdings[0].totalQuantity).toBe(6);
+			expect(realizedGainEntries).toHaveLength(1);
+			expect(realizedGainEntries[0].gainLoss).toBe(2400);
+			expect(realizedGainEntries[0].classification).toBe('LONG_TERM');
+			expect(realizedGainEntries[0].deemedDividend).toBeUndefined();
+			expect(tenderOffers.entries).toEqual([]);
+		});
+	});
+
+	describe('Mutual Funds and Asset Classes', () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+			vi.setSystemTime(new Date('2026-07-01'));
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it('should keep debt fund units bought after 1 Apr 2023 short-term', () => {
+			const fundTransactions: TradeRecord[] = [
+				createTrade({ tradeId: 'mf1', symbol: 'HDFC Liquid Fund', isin: 'INF179K01VY8', exchange: 'MF', tradeDate: new Date('2023-05-02'), tradeType: 'buy', quantity: 10, price: 4500 }),
+				createTrade({ tradeId: 'mf2', symbol: 'HDFC Liquid Fund', isin: 'INF179K01VY8', exchange: 'MF', tradeDate: new Date('2026-06-01'), tradeType: 'sell', quantity: 4, price: 5400 })
+			];
+
+			const { holdings, realizedGains } = analyzePortfolio([], {
+				fundTransactions,
+				assetClasses: { INF179K01VY8: 'DEBT_FUND' }
+			});
+
+			expect(realizedGains.entries).toHaveLength(1);
+			expect(realizedGains.entries[0].classification).toBe('SHORT_TERM');
+			expect(realizedGains.entries[0].assetClass).toBe('DEBT_FUND');
+			expect(realizedGains.stcg).toBeCloseTo(3600);
+			expect(holdings[0].totalQuantity).toBe(6);
+			expect(holdings[0].classification).toBe('SHORT_TERM');
+			expect(holdings[0].assetClass).toBe('DEBT_FUND');
+		});
+
+		it('should use the bundled master for ETFs bought on the exchange', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'GOLDBEES', isin: 'INF204KB17I5', tradeDate: new Date('2024-01-10'), tradeType: 'buy', quantity: 100, price: 50 }),
+				createTrade({ tradeId: 'buy2', symbol: 'GOLDBEES', isin: 'INF204KB17I5', tradeDate: new Date('2025-04-01'), tradeType: 'buy', quantity: 100, price: 70 })
+			];
+
+			const { holdings } = analyzePortfolio(trades);
+
+			// Units bought before 1 Apr 2025 were specified mutual funds
+			expect(holdings[0].assetClass).toBe('GOLD_ETF');
+			expect(holdings[0].classification).toBe('SHORT_TERM');
+		});
+	});
+
+	describe('As-of Date', () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+			vi.setSystemTime(new Date('2026-07-01'));
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		const trades: TradeRecord[] = [
+			createTrade({ tradeId: 'buy1', symbol: 'INFY', tradeDate: new Date('2024-04-10'), tradeType: 'buy', quantity: 10, price: 1400 }),
+			createTrade({ tradeId: 'sell1', symbol: 'INFY', tradeDate: new Date('2024-11-05'), tradeType: 'sell', quantity: 4, price: 1800 }),
+			createTrade({ tradeId: 'sell2', symbol: 'INFY', tradeDate: new Date('2025-06-02'), tradeType: 'sell', quantity: 6, price: 1550 })
+		];
+
+		it('should replay trades up to the as-of date and classify open lots on it', () => {
+			const { holdings, realizedGains } = analyzePortfolio(trades, { asOfDate: new Date(2025, 2, 31) });
+
+			expect(holdings).toHaveLength(1);
+			expect(holdings[0].totalQuantity).toBe(6);
+			// Bought 10 Apr 2024: not yet more than 12 months on 31 Mar 2025
+			expect(holdings[0].classification).toBe('SHORT_TERM');
+			expect(realizedGains.entries.map((entry) => entry.sellDate)).toEqual([new Date('2024-11-05')]);
+			expect(realizedGains.stcg).toBe(1600);
+		});
+
+		it('should summarize the FY containing the as-of date', () => {
+			const { holdings, realizedGains } = analyzePortfolio(trades, { asOfDate: new Date(2025, 5, 30) });
+
+			expect(holdings).toEqual([]);
+			// FY 2025-26 only has the June sell, which is long-term
+			expect(realizedGains.entries).toHaveLength(1);
+			expect(realizedGains.ltcg).toBe(900);
+			expect(realizedGains.stcg).toBe(0);
+		});
+
+		it('should leave out corporate actions after the as-of date', () => {
+			const split = createAction({ type: 'SPLIT', symbol: 'INFY', exDate: new Date('2025-05-01'), ratioFrom: 1, ratioTo: 2 });
+
+			const holdings = calculateHoldings(trades.slice(0, 2), {
+				corporateActions: [split],
+				asOfDate: new Date(2025, 2, 31)
+			});
+
+			expect(holdings[0].totalQuantity).toBe(6);
+			expect(holdings[0].lots[0].purchasePrice).toBe(1400);
+		});
+	});
+
+	describe('Financial Years', () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+			vi.setSystemTime(new Date('2025-08-01'));
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it('should summarize every FY covered and keep all entries', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'TCS', tradeDate: new Date('2022-05-10'), tradeType: 'buy', quantity: 10, price: 3000 }),
+				createTrade({ tradeId: 'sell1', symbol: 'TCS', tradeDate: new Date('2022-09-12'), tradeType: 'sell', quantity: 3, price: 3200 }),
+				createTrade({ tradeId: 'sell2', symbol: 'TCS', tradeDate: new Date('2024-03-28'), tradeType: 'sell', quantity: 3, price: 3800 }),
+				createTrade({ tradeId: 'sell3', symbol: 'TCS', tradeDate: new Date('2025-06-02'), tradeType: 'sell', quantity: 4, price: 2900 })
+			];
+
+			const { realizedGains, realizedGainsByFy, realizedGainEntries } = analyzePortfolio(trades);
+
+			expect(realizedGainsByFy.map((year) => year.label)).toEqual(['FY 2025-26', 'FY 2024-25', 'FY 2023-24', 'FY 2022-23']);
+			expect(realizedGainsByFy[0].gains).toEqual(realizedGains);
+			expect(realizedGainsByFy[0].gains.ltcl).toBe(400);
+			expect(realizedGainsByFy[1].gains.entries).toEqual([]);
+			expect(realizedGainsByFy[2].gains.ltcg).toBe(2400);
+			expect(realizedGainsByFy[3].gains.stcg).toBe(600);
+			expect(realizedGainEntries.map((entry) => entry.sellDate)).toEqual([
+				new Date('2022-09-12'),
+				new Date('2024-03-28'),
+				new Date('2025-06-02')
+			]);
+		});
+	});
+
+	describe('Intraday Trades', () => {
+		it('should keep same-day round trips out of FIFO and capital gains', () => {
+			const today = new Date();
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'INFY', tradeDate: daysAgo(400), tradeType: 'buy', quantity: 10, price: 1000 }),
+				createTrade({ tradeId: 'buy2', symbol: 'INFY', tradeDate: today, tradeType: 'buy', quantity: 5, price: 1500 }),
+				createTrade({ tradeId: 'sell1', symbol: 'INFY', tradeDate: today, tradeType: 'sell', quantity: 5, price: 1520 })
+			];
+
+			const { holdings, realizedGains, speculativeIncome } = analyzePortfolio(trades);
+
+			// The long-term lot is untouched by the intraday sell
+			expect(holdings[0].totalQuantity).toBe(10);
+			expect(holdings[0].lots[0].purchasePrice).toBe(1000);
+			expect(realizedGains.entries).toEqual([]);
+			expect(speculativeIncome.netPnl).toBe(100);
+		});
+	});
+
+	describe('Transaction Charges', () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+			vi.setSystemTime(new Date('2025-12-01'));
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it('should add buy charges to cost and deduct sale charges from the gain, reporting STT separately', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'INFY', tradeDate: new Date('2025-05-02'), tradeType: 'buy', quantity: 10, price: 1000, charges: 20, stt: 10 }),
+				createTrade({ tradeId: 'sell1', symbol: 'INFY', tradeDate: new Date('2025-08-01'), tradeType: 'sell', quantity: 5, price: 1200, charges: 15, stt: 6 })
+			];
+
+			const { holdings, realizedGains } = analyzePortfolio(trades);
+
+			// Cost per share 1002; 5 × 1200 - 15 - 5 × 1002
+			expect(realizedGains.entries[0].gainLoss).toBeCloseTo(975, 6);
+			expect(realizedGains.entries[0].saleCharges).toBe(15);
+			expect(realizedGains.stcg).toBeCloseTo(975, 6);
+			expect(realizedGains.sttPaid).toBe(16);
+			expect(holdings[0].avgPurchasePrice).toBeCloseTo(1002, 6);
+		});
+
+		it('should apply imported contract-note charges', () => {
+			const trades: TradeRecord[] = [
+				createTrade({ tradeId: 'buy1', symbol: 'INFY', tradeDate: new Date('2025-05-02T00:00:00'), tradeType: 'buy', quantity: 10, price: 1000 })
+			];
+			const charges = [
+				{ id: 'ch1', tradeDate: new Date('2025-05-02T00:00:00'), tradeId: '', brokerage: 0, exchangeCharges: 3, sebiFees: 0, stampDuty: 1.5, gst: 0.5, stt: 10 }
+			];
+
+			const { holdings, realizedGains } = analyzePortfolio(trades, { charges });
+
+			expect(holdings[0].avgPurchasePrice).toBeCloseTo(1000.5, 6);
+			expect(realizedGains.sttPaid).toBe(10);
+		});
+	});
+
 	describe('Edge Cases', () => {
 		it('should return empty array for empty trades input', () => {
 			const holdings = calculateHoldings([]);
@@ -673,12 +1665,23 @@ describe('classifyHolding', () => {
 		expect(classifyHolding(purchaseDate)).toBe('SHORT_TERM');
 	});
 
-	it('should return LONG_TERM for holding at 366 days', () => {
+	it('should return SHORT_TERM for holding at 366 days that is exactly 12 months old', () => {
 		// 366 days before Jan 20, 2025 = Jan 20, 2024 (includes leap day Feb 29)
 		const purchaseDate = new Date('2024-01-20');
+		expect(classifyHolding(purchaseDate)).toBe('SHORT_TERM');
+	});
+
+	it('should return LONG_TERM for holding one day past 12 months', () => {
+		const purchaseDate = new Date('2024-01-19');
 		expect(classifyHolding(purchaseDate)).toBe('LONG_TERM');
 	});
 
+	it('should classify on an injected as-of date', () => {
+		const purchaseDate = new Date('2024-01-20');
+		expect(classifyHolding(purchaseDate, 'EQUITY', new Date('2025-01-21'))).toBe('LONG_TERM');
+		expect(classifyHolding(purchaseDate, 'DEBT_FUND', new Date('2027-01-21'))).toBe('SHORT_TERM');
+	});
+
 	it('should return LONG_TERM for holding purchased multiple years ago', () => {
 		const purchaseDate = new Date('2020-01-01');
 		expect(classifyHolding(purchaseDate)).toBe('LONG_TERM');
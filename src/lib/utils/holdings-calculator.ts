@@ -3,8 +3,66 @@
  * Processes trade records to calculate current holdings with accurate lot tracking
  */
 
-import { differenceInDays } from 'date-fns';
-import type { TradeRecord, Holding, HoldingLot, Classification, RealizedGainEntry, RealizedGainsSummary } from '$lib/types';
+import { addYears, endOfDay } from 'date-fns';
+import type {
+	AssetClass,
+	TradeRecord,
+	Holding,
+	HoldingLot,
+	Classification,
+	CallMoneyPayment,
+	ContractNoteCharges,
+	CorporateAction,
+	Demerger,
+	DerivativeIncomeSummary,
+	DerivativeTrade,
+	DividendIncomeSummary,
+	DatedOpeningPosition,
+	DividendRecord,
+	FinancialYearGains,
+	InwardTransfer,
+	OpeningPosition,
+	RealizedGainEntry,
+	RealizedGainsSummary,
+	ShareAllotment,
+	SpeculativeIncomeSummary,
+	SymbolChange,
+	TenderOfferSummary,
+	UnmatchedSell
+} from '$lib/types';
+import {
+	applyCorporateAction,
+	deriveCorporateActionSymbolChanges,
+	getActionsForHolding
+} from '$lib/utils/corporate-actions';
+import { isDatedPosition, openingPositionToLot } from '$lib/utils/opening-positions';
+import { inwardTransferToLot, sortLotsForFifo } from '$lib/utils/inward-transfers';
+import { getDemergersForHolding, splitLotsForDemerger } from '$lib/utils/demergers';
+import {
+	allotmentToLot,
+	applyCallMoney,
+	convertEntitlementLots,
+	deriveAllotmentSymbolChanges,
+	findEntitlementAllotment,
+	getCallPaymentsForHolding
+} from '$lib/utils/allotments';
+import { separateIntradayTrades, summarizeSpeculativeIncome } from '$lib/utils/intraday';
+import { summarizeDerivativeIncome } from '$lib/utils/fno-calculator';
+import { allocateCharges } from '$lib/utils/charges';
+import { attachDividendsToHoldings, summarizeDividendIncome } from '$lib/utils/dividends';
+import { isDeemedDividendBuyback, isExemptBuyback, summarizeTenderOffers } from '$lib/utils/tender-offers';
+import { classifyByAssetClass, resolveAssetClass } from '$lib/utils/asset-classes';
+import { getFyLabel, getFyStartDate, isInFy } from '$lib/utils/financial-year';
+import {
+	convertLotsForSymbolChange,
+	findOutgoingChange,
+	resolveCurrentSymbol
+} from '$lib/utils/symbol-history';
+import {
+	GRANDFATHERING_CUTOFF_DATE,
+	assignGrandfatheredFmv,
+	getGrandfatheredCost
+} from '$lib/utils/grandfathering';
 
 /**
  * Internal structure for tracking holdings during calculation
@@ -17,11 +75,53 @@ interface HoldingAccumulator {
 }
 
 /**
- * Creates a unique key for grouping trades by symbol and exchange
- * NSE and BSE trades for the same stock are treated as separate holdings (req 2.5)
+ * How lots are pooled for FIFO matching
+ * - ISIN: one FIFO queue per ISIN across NSE and BSE, as the depository and
+ *   the Income Tax department apply FIFO per ISIN per demat account (default)
+ * - EXCHANGE: separate FIFO queues per symbol+exchange (req 2.5)
  */
-function createHoldingKey(symbol: string, exchange: string): string {
-	return `${symbol}:${exchange}`;
+export type FifoMode = 'ISIN' | 'EXCHANGE';
+
+/**
+ * Fields needed to place a trade, opening position or inward transfer in a FIFO group
+ */
+interface HoldingKeySource {
+	symbol: string;
+	isin: string;
+	exchange: string;
+}
+
+/**
+ * Maps each symbol to the first non-empty ISIN seen for it
+ * Lets trades exported without an ISIN join the ISIN group of the same symbol
+ */
+function buildIsinBySymbol(items: HoldingKeySource[]): Map<string, string> {
+	const isinBySymbol = new Map<string, string>();
+
+	for (const item of items) {
+		if (item.isin && !isinBySymbol.has(item.symbol)) {
+			isinBySymbol.set(item.symbol, item.isin);
+		}
+	}
+
+	return isinBySymbol;
+}
+
+/**
+ * Creates a unique key for grouping trades into FIFO queues
+ * In ISIN mode, trades with no known ISIN fall back to a per-symbol queue
+ */
+function createHoldingKey(
+	item: HoldingKeySource,
+	fifoMode: FifoMode,
+	isinBySymbol: Map<string, string>
+): string {
+	if (fifoMode === 'EXCHANGE') {
+		return `${item.symbol}:${item.exchange}`;
+	}
+
+	const isin = item.isin || isinBySymbol.get(item.symbol);
+	return isin ? `ISIN:${isin}` : `SYMBOL:${item.symbol}`;
 }
 
 /**
@@ -33,16 +133,21 @@ function sortTradesChronologically(trades: TradeRecord[]): TradeRecord[] {
 }
 
 /**
- * Groups trades by symbol+exchange combination
+ * Groups trades, opening positions, inward transfers or allotments by ISIN or
+ * symbol+exchange, depending on the FIFO mode
  * Each group will be processed independently
  */
-function groupTradesByHolding(trades: TradeRecord[]): Map<string, TradeRecord[]> {
-	const groups = new Map<string, TradeRecord[]>();
+function groupItemsByHolding<T extends HoldingKeySource>(
+	items: T[],
+	fifoMode: FifoMode,
+	isinBySymbol: Map<string, string>
+): Map<string, T[]> {
+	const groups = new Map<string, T[]>();
 
-	for (const trade of trades) {
-		const key = createHoldingKey(trade.symbol, trade.exchange);
+	for (const item of items) {
+		const key = createHoldingKey(item, fifoMode, isinBySymbol);
 		const existing = groups.get(key) || [];
-		existing.push(trade);
+		existing.push(item);
 		groups.set(key, existing);
 	}
 
@@ -53,8 +158,10 @@ function groupTradesByHolding(trades: TradeRecord[]): Map<string, TradeRecord[]>
  * Result of applying FIFO sell - includes consumed lot info for gain calculation
  */
 interface FifoSellResult {
-	/** Lots consumed with their quantities and prices */
-	consumedLots: { quantity: number; purchaseDate: Date; purchasePrice: number }[];
+	/** Lots consumed with their quantities, prices and grandfathered FMV */
+	consumedLots: HoldingLot[];
+	/** Shares sold beyond the available lots (missing history) */
+	unmatchedQuantity: number;
 	/** Weighted average purchase price of consumed shares */
 	avgPurchasePrice: number;
 	/** Oldest purchase date among consumed lots */
@@ -64,7 +171,8 @@ interface FifoSellResult {
 /**
  * Applies FIFO logic to process a sell trade against existing lots
  * Consumes oldest lots first, reducing their quantity
- * Returns info about consumed lots for gain/loss calculation
+ * Returns info about consumed lots for gain/loss calculation, and any
+ * quantity that could not be matched because the lots ran out
  *
  * @param lots - Array of existing lots (will be mutated)
  * @param sellQuantity - Number of shares to sell
@@ -72,7 +180,7 @@ interface FifoSellResult {
  */
 function applyFifoSell(lots: HoldingLot[], sellQuantity: number): FifoSellResult {
 	let remainingToSell = sellQuantity;
-	const consumedLots: { quantity: number; purchaseDate: Date; purchasePrice: number }[] = [];
+	const consumedLots: HoldingLot[] = [];
 
 	// Process lots in order (oldest first - they should already be sorted by purchaseDate)
 	for (let i = 0; i < lots.length && remainingToSell > 0; i++) {
@@ -80,30 +188,17 @@ function applyFifoSell(lots: HoldingLot[], sellQuantity: number): FifoSellResult
 
 		if (lot.quantity <= remainingToSell) {
 			// Consume entire lot
-			consumedLots.push({
-				quantity: lot.quantity,
-				purchaseDate: lot.purchaseDate,
-				purchasePrice: lot.purchasePrice
-			});
+			consumedLots.push({ ...lot });
 			remainingToSell -= lot.quantity;
 			lot.quantity = 0;
 		} else {
 			// Partial consumption of this lot
-			consumedLots.push({
-				quantity: remainingToSell,
-				purchaseDate: lot.purchaseDate,
-				purchasePrice: lot.purchasePrice
-			});
+			consumedLots.push({ ...lot, quantity: remainingToSell });
 			lot.quantity -= remainingToSell;
 			remainingToSell = 0;
 		}
 	}
 
-	// Note: If remainingToSell > 0, this indicates selling more than owned
-	if (remainingToSell > 0) {
-		console.warn(`FIFO sell warning: ${remainingToSell} shares could not be matched to existing lots`);
-	}
-
 	// Calculate weighted average purchase price
 	let totalValue = 0;
 	let totalQty = 0;
@@ -119,6 +214,8 @@ function applyFifoSell(lots: HoldingLot[], sellQuantity: number): FifoSellResult
 
 	return {
 		consumedLots,
+		// Selling more than owned means buys are missing from the history
+		unmatchedQuantity: remainingToSell,
 		avgPurchasePrice: totalQty > 0 ? totalValue / totalQty : 0,
 		oldestPurchaseDate: oldestDate
 	};
@@ -189,17 +286,28 @@ function findNewestPurchaseDate(lots: HoldingLot[]): Date {
  * Classifies a holding as SHORT_TERM or LONG_TERM based on the oldest purchase date
  *
  * Per Indian tax law:
- * - SHORT_TERM: Held for 365 days or less (STCL can offset both STCG and LTCG)
- * - LONG_TERM: Held for more than 365 days (LTCL can only offset LTCG)
+ * - SHORT_TERM: Held for 12 months or less (STCL can offset both STCG and LTCG)
+ * - LONG_TERM: Held for more than 12 months (LTCL can only offset LTCG)
+ *
+ * Months are counted on calendar dates: a lot bought on 20 Jan 2024 is
+ * long-term from 21 Jan 2025, whatever the number of days in between.
+ *
+ * Debt funds, gold ETFs and other non-equity funds follow the holding periods
+ * of their asset class instead (see HOLDING_PERIOD_RULES).
  *
  * Classification is based on the oldest lot's purchase date (req 3.1)
  *
  * @param oldestPurchaseDate - The purchase date of the oldest lot in the holding
- * @returns Classification - 'SHORT_TERM' if held <= 365 days, 'LONG_TERM' if > 365 days
+ * @param assetClass - Asset class of the security (defaults to listed equity)
+ * @param asOf - Date to classify on (defaults to today)
+ * @returns Classification - 'SHORT_TERM' if held <= 12 months, 'LONG_TERM' if > 12 months
  */
-export function classifyHolding(oldestPurchaseDate: Date): Classification {
-	const holdingDays = differenceInDays(new Date(), oldestPurchaseDate);
-	return holdingDays <= 365 ? 'SHORT_TERM' : 'LONG_TERM';
+export function classifyHolding(
+	oldestPurchaseDate: Date,
+	assetClass: AssetClass = 'EQUITY',
+	asOf: Date = new Date()
+): Classification {
+	return classifyByAssetClass(assetClass, oldestPurchaseDate, asOf);
 }
 
 /**
@@ -208,63 +316,253 @@ export function classifyHolding(oldestPurchaseDate: Date): Classification {
 interface HoldingWithGains {
 	accumulator: HoldingAccumulator | null;
 	realizedGains: RealizedGainEntry[];
+	unmatchedSells: UnmatchedSell[];
+	/** Lots moved out to the successor symbol when this one was retired */
+	transferredLots: HoldingLot[];
+	/** Lots split off to resulting companies, per demerger */
+	demergedLots: DemergedLots[];
 }
 
 /**
- * Processes trades for a single symbol+exchange combination
+ * Resulting company lots split off a holding by one demerger
+ */
+interface DemergedLots {
+	demerger: Demerger;
+	lots: HoldingLot[];
+}
+
+/**
+ * Lots that join a holding part-way through the replay (e.g., after a merger)
+ */
+interface InboundLots {
+	date: Date;
+	lots: HoldingLot[];
+}
+
+/**
+ * Inputs for replaying a single FIFO group
+ */
+interface HoldingReplayInput {
+	trades: TradeRecord[];
+	corporateActions: CorporateAction[];
+	/** Demergers; lots are split on the record date of those naming this group as parent */
+	demergers: Demerger[];
+	openingPositions: DatedOpeningPosition[];
+	/** Shares received without a trade, added on their credit date */
+	inwardTransfers: InwardTransfer[];
+	/** IPO and rights allotments, added on their allotment date */
+	allotments: ShareAllotment[];
+	/** Call money payments, added to lot cost on their payment date */
+	callPayments: CallMoneyPayment[];
+	/** Symbol history, used to show the current symbol of a renamed holding */
+	symbolChanges: SymbolChange[];
+	/** Asset class per ISIN, deciding the holding period of each sold lot */
+	assetClasses: Record<string, AssetClass>;
+	/** Lots carried in from predecessor symbols, added on their effective date */
+	inboundLots: InboundLots[];
+	/** Change that retires this group; open lots move out on its effective date */
+	outgoingChange?: SymbolChange;
+	/** Identity for a group that only receives inbound lots */
+	fallbackIdentity?: HoldingKeySource;
+	/** End of the as-of date; events after it are not applied */
+	asOf: Date;
+}
+
+/**
+ * A dated step in the replay that is not a trade
+ */
+interface ReplayEvent {
+	date: Date;
+	apply: () => void;
+}
+
+/**
+ * Processes trades for a single FIFO group (one ISIN, or one symbol+exchange)
  * Applies FIFO logic: buys create new lots, sells consume oldest lots first
  * Also tracks realized gains/losses from each sell
  *
  * IMPORTANT: Each consumed lot creates a SEPARATE realized gain entry
  * because different lots may have different holding periods (ST vs LT)
+ *
+ * Opening positions are seeded as lots before the first trade is replayed.
+ * Corporate actions, demergers, inward transfers, allotments, call money, lots
+ * inherited from a predecessor symbol and the retirement of this symbol are
+ * applied on their dates between trades.
+ * Sell quantity that no lot can cover is reported as an unmatched sell.
  */
-function processTradesForHolding(trades: TradeRecord[]): HoldingWithGains {
+function processTradesForHolding(input: HoldingReplayInput): HoldingWithGains {
+	const { trades, corporateActions, openingPositions, inwardTransfers, allotments, symbolChanges, inboundLots } = input;
+	const { outgoingChange } = input;
 	const realizedGains: RealizedGainEntry[] = [];
+	const unmatchedSells: UnmatchedSell[] = [];
+	let transferredLots: HoldingLot[] = [];
+	const demergedLots: DemergedLots[] = [];
 
-	if (trades.length === 0) {
-		return { accumulator: null, realizedGains };
+	const first =
+		trades[0] ?? openingPositions[0] ?? inwardTransfers[0] ?? allotments[0] ?? input.fallbackIdentity;
+	if (!first) {
+		return { accumulator: null, realizedGains, unmatchedSells, transferredLots, demergedLots };
 	}
 
 	// Sort trades chronologically within this group
 	const sortedTrades = sortTradesChronologically(trades);
 
-	// Initialize accumulator with first trade's metadata
-	const firstTrade = sortedTrades[0];
+	// Initialize accumulator with the first trade's (or opening position's) metadata
+	// Prefer the NSE symbol when lots are pooled across exchanges, since quotes come from NSE
+	const identities = [...sortedTrades, ...openingPositions, ...inwardTransfers, ...allotments];
+	const nseSymbol = identities.find((item) => item.exchange === 'NSE')?.symbol;
 	const accumulator: HoldingAccumulator = {
-		symbol: firstTrade.symbol,
-		isin: firstTrade.isin,
-		exchange: firstTrade.exchange,
-		lots: []
+		symbol: sortedTrades[0]?.symbol ?? first.symbol,
+		isin: first.isin,
+		exchange: first.exchange,
+		lots: [...openingPositions]
+			.sort((a, b) => a.acquisitionDate.getTime() - b.acquisitionDate.getTime())
+			.map(openingPositionToLot)
+	};
+
+	// Use the first non-empty ISIN in the group to match corporate actions
+	const groupIsin = identities.find((item) => item.isin)?.isin ?? first.isin;
+	if (!accumulator.isin) {
+		accumulator.isin = groupIsin;
+	}
+
+	// Show the symbol the security trades under today (renames keep their ISIN)
+	accumulator.symbol = resolveCurrentSymbol(symbolChanges, nseSymbol ?? first.symbol, groupIsin);
+
+	// Debt funds, gold ETFs and other non-equity units have their own holding periods
+	const assetClass = resolveAssetClass(groupIsin, input.assetClasses);
+
+	let grandfatheringApplied = false;
+
+	// Non-trade events in date order; on the same date actions run before lots move
+	const events: ReplayEvent[] = [
+		...getActionsForHolding(corporateActions, groupIsin, first.symbol).map((action) => ({
+			date: action.exDate,
+			apply: () => {
+				accumulator.lots = applyCorporateAction(accumulator.lots, action);
+			}
+		})),
+		...getDemergersForHolding(input.demergers, groupIsin, first.symbol).map((demerger) => ({
+			date: demerger.recordDate,
+			apply: () => {
+				const { parentLots, resultingLots } = splitLotsForDemerger(accumulator.lots, demerger);
+				accumulator.lots = parentLots;
+				demergedLots.push({ demerger, lots: resultingLots });
+			}
+		})),
+		...inwardTransfers.map((transfer) => ({
+			date: transfer.transferDate,
+			apply: () => {
+				// FIFO follows the credit date, while the lot keeps the original acquisition date
+				const lots = [inwardTransferToLot(transfer)];
+				accumulator.lots.push(...(grandfatheringApplied ? assignGrandfatheredFmv(lots, groupIsin) : lots));
+			}
+		})),
+		...getCallPaymentsForHolding(input.callPayments, groupIsin, first.symbol).map((payment) => ({
+			date: payment.paymentDate,
+			apply: () => {
+				accumulator.lots = applyCallMoney(accumulator.lots, payment);
+			}
+		})),
+		...inboundLots.map((inbound) => ({
+			date: inbound.date,
+			apply: () => {
+				// Inherited lots keep their acquisition (or credit) dates, so re-sort for FIFO
+				accumulator.lots = sortLotsForFifo([...accumulator.lots, ...inbound.lots]);
+			}
+		})),
+		// After inbound lots, so converted rights entitlements queue ahead of the rest of their allotment
+		...allotments.map((allotment) => ({
+			date: allotment.allotmentDate,
+			apply: () => {
+				accumulator.lots.push(allotmentToLot(allotment));
+			}
+		})),
+		...(outgoingChange
+			? [
+					{
+						date: outgoingChange.effectiveDate,
+						apply: () => {
+							transferredLots = convertLotsForSymbolChange(accumulator.lots, outgoingChange);
+							accumulator.lots = [];
+						}
+					}
+				]
+			: [])
+	].sort((a, b) => a.date.getTime() - b.date.getTime());
+	let nextEventIndex = 0;
+
+	/**
+	 * Attaches the 31 Jan 2018 FMV to pre-cutoff lots once the replay reaches 1 Feb 2018
+	 */
+	const applyGrandfatheringAt = (date: Date) => {
+		if (!grandfatheringApplied && date >= GRANDFATHERING_CUTOFF_DATE) {
+			accumulator.lots = assignGrandfatheredFmv(accumulator.lots, groupIsin);
+			grandfatheringApplied = true;
+		}
+	};
+
+	/**
+	 * Applies every pending event dated on or before the given date
+	 * Trades on an ex-date or effective date are already quoted post-event, so the event runs first
+	 */
+	const applyEventsUpTo = (date: Date) => {
+		while (nextEventIndex < events.length && events[nextEventIndex].date <= date) {
+			const event = events[nextEventIndex];
+			applyGrandfatheringAt(event.date);
+			event.apply();
+			nextEventIndex++;
+		}
+		applyGrandfatheringAt(date);
 	};
 
 	// Process each trade
 	for (const trade of sortedTrades) {
+		applyEventsUpTo(trade.tradeDate);
+
 		// Update ISIN if we get a better value (non-empty)
 		if (trade.isin && !accumulator.isin) {
 			accumulator.isin = trade.isin;
 		}
 
 		if (trade.tradeType === 'buy') {
-			// Add new lot for buy trades
+			// Add new lot for buy trades; buy charges are part of the cost of acquisition
 			accumulator.lots.push({
 				quantity: trade.quantity,
 				purchaseDate: trade.tradeDate,
-				purchasePrice: trade.price
+				purchasePrice: trade.price + (trade.charges ?? 0) / trade.quantity,
+				exchange: trade.exchange
 			});
 		} else if (trade.tradeType === 'sell') {
 			// Apply FIFO for sell trades and capture consumed lot info
 			const fifoResult = applyFifoSell(accumulator.lots, trade.quantity);
 
+			// Listed buyback tenders from 5 Jul 2019 to 30 Sep 2024 were exempt for the shareholder
+			// (Section 10(34A)); earlier ones were ordinary sales. From 1 Oct 2024 the proceeds are a
+			// deemed dividend and the sale consideration is nil (Section 46A)
+			const isDeemedDividend = isDeemedDividendBuyback(trade);
+			const isExempt = isExemptBuyback(trade);
+
 			// Create SEPARATE realized gain entries for each consumed lot
 			// This is crucial because different lots may have different holding periods
-			for (const consumedLot of fifoResult.consumedLots) {
-				const sellValue = consumedLot.quantity * trade.price;
-				const costBasis = consumedLot.quantity * consumedLot.purchasePrice;
-				const gainLoss = sellValue - costBasis;
-
+			for (const consumedLot of isExempt ? [] : fifoResult.consumedLots) {
 				// Classify based on THIS LOT's holding period at time of sale
-				const holdingDays = differenceInDays(trade.tradeDate, consumedLot.purchaseDate);
-				const classification: Classification = holdingDays <= 365 ? 'SHORT_TERM' : 'LONG_TERM';
+				const classification = classifyByAssetClass(assetClass, consumedLot.purchaseDate, trade.tradeDate);
+
+				// Long-term lots acquired before 1 Feb 2018 use the grandfathered cost (Section 112A)
+				// With a nil sale consideration the grandfathered cost is the actual cost
+				const isGrandfathered =
+					classification === 'LONG_TERM' && consumedLot.grandfatheredFmv !== undefined && !isDeemedDividend;
+				const costPrice = isGrandfathered
+					? getGrandfatheredCost(consumedLot, trade.price)
+					: consumedLot.purchasePrice;
+
+				// Sale charges are expenses on transfer, deducted pro rata from each lot's sale value
+				const sellValue = consumedLot.quantity * trade.price;
+				const deemedDividend = isDeemedDividend ? sellValue : 0;
+				const saleCharges = ((trade.charges ?? 0) * consumedLot.quantity) / trade.quantity;
+				const costBasis = consumedLot.quantity * costPrice;
+				const gainLoss = sellValue - deemedDividend - saleCharges - costBasis;
 
 				realizedGains.push({
 					symbol: trade.symbol,
@@ -273,62 +571,120 @@ function processTradesForHolding(trades: TradeRecord[]): HoldingWithGains {
 					sellDate: trade.tradeDate,
 					sellPrice: trade.price,
 					purchasePrice: consumedLot.purchasePrice,
+					...(isGrandfathered && { grandfatheredCost: costPrice }),
+					...(saleCharges > 0 && { saleCharges }),
+					...(consumedLot.sttNotPaid && { sttNotPaid: true }),
+					...(isDeemedDividend && { deemedDividend }),
+					...(assetClass !== 'EQUITY' && { assetClass }),
 					purchaseDate: consumedLot.purchaseDate,
 					gainLoss,
 					classification
 				});
 			}
 
+			if (fifoResult.unmatchedQuantity > 0) {
+				unmatchedSells.push({
+					symbol: trade.symbol,
+					isin: trade.isin,
+					exchange: trade.exchange,
+					sellDate: trade.tradeDate,
+					quantity: fifoResult.unmatchedQuantity
+				});
+			}
+
 			// Remove fully consumed lots
 			accumulator.lots = removeEmptyLots(accumulator.lots);
 		}
 	}
 
-	// Return null accumulator if no remaining lots (fully sold position)
+	// Apply events dated after the last trade, up to the as-of date
+	applyEventsUpTo(input.asOf);
+
+	// Return null accumulator if no remaining lots (fully sold or moved to a successor)
 	if (accumulator.lots.length === 0) {
-		return { accumulator: null, realizedGains };
+		return { accumulator: null, realizedGains, unmatchedSells, transferredLots, demergedLots };
 	}
 
-	return { accumulator, realizedGains };
+	return { accumulator, realizedGains, unmatchedSells, transferredLots, demergedLots };
 }
 
 /**
- * Result of portfolio analysis containing both holdings and realized gains
+ * Optional inputs that refine the FIFO replay beyond plain buys and sells
  */
-export interface PortfolioAnalysis {
-	holdings: Holding[];
-	realizedGains: RealizedGainsSummary;
+export interface AnalysisOptions {
+	/** Splits, consolidations and bonus issues to apply to lots on their ex-date */
+	corporateActions?: CorporateAction[];
+	/** Demergers splitting parent lots into resulting company lots on their record date */
+	demergers?: Demerger[];
+	/** Holdings carried into the trade history, seeded as lots before replay (undated ones are left out) */
+	openingPositions?: OpeningPosition[];
+	/** How lots are pooled for FIFO matching (defaults to 'ISIN') */
+	fifoMode?: FifoMode;
+	/** Ticker renames and mergers linking old symbols to their successors */
+	symbolChanges?: SymbolChange[];
+	/** Futures and options trades, summarized as business income */
+	derivativeTrades?: DerivativeTrade[];
+	/** Contract-note charges, spread across the equity trades they cover */
+	charges?: ContractNoteCharges[];
+	/** Shares received by gift, inheritance or off-market transfer */
+	inwardTransfers?: InwardTransfer[];
+	/** IPO and rights allotments */
+	allotments?: ShareAllotment[];
+	/** Call money paid on partly-paid shares */
+	callPayments?: CallMoneyPayment[];
+	/** Dividends received, linked to holdings by ISIN */
+	dividends?: DividendRecord[];
+	/** Mutual fund purchases and redemptions from CAMS/KFintech statements */
+	fundTransactions?: TradeRecord[];
+	/** Asset class per ISIN, over the bundled master (e.g., user overrides, scheme categories) */
+	assetClasses?: Record<string, AssetClass>;
+	/** Replay only up to the end of this date and summarize its FY (defaults to today) */
+	asOfDate?: Date;
 }
 
 /**
- * Gets the current financial year start date
- * Indian FY runs from April 1 to March 31
+ * Result of portfolio analysis containing both holdings and realized gains
  */
-function getCurrentFyStartDate(): Date {
-	const now = new Date();
-	const month = now.getMonth(); // 0-indexed
-	const year = now.getFullYear();
-
-	// If Jan-Mar, FY started previous year April
-	// If Apr-Dec, FY started this year April
-	const fyStartYear = month < 3 ? year - 1 : year;
-	return new Date(fyStartYear, 3, 1); // April 1
+export interface PortfolioAnalysis {
+	holdings: Holding[];
+	/** Realized gains of the as-of FY */
+	realizedGains: RealizedGainsSummary;
+	/** Realized gains of every FY from the first trade to the as-of FY, newest first */
+	realizedGainsByFy: FinancialYearGains[];
+	/** Every realized gain entry across all years, in sell date order */
+	realizedGainEntries: RealizedGainEntry[];
+	/** Intraday trades of the as-of FY, kept out of capital gains */
+	speculativeIncome: SpeculativeIncomeSummary;
+	/** Futures and options results of the as-of FY, kept out of capital gains */
+	derivativeIncome: DerivativeIncomeSummary;
+	/** Dividends with an ex-date in the as-of FY */
+	dividendIncome: DividendIncomeSummary;
+	/** Buyback tender offers of the as-of FY, as deemed dividend and capital loss */
+	tenderOffers: TenderOfferSummary;
+	/** Sells that exceeded the known lots, in chronological order */
+	unmatchedSells: UnmatchedSell[];
 }
 
 /**
  * Summarizes realized gains into STCG/STCL/LTCG/LTCL buckets
- * Only includes gains from current financial year
+ * Only includes gains (and STT paid on trades) from the financial year starting on `fyStart`
  */
-function summarizeRealizedGains(entries: RealizedGainEntry[]): RealizedGainsSummary {
-	const fyStart = getCurrentFyStartDate();
-
-	// Filter to current FY only
-	const fyEntries = entries.filter((e) => e.sellDate >= fyStart);
+function summarizeRealizedGains(
+	entries: RealizedGainEntry[],
+	trades: TradeRecord[],
+	fyStart: Date
+): RealizedGainsSummary {
+	// Filter to the FY only
+	const fyEntries = entries.filter((e) => isInFy(e.sellDate, fyStart));
+	const sttPaid = trades
+		.filter((trade) => isInFy(trade.tradeDate, fyStart))
+		.reduce((sum, trade) => sum + (trade.stt ?? 0), 0);
 
 	let stcg = 0;
 	let stcl = 0;
 	let ltcg = 0;
 	let ltcl = 0;
+	let sttNotPaidLtcg = 0;
 
 	for (const entry of fyEntries) {
 		if (entry.classification === 'SHORT_TERM') {
@@ -340,6 +696,9 @@ function summarizeRealizedGains(entries: RealizedGainEntry[]): RealizedGainsSumm
 		} else {
 			if (entry.gainLoss >= 0) {
 				ltcg += entry.gainLoss;
+				if (entry.sttNotPaid) {
+					sttNotPaidLtcg += entry.gainLoss;
+				}
 			} else {
 				ltcl += Math.abs(entry.gainLoss);
 			}
@@ -353,53 +712,302 @@ function summarizeRealizedGains(entries: RealizedGainEntry[]): RealizedGainsSumm
 		ltcl,
 		netShortTerm: stcg - stcl,
 		netLongTerm: ltcg - ltcl,
+		sttPaid,
+		sttNotPaidLtcg,
 		entries: fyEntries
 	};
 }
 
+/**
+ * Summarizes realized gains for every FY from the earliest trade or sale to the as-of FY
+ * Years without sales are included, so the covered range has no gaps
+ *
+ * @returns Summaries per FY, newest first
+ */
+function summarizeRealizedGainsByFy(
+	entries: RealizedGainEntry[],
+	trades: TradeRecord[],
+	asOfFyStart: Date
+): FinancialYearGains[] {
+	// Reduce rather than spread, since long tradebooks exceed the argument limit
+	const earliest = [...entries.map((entry) => entry.sellDate), ...trades.map((trade) => trade.tradeDate)].reduce(
+		(oldest, date) => (date < oldest ? date : oldest),
+		asOfFyStart
+	);
+
+	const years: FinancialYearGains[] = [];
+	for (let fyStart = asOfFyStart; fyStart >= getFyStartDate(earliest); fyStart = addYears(fyStart, -1)) {
+		years.push({
+			label: getFyLabel(fyStart),
+			startDate: fyStart,
+			gains: summarizeRealizedGains(entries, trades, fyStart)
+		});
+	}
+
+	return years;
+}
+
 /**
  * Calculates holdings from trade records using FIFO (First-In-First-Out) logic
  *
  * This function:
- * - Groups trades by symbol+exchange (req 2.1, 2.5)
+ * - Groups trades per ISIN across exchanges, or by symbol+exchange in EXCHANGE mode (req 2.1, 2.5)
  * - Applies FIFO for sells: oldest lots are consumed first (req 2.2)
  * - Tracks individual lots with purchaseDate and purchasePrice (req 2.3)
  * - Excludes symbols with zero net quantity (req 2.4)
  * - Classifies holdings as SHORT_TERM or LONG_TERM based on oldest lot (req 3.1, 3.2, 3.3)
  *
  * @param trades - Array of TradeRecord objects from parsed tradebooks
+ * @param options - Optional corporate actions, opening positions and other replay inputs
  * @returns Array of Holding objects representing current positions
  */
-export function calculateHoldings(trades: TradeRecord[]): Holding[] {
-	return analyzePortfolio(trades).holdings;
+export function calculateHoldings(trades: TradeRecord[], options: AnalysisOptions = {}): Holding[] {
+	return analyzePortfolio(trades, options).holdings;
 }
 
 /**
  * Calculates both holdings and realized gains from trade records
  *
+ * Corporate actions (splits, consolidations, bonuses) are replayed against
+ * each holding's lots on their ex-date, before any later trade is matched.
+ * Opening positions seed lots before the first trade of their holding, and
+ * inward transfers and allotments join the FIFO queue on their credit or
+ * allotment date. Call money on partly-paid shares adds to lot cost, and the
+ * final call merges them into the fully-paid ISIN.
+ * When a symbol is renamed or merged away, its open lots move to the
+ * successor holding on the effective date with their acquisition dates.
+ * A demerger splits the parent's open lots on the record date, moving part of
+ * their cost to new lots of the resulting company with the same acquisition dates.
+ * Intraday quantity (bought and sold the same day) is netted into speculative
+ * income and never reaches FIFO. F&O trades are summarized as business income.
+ * Deductible contract-note charges are added to buy cost and deducted from sale value.
+ * Dividends are totalled per holding and for the current FY.
+ * Buyback tender sells from 1 Oct 2024 book their cost as a capital loss and
+ * their proceeds as a deemed dividend; earlier tenders were exempt.
+ * With an as-of date, only trades and events up to the end of that date are
+ * replayed, open lots are classified on it and summaries cover its FY.
+ *
  * @param trades - Array of TradeRecord objects from parsed tradebooks
- * @returns Holdings and realized gains summary
+ * @param options - Optional corporate actions, opening positions and other replay inputs
+ * @returns Holdings, realized gains, speculative, F&O, dividend and tender-offer summaries, and sells that exceeded known lots
  */
-export function analyzePortfolio(trades: TradeRecord[]): PortfolioAnalysis {
-	if (!trades || trades.length === 0) {
+export function analyzePortfolio(trades: TradeRecord[], options: AnalysisOptions = {}): PortfolioAnalysis {
+	// Everything dated after the as-of date is left out, as if it had not happened yet
+	const asOf = endOfDay(options.asOfDate ?? new Date());
+	const fyStart = getFyStartDate(asOf);
+	const upToAsOf = <T>(items: T[] | undefined, getDate: (item: T) => Date): T[] =>
+		(items ?? []).filter((item) => getDate(item) <= asOf);
+
+	const replayedTrades = upToAsOf(trades, (trade) => trade.tradeDate);
+	const openingPositions = upToAsOf(options.openingPositions?.filter(isDatedPosition), (position) => position.acquisitionDate);
+	const inwardTransfers = upToAsOf(options.inwardTransfers, (transfer) => transfer.transferDate);
+	const allotments = upToAsOf(options.allotments, (allotment) => allotment.allotmentDate);
+	const callPayments = upToAsOf(options.callPayments, (payment) => payment.paymentDate);
+	const corporateActions = upToAsOf(options.corporateActions, (action) => action.exDate);
+	const demergers = upToAsOf(options.demergers, (demerger) => demerger.recordDate);
+	const dividends = upToAsOf(options.dividends, (dividend) => dividend.exDate);
+	const fundTransactions = upToAsOf(options.fundTransactions, (trade) => trade.tradeDate);
+	const assetClasses = options.assetClasses ?? {};
+	const derivativeIncome = summarizeDerivativeIncome(
+		upToAsOf(options.derivativeTrades, (trade) => trade.tradeDate),
+		fyStart
+	);
+	const dividendIncome = summarizeDividendIncome(dividends, fyStart);
+
+	if (
+		replayedTrades.length === 0 &&
+		fundTransactions.length === 0 &&
+		openingPositions.length === 0 &&
+		inwardTransfers.length === 0 &&
+		allotments.length === 0
+	) {
 		return {
 			holdings: [],
-			realizedGains: { stcg: 0, stcl: 0, ltcg: 0, ltcl: 0, netShortTerm: 0, netLongTerm: 0, entries: [] }
+			realizedGains: { stcg: 0, stcl: 0, ltcg: 0, ltcl: 0, netShortTerm: 0, netLongTerm: 0, sttPaid: 0, sttNotPaidLtcg: 0, entries: [] },
+			realizedGainsByFy: [],
+			realizedGainEntries: [],
+			speculativeIncome: { profit: 0, loss: 0, netPnl: 0, turnover: 0, entries: [] },
+			derivativeIncome,
+			dividendIncome,
+			tenderOffers: { deemedDividend: 0, capitalLoss: 0, entries: [] },
+			unmatchedSells: []
 		};
 	}
 
-	// Group trades by symbol+exchange
-	const tradeGroups = groupTradesByHolding(trades);
+	// Contract-note charges adjust cost and sale value; STT is only reported
+	const chargedTrades = allocateCharges(replayedTrades, options.charges ?? []);
+
+	// Same-day buys and sells are speculative income; only the delivery part enters FIFO
+	// Fund units are bought from and redeemed with the AMC, so they never net intraday
+	const separated = separateIntradayTrades(chargedTrades);
+	const deliveryTrades = [...separated.deliveryTrades, ...fundTransactions];
+	const speculativeEntries = separated.speculativeEntries;
+
+	// Group trades, opening positions and inward transfers into FIFO queues (per ISIN by default)
+	const fifoMode = options.fifoMode ?? 'ISIN';
+	const isinBySymbol = buildIsinBySymbol([...deliveryTrades, ...openingPositions, ...inwardTransfers, ...allotments]);
+	const tradeGroups = groupItemsByHolding(deliveryTrades, fifoMode, isinBySymbol);
+	const positionGroups = groupItemsByHolding(openingPositions, fifoMode, isinBySymbol);
+	const transferGroups = groupItemsByHolding(inwardTransfers, fifoMode, isinBySymbol);
+	const allotmentGroups = groupItemsByHolding(allotments, fifoMode, isinBySymbol);
+	const holdingKeys = new Set([
+		...tradeGroups.keys(),
+		...positionGroups.keys(),
+		...transferGroups.keys(),
+		...allotmentGroups.keys()
+	]);
+
+	// Link each group retired by a symbol change to its successor group
+	// Rights entitlement conversions, final calls on partly-paid shares and splits
+	// that issue a new ISIN link groups too
+	const symbolChanges = [
+		...upToAsOf(options.symbolChanges, (change) => change.effectiveDate),
+		...deriveAllotmentSymbolChanges(allotments, callPayments),
+		...deriveCorporateActionSymbolChanges(corporateActions)
+	];
+	const successors = new Map<string, { change: SymbolChange; key: string }>();
+	const predecessors = new Map<string, string[]>();
+	const successorIdentities = new Map<string, HoldingKeySource>();
+	// Group receiving the resulting company lots of each demerger
+	const demergerTargets = new Map<string, string>();
+
+	// Successor and resulting company groups are queued too, so chains (A → B → C) are followed
+	const pendingKeys = [...holdingKeys];
+
+	/**
+	 * Records that a group receives lots from another, queueing it if it has no items of its own
+	 */
+	const linkGroups = (fromKey: string, toKey: string, identity: HoldingKeySource) => {
+		predecessors.set(toKey, [...(predecessors.get(toKey) ?? []), fromKey]);
+		if (!holdingKeys.has(toKey) && !successorIdentities.has(toKey)) {
+			successorIdentities.set(toKey, identity);
+			pendingKeys.push(toKey);
+		}
+	};
+
+	for (let index = 0; index < pendingKeys.length; index++) {
+		const key = pendingKeys[index];
+		const source =
+			tradeGroups.get(key)?.[0] ??
+			positionGroups.get(key)?.[0] ??
+			transferGroups.get(key)?.[0] ??
+			allotmentGroups.get(key)?.[0] ??
+			successorIdentities.get(key)!;
+
+		for (const demerger of getDemergersForHolding(demergers, source.isin, source.symbol)) {
+			const identity: HoldingKeySource = {
+				symbol: demerger.resultingSymbol,
+				isin: demerger.resultingIsin,
+				exchange: source.exchange
+			};
+			const resultingKey = createHoldingKey(identity, fifoMode, isinBySymbol);
+			if (resultingKey !== key && !demergerTargets.has(demerger.id)) {
+				demergerTargets.set(demerger.id, resultingKey);
+				linkGroups(key, resultingKey, identity);
+			}
+		}
+
+		const change = findOutgoingChange(symbolChanges, source);
+		if (!change || successors.has(key)) {
+			continue;
+		}
+
+		const identity: HoldingKeySource = {
+			symbol: change.newSymbol,
+			isin: change.newIsin || (change.type === 'RENAME' ? source.isin : ''),
+			exchange: source.exchange
+		};
+		const successorKey = createHoldingKey(identity, fifoMode, isinBySymbol);
+
+		// A rename that keeps the ISIN is already the same FIFO group in ISIN mode
+		if (successorKey === key) {
+			continue;
+		}
+
+		successors.set(key, { change, key: successorKey });
+		linkGroups(key, successorKey, identity);
+	}
 
 	const holdings: Holding[] = [];
 	const allRealizedGains: RealizedGainEntry[] = [];
+	const allUnmatchedSells: UnmatchedSell[] = [];
+	const inboundLots = new Map<string, InboundLots[]>();
+	const results = new Map<string, HoldingWithGains>();
+	const visiting = new Set<string>();
+	// Allotted shares already covered by converted rights entitlements, per allotment
+	const convertedQuantities = new Map<string, number>();
+
+	/**
+	 * Replays a group after every predecessor, so inherited lots are ready
+	 */
+	const replayGroup = (key: string) => {
+		if (results.has(key) || visiting.has(key)) {
+			return;
+		}
+		visiting.add(key);
+
+		for (const predecessor of predecessors.get(key) ?? []) {
+			replayGroup(predecessor);
+		}
+
+		const successor = successors.get(key);
+		const result = processTradesForHolding({
+			trades: tradeGroups.get(key) ?? [],
+			corporateActions,
+			demergers,
+			openingPositions: positionGroups.get(key) ?? [],
+			inwardTransfers: transferGroups.get(key) ?? [],
+			allotments: (allotmentGroups.get(key) ?? [])
+				.map((allotment) => ({
+					...allotment,
+					quantity: allotment.quantity - (convertedQuantities.get(allotment.id) ?? 0)
+				}))
+				.filter((allotment) => allotment.quantity > 0),
+			callPayments,
+			symbolChanges,
+			assetClasses,
+			inboundLots: inboundLots.get(key) ?? [],
+			outgoingChange: successor?.change,
+			fallbackIdentity: successorIdentities.get(key),
+			asOf
+		});
+
+		if (successor && result.transferredLots.length > 0) {
+			// Exercised rights entitlements become the allotted shares, dated to the allotment
+			const allotment = findEntitlementAllotment(allotments, successor.change);
+			const lots = allotment ? convertEntitlementLots(result.transferredLots, allotment) : result.transferredLots;
+			if (allotment) {
+				convertedQuantities.set(allotment.id, calculateTotalQuantity(lots));
+			}
 
-	// Process each group independently
-	for (const groupTrades of tradeGroups.values()) {
-		const { accumulator, realizedGains } = processTradesForHolding(groupTrades);
+			inboundLots.set(successor.key, [
+				...(inboundLots.get(successor.key) ?? []),
+				{ date: successor.change.effectiveDate, lots }
+			]);
+		}
+
+		for (const { demerger, lots } of result.demergedLots) {
+			const resultingKey = demergerTargets.get(demerger.id);
+			if (resultingKey && lots.length > 0) {
+				inboundLots.set(resultingKey, [
+					...(inboundLots.get(resultingKey) ?? []),
+					{ date: demerger.recordDate, lots }
+				]);
+			}
+		}
+
+		results.set(key, result);
+	};
+
+	for (const key of pendingKeys) {
+		replayGroup(key);
+	}
 
-		// Collect realized gains from all groups
+	// Collect holdings from every group
+	for (const { accumulator, realizedGains, unmatchedSells } of results.values()) {
+		// Collect realized gains and unmatched sells from all groups
 		allRealizedGains.push(...realizedGains);
+		allUnmatchedSells.push(...unmatchedSells);
 
 		// Skip if fully sold (accumulator is null)
 		if (!accumulator) {
@@ -413,18 +1021,21 @@ export function analyzePortfolio(trades: TradeRecord[]): PortfolioAnalysis {
 		const newestPurchaseDate = findNewestPurchaseDate(accumulator.lots);
 
 		// Classify based on oldest purchase date (req 3.1, 3.2, 3.3)
-		const classification = classifyHolding(oldestPurchaseDate);
+		const assetClass = resolveAssetClass(accumulator.isin, assetClasses);
+		const classification = classifyHolding(oldestPurchaseDate, assetClass, asOf);
 
 		holdings.push({
 			symbol: accumulator.symbol,
 			isin: accumulator.isin,
-			exchange: accumulator.exchange,
+			// Route sells to the exchange of the lot FIFO will consume first
+			exchange: accumulator.lots[0].exchange ?? accumulator.exchange,
 			lots: accumulator.lots,
 			totalQuantity,
 			avgPurchasePrice,
 			oldestPurchaseDate,
 			newestPurchaseDate,
-			classification
+			classification,
+			...(assetClass !== 'EQUITY' && { assetClass })
 		});
 	}
 
@@ -432,7 +1043,14 @@ export function analyzePortfolio(trades: TradeRecord[]): PortfolioAnalysis {
 	holdings.sort((a, b) => a.symbol.localeCompare(b.symbol));
 
 	return {
-		holdings,
-		realizedGains: summarizeRealizedGains(allRealizedGains)
+		holdings: attachDividendsToHoldings(holdings, dividends, symbolChanges, asOf),
+		realizedGains: summarizeRealizedGains(allRealizedGains, chargedTrades, fyStart),
+		realizedGainsByFy: summarizeRealizedGainsByFy(allRealizedGains, chargedTrades, fyStart),
+		realizedGainEntries: [...allRealizedGains].sort((a, b) => a.sellDate.getTime() - b.sellDate.getTime()),
+		speculativeIncome: summarizeSpeculativeIncome(speculativeEntries, fyStart),
+		derivativeIncome,
+		dividendIncome,
+		tenderOffers: summarizeTenderOffers(allRealizedGains, fyStart),
+		unmatchedSells: allUnmatchedSells.sort((a, b) => a.sellDate.getTime() - b.sellDate.getTime())
 	};
 }
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for intraday trade detection
+ * Tests netting of same-day trades and the speculative income summary
+ */
+
+import { describe, it, expect } from 'vitest';
+import { separateIntradayTrades, summarizeSpeculativeIncome } from './intraday';
+import type { TradeRecord } from '$lib/types';
+
+/**
+ * Helper to create a trade record
+ */
+function createTrade(
+	tradeId: string,
+	tradeType: 'buy' | 'sell',
+	quantity: number,
+	price: number,
+	tradeDate: Date,
+	exchange = 'NSE'
+): TradeRecord {
+	return { tradeId, symbol: 'INFY', isin: 'INE009A01021', tradeDate, exchange, tradeType, quantity, price };
+}
+
+describe('separateIntradayTrades', () => {
+	it('should pass through days with trades on one side only', () => {
+		const trades = [
+			createTrade('B1', 'buy', 10, 1500, new Date(2025, 5, 2)),
+			createTrade('S1', 'sell', 10, 1600, new Date(2025, 5, 3))
+		];
+
+		const { deliveryTrades, speculativeEntries } = separateIntradayTrades(trades);
+
+		expect(deliveryTrades).toEqual(trades);
+		expect(speculativeEntries).toEqual([]);
+	});
+
+	it('should net a same-day round trip into a speculative entry', () => {
+		const trades = [
+			createTrade('B1', 'buy', 10, 1500, new Date(2025, 5, 2)),
+			createTrade('B2', 'buy', 10, 1520, new Date(2025, 5, 2)),
+			createTrade('S1', 'sell', 20, 1530, new Date(2025, 5, 2))
+		];
+
+		const { deliveryTrades, speculativeEntries } = separateIntradayTrades(trades);
+
+		expect(deliveryTrades).toEqual([]);
+		expect(speculativeEntries).toHaveLength(1);
+		expect(speculativeEntries[0].quantity).toBe(20);
+		expect(speculativeEntries[0].buyPrice).toBe(1510);
+		expect(speculativeEntries[0].pnl).toBe(400);
+	});
+
+	it('should keep the excess quantity as a delivery trade at its average price', () => {
+		const trades = [
+			createTrade('B1', 'buy', 15, 1500, new Date(2025, 5, 2)),
+			createTrade('B2', 'buy', 5, 1540, new Date(2025, 5, 2), 'BSE'),
+			createTrade('S1', 'sell', 8, 1550, new Date(2025, 5, 2))
+		];
+
+		const { deliveryTrades, speculativeEntries } = separateIntradayTrades(trades);
+
+		expect(speculativeEntries[0].quantity).toBe(8);
+		expect(speculativeEntries[0].pnl).toBe(8 * (1550 - 1510));
+		expect(deliveryTrades).toHaveLength(1);
+		expect(deliveryTrades[0]).toMatchObject({ tradeId: 'B1', tradeType: 'buy', quantity: 12, price: 1510 });
+	});
+});
+
+describe('summarizeSpeculativeIncome', () => {
+	it('should total profit, loss and turnover from the given date', () => {
+		const { speculativeEntries } = separateIntradayTrades([
+			createTrade('B1', 'buy', 10, 100, new Date(2025, 2, 10)),
+			createTrade('S1', 'sell', 10, 150, new Date(2025, 2, 10)),
+			createTrade('B2', 'buy', 10, 100, new Date(2025, 5, 2)),
+			createTrade('S2', 'sell', 10, 130, new Date(2025, 5, 2)),
+			createTrade('B3', 'buy', 10, 100, new Date(2025, 6, 1)),
+			createTrade('S3', 'sell', 10, 80, new Date(2025, 6, 1))
+		]);
+
+		const summary = summarizeSpeculativeIncome(speculativeEntries, new Date(2025, 3, 1));
+
+		expect(summary.entries).toHaveLength(2);
+		expect(summary.profit).toBe(300);
+		expect(summary.loss).toBe(200);
+		expect(summary.netPnl).toBe(100);
+		expect(summary.turnover).toBe(500);
+	});
+});
@@ -0,0 +1,154 @@
+/**
+ * Intraday Trade Detection
+ * Separates same-day buys and sells of a security (speculative business income)
+ * from delivery trades that go through capital-gains FIFO
+ */
+
+import { format } from 'date-fns';
+import type { SpeculativeEntry, SpeculativeIncomeSummary, TradeRecord } from '$lib/types';
+
+/**
+ * Result of separating intraday trades from delivery trades
+ */
+export interface IntradaySplit {
+	/** Trades (or their delivery remainder) that carry over to FIFO */
+	deliveryTrades: TradeRecord[];
+	/** Netted intraday quantity per security per day */
+	speculativeEntries: SpeculativeEntry[];
+}
+
+/**
+ * Builds the key for one security on one trading day
+ * NSE and BSE trades of the same ISIN net against each other
+ */
+function getDayKey(trade: TradeRecord): string {
+	return `${trade.isin || trade.symbol}|${format(trade.tradeDate, 'yyyy-MM-dd')}`;
+}
+
+/**
+ * Returns the volume-weighted average price of a set of trades
+ */
+function getAveragePrice(trades: TradeRecord[], quantity: number): number {
+	return trades.reduce((sum, trade) => sum + trade.price * trade.quantity, 0) / quantity;
+}
+
+/**
+ * Sums an optional per-trade amount (allocated charges or STT)
+ */
+function sumAmount(trades: TradeRecord[], field: 'charges' | 'stt'): number {
+	return trades.reduce((sum, trade) => sum + (trade[field] ?? 0), 0);
+}
+
+/**
+ * Separates intraday trades from delivery trades
+ *
+ * For each security and day with both buys and sells, the smaller of the bought
+ * and sold quantities is intraday: it is netted at the day's average buy and sell
+ * prices into a speculative entry, net of its share of charges. Only the excess on
+ * the larger side is delivery, and is passed on as one trade at that side's average
+ * price, carrying the rest of that side's charges and STT. Buyback tender-offer
+ * sells are never netted.
+ *
+ * @param trades - Trade records from parsed tradebooks
+ * @returns Delivery trades for FIFO and netted speculative entries
+ */
+export function separateIntradayTrades(trades: TradeRecord[]): IntradaySplit {
+	const deliveryTrades: TradeRecord[] = [];
+	const speculativeEntries: SpeculativeEntry[] = [];
+
+	const days = new Map<string, TradeRecord[]>();
+	for (const trade of trades) {
+		// Buyback tender acceptances always deliver shares out of the account
+		if (trade.tenderOffer) {
+			deliveryTrades.push(trade);
+			continue;
+		}
+
+		const key = getDayKey(trade);
+		const group = days.get(key) ?? [];
+		group.push(trade);
+		days.set(key, group);
+	}
+
+	for (const group of days.values()) {
+		const buys = group.filter((trade) => trade.tradeType === 'buy');
+		const sells = group.filter((trade) => trade.tradeType === 'sell');
+
+		if (buys.length === 0 || sells.length === 0) {
+			deliveryTrades.push(...group);
+			continue;
+		}
+
+		const boughtQuantity = buys.reduce((sum, trade) => sum + trade.quantity, 0);
+		const soldQuantity = sells.reduce((sum, trade) => sum + trade.quantity, 0);
+		const quantity = Math.min(boughtQuantity, soldQuantity);
+		const buyPrice = getAveragePrice(buys, boughtQuantity);
+		const sellPrice = getAveragePrice(sells, soldQuantity);
+		const intradayCharges =
+			(sumAmount(buys, 'charges') * quantity) / boughtQuantity +
+			(sumAmount(sells, 'charges') * quantity) / soldQuantity;
+		// Prefer the NSE symbol when both exchanges traded, since quotes come from NSE
+		const first = group.find((trade) => trade.exchange === 'NSE') ?? group[0];
+
+		speculativeEntries.push({
+			symbol: first.symbol,
+			isin: first.isin,
+			tradeDate: first.tradeDate,
+			quantity,
+			buyPrice,
+			sellPrice,
+			pnl: (sellPrice - buyPrice) * quantity - intradayCharges
+		});
+
+		// The excess side is a delivery trade at its own average price
+		const excessSide = boughtQuantity > soldQuantity ? buys : sells;
+		const excessQuantity = Math.abs(boughtQuantity - soldQuantity);
+		if (excessQuantity > 0) {
+			const share = excessQuantity / Math.max(boughtQuantity, soldQuantity);
+			deliveryTrades.push({
+				...excessSide[0],
+				quantity: excessQuantity,
+				price: excessSide === buys ? buyPrice : sellPrice,
+				charges: sumAmount(excessSide, 'charges') * share,
+				stt: sumAmount(excessSide, 'stt') * share
+			});
+		}
+	}
+
+	return {
+		deliveryTrades,
+		speculativeEntries: speculativeEntries.sort((a, b) => a.tradeDate.getTime() - b.tradeDate.getTime())
+	};
+}
+
+/**
+ * Summarizes speculative entries into profit, loss, net income and turnover
+ *
+ * @param entries - Netted intraday entries
+ * @param fromDate - Only entries on or after this date are included (start of the FY)
+ * @returns Speculative income summary
+ */
+export function summarizeSpeculativeIncome(
+	entries: SpeculativeEntry[],
+	fromDate: Date
+): SpeculativeIncomeSummary {
+	const fyEntries = entries.filter((entry) => entry.tradeDate >= fromDate);
+
+	let profit = 0;
+	let loss = 0;
+	for (const entry of fyEntries) {
+		if (entry.pnl >= 0) {
+			profit += entry.pnl;
+		} else {
+			loss += Math.abs(entry.pnl);
+		}
+	}
+
+	return {
+		profit,
+		loss,
+		netPnl: profit - loss,
+		turnover: profit + loss,
+		entries: fyEntries
+	};
+}
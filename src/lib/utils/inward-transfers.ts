@@ -0,0 +1,90 @@
+/**
+ * Inward Transfers
+ * Validates shares received by gift, inheritance or off-market transfer and
+ * converts them into FIFO lots that keep the original acquisition date and cost
+ */
+
+import type { HoldingLot, InwardTransfer, InwardTransferSource } from '$lib/types';
+
+/**
+ * Display labels for each way shares can arrive without a trade
+ */
+export const INWARD_TRANSFER_SOURCE_LABELS: Record<InwardTransferSource, string> = {
+	GIFT: 'Gift',
+	INHERITANCE: 'Inheritance',
+	OWN_DEMAT: 'From own demat',
+	OFF_MARKET: 'Off-market purchase'
+};
+
+/**
+ * Whether STT is assumed paid on the original acquisition for a transfer source
+ * Gifts, inheritance and moves between own accounts carry over the original
+ * purchase (usually on-exchange); an off-market purchase pays no STT
+ */
+export function isSttPaidByDefault(source: InwardTransferSource): boolean {
+	return source !== 'OFF_MARKET';
+}
+
+/**
+ * Validates an inward transfer before it is recorded
+ *
+ * @param transfer - Inward transfer to validate
+ * @returns Human-readable error message, or null if the transfer is valid
+ */
+export function validateInwardTransfer(transfer: Omit<InwardTransfer, 'id'>): string | null {
+	if (!transfer.symbol?.trim()) {
+		return 'Symbol is required';
+	}
+
+	if (!(transfer.quantity > 0)) {
+		return 'Quantity must be a positive number';
+	}
+
+	if (!(transfer.purchasePrice >= 0)) {
+		return 'Cost per share must be zero or more';
+	}
+
+	if (!(transfer.transferDate instanceof Date) || isNaN(transfer.transferDate.getTime())) {
+		return 'A valid credit date is required';
+	}
+
+	if (!(transfer.acquisitionDate instanceof Date) || isNaN(transfer.acquisitionDate.getTime())) {
+		return 'A valid original acquisition date is required';
+	}
+
+	if (transfer.acquisitionDate > transfer.transferDate) {
+		return 'The original acquisition date cannot be after the credit date';
+	}
+
+	return null;
+}
+
+/**
+ * Converts an inward transfer into the FIFO lot it adds on the credit date
+ * The lot is dated to the original acquisition, so the previous owner's
+ * holding period counts towards long-term classification, and queued by the
+ * credit date, so later re-sorts keep it where it joined
+ */
+export function inwardTransferToLot(transfer: InwardTransfer): HoldingLot {
+	return {
+		quantity: transfer.quantity,
+		purchaseDate: transfer.acquisitionDate,
+		purchasePrice: transfer.purchasePrice,
+		exchange: transfer.exchange,
+		...(!transfer.sttPaid && { sttNotPaid: true }),
+		queuedDate: transfer.transferDate
+	};
+}
+
+/**
+ * Sorts lots into FIFO order: by the date each joined the queue, which is the
+ * purchase date unless the lot was transferred in
+ * The sort is stable, so lots queued on the same date keep their order
+ *
+ * @param lots - Lots to order
+ * @returns New array of lots in FIFO order
+ */
+export function sortLotsForFifo(lots: HoldingLot[]): HoldingLot[] {
+	const fifoTime = (lot: HoldingLot) => (lot.queuedDate ?? lot.purchaseDate).getTime();
+	return [...lots].sort((a, b) => fifoTime(a) - fifoTime(b));
+}
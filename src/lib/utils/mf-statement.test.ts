@@ -0,0 +1,74 @@
+/**
+ * Unit tests for mutual fund statements
+ * Tests CAMS/KFintech statement parsing into trades and schemes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getLatestNavs, parseMfStatement } from './mf-statement';
+
+const STATEMENT = [
+	'Consolidated Account Statement',
+	'Investor,A N OTHER',
+	'',
+	'Folio No,Scheme Name,ISIN,Transaction Date,Transaction Type,Amount,Units,NAV',
+	'1234567/89,Parag Parikh Flexi Cap Fund - Direct Plan - Growth,INF879O01027,05-Jan-2023,SIP Purchase,"5,000.00",95.123,52.5637',
+	'1234567/89,Parag Parikh Flexi Cap Fund - Direct Plan - Growth,INF879O01027,05-Jan-2023,Stamp Duty,0.25,,',
+	'9876543/21,HDFC Liquid Fund - Direct Plan - Growth,INF179K01VY8,10-Apr-2023,Purchase,"10,000.00",2.2222,4500.0',
+	'1234567/89,Parag Parikh Flexi Cap Fund - Direct Plan - Growth,INF879O01027,12-Mar-2025,Redemption,(4000.00),(50.000),80.00',
+	'9876543/21,HDFC Liquid Fund - Direct Plan - Growth,INF179K01VY8,31-Feb-2024,Purchase,100.00,0.02,4700.0'
+].join('\n');
+
+describe('parseMfStatement', () => {
+	it('should turn purchases and redemptions into trades and skip rows without units', () => {
+		const { transactions, schemes, issues } = parseMfStatement(STATEMENT);
+
+		expect(transactions).toHaveLength(3);
+		expect(transactions[0]).toMatchObject({
+			symbol: 'Parag Parikh Flexi Cap Fund - Direct Plan - Growth',
+			isin: 'INF879O01027',
+			tradeDate: new Date(2023, 0, 5),
+			exchange: 'MF',
+			tradeType: 'buy',
+			quantity: 95.123,
+			price: 52.5637
+		});
+		expect(transactions[2]).toMatchObject({ tradeType: 'sell', quantity: 50, price: 80 });
+		expect(schemes.map((scheme) => scheme.assetClass)).toEqual(['EQUITY_FUND', 'DEBT_FUND']);
+		expect(issues).toEqual([{ row: 9, column: 'transaction date', value: '31-Feb-2024', reason: 'Invalid date' }]);
+	});
+
+	it('should give the same trade IDs when a statement is parsed again', () => {
+		const first = parseMfStatement(STATEMENT).transactions.map((trade) => trade.tradeId);
+		const second = parseMfStatement(STATEMENT).transactions.map((trade) => trade.tradeId);
+		expect(second).toEqual(first);
+		expect(new Set(first).size).toBe(3);
+	});
+
+	it('should put same-day purchases ahead of redemptions', () => {
+		const statement = [
+			'Folio No,Scheme Name,ISIN,Transaction Date,Amount,Units,NAV',
+			'1234567/89,HDFC Liquid Fund - Direct Plan - Growth,INF179K01VY8,10-Apr-2023,(9000.00),(2.000),4500.0',
+			'1234567/89,HDFC Liquid Fund - Direct Plan - Growth,INF179K01VY8,10-Apr-2023,"9,000.00",2.000,4500.0'
+		].join('\n');
+
+		const { transactions } = parseMfStatement(statement);
+
+		expect(transactions.map((trade) => trade.tradeType)).toEqual(['buy', 'sell']);
+	});
+
+	it('should reject files that are not mutual fund statements', () => {
+		expect(() => parseMfStatement('Symbol,Quantity\nINFY,10')).toThrow('Not a mutual fund statement');
+		expect(() => parseMfStatement('Scheme,Units\nHDFC Liquid Fund,10')).toThrow('missing ISIN, Date, NAV or Amount');
+	});
+});
+
+describe('getLatestNavs', () => {
+	it('should take the NAV of each scheme’s latest transaction up to the as-of date', () => {
+		const { transactions } = parseMfStatement(STATEMENT);
+
+		const navs = getLatestNavs(transactions, new Date(2024, 11, 31));
+
+		expect(navs.get('INF879O01027')).toEqual({ nav: 52.5637, date: new Date(2023, 0, 5) });
+		expect(navs.get('INF179K01VY8')).toEqual({ nav: 4500, date: new Date(2023, 3, 10) });
+	});
+});
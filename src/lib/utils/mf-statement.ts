@@ -0,0 +1,188 @@
+/**
+ * Mutual Fund Statements
+ * Parses CAMS/KFintech consolidated transaction statements (CSV export) into
+ * buy and sell trades for the FIFO lot ledger, one queue per scheme ISIN
+ */
+
+import Papa from 'papaparse';
+import { format } from 'date-fns';
+import type { MutualFundScheme, ParseIssue, TradeRecord } from '$lib/types';
+import { IMPORT_DATE_FORMATS, findColumn, parseDateWithFormats } from '$lib/utils/brokers/shared';
+import { inferAssetClassFromSchemeName } from '$lib/utils/asset-classes';
+
+/**
+ * Exchange recorded on mutual fund transactions (units are bought from and redeemed with the AMC)
+ */
+export const MUTUAL_FUND_EXCHANGE = 'MF';
+
+/**
+ * Latest NAV of a scheme found in its transactions
+ */
+export interface StatementNav {
+	/** NAV per unit */
+	nav: number;
+	/** Date of the transaction the NAV comes from */
+	date: Date;
+}
+
+/**
+ * Column names (lowercased) accepted for each field, in order of preference
+ */
+const STATEMENT_COLUMNS = {
+	scheme: ['scheme name', 'scheme', 'scheme_name'],
+	isin: ['isin'],
+	folio: ['folio', 'folio no', 'folio number'],
+	date: ['transaction date', 'date', 'trade date'],
+	units: ['units', 'unit'],
+	nav: ['nav', 'price', 'nav per unit'],
+	amount: ['amount', 'amount (inr)']
+} as const;
+
+/**
+ * Result of parsing a mutual fund statement
+ */
+export interface MfStatementParseResult {
+	/** Purchases (positive units) and redemptions (negative units) as trades */
+	transactions: TradeRecord[];
+	/** Schemes found in the statement, with their inferred asset class */
+	schemes: MutualFundScheme[];
+	/** Rows that were skipped because a value failed validation */
+	issues: ParseIssue[];
+}
+
+/**
+ * Parses a numeric cell, accepting thousands separators and (bracketed) negatives
+ */
+function parseNumber(value: string | undefined): number {
+	const trimmed = value?.trim().replace(/[,₹\s]/g, '') ?? '';
+	const bracketed = trimmed.match(/^\((.*)\)$/);
+	return bracketed ? -Number(bracketed[1]) : trimmed === '' ? NaN : Number(trimmed);
+}
+
+/**
+ * Parses a CAMS/KFintech consolidated transaction statement
+ *
+ * Needs Scheme, ISIN, Date and Units columns, plus NAV or Amount. Positive
+ * units are purchases (including SIP, switch-in and reinvested IDCW) and
+ * negative units are redemptions or switch-outs. Rows without units (stamp
+ * duty, STT, address changes) are ignored, as is any preamble above the
+ * column header. Trade IDs are derived from the folio, ISIN, date and units,
+ * so re-importing an overlapping statement does not duplicate transactions.
+ *
+ * @param csvContent - Raw CSV content as string
+ * @returns Parsed transactions, schemes and rows that could not be used
+ * @throws Error if the file is not a mutual fund statement
+ */
+export function parseMfStatement(csvContent: string): MfStatementParseResult {
+	// Skip the investor details block above the header row
+	const lines = csvContent.split(/\r?\n/);
+	const headerIndex = lines.findIndex((line) => /scheme/i.test(line) && /units?/i.test(line));
+	if (headerIndex === -1) {
+		throw new Error('Not a mutual fund statement: missing Scheme and Units columns');
+	}
+
+	const result = Papa.parse<Record<string, string>>(lines.slice(headerIndex).join('\n'), {
+		header: true,
+		skipEmptyLines: true,
+		transformHeader: (header) => header.toLowerCase().trim()
+	});
+
+	const fields = result.meta.fields ?? [];
+	const schemeColumn = findColumn(fields, STATEMENT_COLUMNS.scheme);
+	const isinColumn = findColumn(fields, STATEMENT_COLUMNS.isin);
+	const dateColumn = findColumn(fields, STATEMENT_COLUMNS.date);
+	const unitsColumn = findColumn(fields, STATEMENT_COLUMNS.units);
+	const navColumn = findColumn(fields, STATEMENT_COLUMNS.nav);
+	const amountColumn = findColumn(fields, STATEMENT_COLUMNS.amount);
+	const folioColumn = findColumn(fields, STATEMENT_COLUMNS.folio);
+	const missing = [
+		!schemeColumn && 'Scheme',
+		!isinColumn && 'ISIN',
+		!dateColumn && 'Date',
+		!unitsColumn && 'Units',
+		!navColumn && !amountColumn && 'NAV or Amount'
+	].filter(Boolean);
+	if (missing.length > 0) {
+		throw new Error(`Not a mutual fund statement: missing ${missing.join(', ')}`);
+	}
+
+	const transactions: TradeRecord[] = [];
+	const schemes = new Map<string, MutualFundScheme>();
+	const issues: ParseIssue[] = [];
+
+	result.data.forEach((row, index) => {
+		// Row numbers are relative to the file, including any preamble and the header
+		const rowNumber = headerIndex + index + 2;
+		const name = row[schemeColumn!]?.trim() ?? '';
+		const isin = row[isinColumn!]?.trim().toUpperCase() ?? '';
+		const units = parseNumber(row[unitsColumn!]);
+
+		// Stamp duty, STT and non-financial rows carry no units
+		if (!name || isNaN(units) || units === 0) {
+			return;
+		}
+
+		if (!isin) {
+			issues.push({ row: rowNumber, column: isinColumn!, value: '', reason: 'Missing ISIN' });
+			return;
+		}
+
+		const tradeDate = parseDateWithFormats(row[dateColumn!] ?? '', IMPORT_DATE_FORMATS);
+		if (!tradeDate) {
+			issues.push({ row: rowNumber, column: dateColumn!, value: row[dateColumn!] ?? '', reason: 'Invalid date' });
+			return;
+		}
+
+		const nav = navColumn ? parseNumber(row[navColumn]) : NaN;
+		const amount = amountColumn ? Math.abs(parseNumber(row[amountColumn])) : NaN;
+		const price = nav > 0 ? nav : amount / Math.abs(units);
+		if (!(price > 0)) {
+			const column = navColumn ?? amountColumn!;
+			issues.push({ row: rowNumber, column, value: row[column] ?? '', reason: 'NAV must be a positive number' });
+			return;
+		}
+
+		const folio = folioColumn ? (row[folioColumn]?.trim() ?? '') : '';
+		transactions.push({
+			tradeId: `MF:${folio}:${isin}:${format(tradeDate, 'yyyy-MM-dd')}:${units}`,
+			symbol: name,
+			isin,
+			tradeDate,
+			exchange: MUTUAL_FUND_EXCHANGE,
+			tradeType: units > 0 ? 'buy' : 'sell',
+			quantity: Math.abs(units),
+			price
+		});
+
+		if (!schemes.has(isin)) {
+			schemes.set(isin, { isin, name, assetClass: inferAssetClassFromSchemeName(name) });
+		}
+	});
+
+	// Same-day purchases go ahead of redemptions, so a switch-in can fund a redemption that day
+	const sideOrder = (trade: TradeRecord) => (trade.tradeType === 'buy' ? 0 : 1);
+	transactions.sort((a, b) => a.tradeDate.getTime() - b.tradeDate.getTime() || sideOrder(a) - sideOrder(b));
+
+	return { transactions, schemes: Array.from(schemes.values()), issues };
+}
+
+/**
+ * Gets the latest NAV per scheme ISIN from statement transactions
+ * Fund units have no exchange quote, so the last transaction NAV prices them
+ *
+ * @param transactions - Fund transactions from imported statements
+ * @param asOf - Only transactions up to the end of this date are used
+ * @returns Latest NAV and its date, keyed by ISIN
+ */
+export function getLatestNavs(transactions: TradeRecord[], asOf: Date): Map<string, StatementNav> {
+	const navs = new Map<string, StatementNav>();
+
+	for (const trade of transactions) {
+		const latest = navs.get(trade.isin);
+		if (trade.tradeDate <= asOf && (!latest || trade.tradeDate >= latest.date)) {
+			navs.set(trade.isin, { nav: trade.price, date: trade.tradeDate });
+		}
+	}
+
+	return navs;
+}
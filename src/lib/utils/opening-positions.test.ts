@@ -0,0 +1,104 @@
+/**
+ * Unit tests for opening positions
+ * Tests validation and Zerodha Console holdings export parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseConsoleHoldings, validateOpeningPosition } from './opening-positions';
+
+const AS_OF = new Date('2021-03-31T00:00:00');
+
+describe('parseConsoleHoldings', () => {
+	it('should parse holdings rows into undated positions', () => {
+		const csv = [
+			'Symbol,ISIN,Sector,Quantity Available,Quantity Discrepant,Quantity Long Term,Quantity Pledged (Margin),Quantity Pledged (Loan),Average Price,Previous Closing Price,Unrealized P&L,Unrealized P&L Pct.',
+			'INFY,INE009A01021,IT,10,0,10,5,0,1250.5,1400,1497.5,11.9',
+			'tcs,INE467B01029,IT,4,0,4,0,0,2100,3100,4000,47.6'
+		].join('\n');
+
+		const { positions, issues } = parseConsoleHoldings(csv);
+
+		expect(issues).toEqual([]);
+		expect(positions).toEqual([
+			{ symbol: 'INFY', isin: 'INE009A01021', exchange: 'NSE', quantity: 15, acquisitionDate: null, purchasePrice: 1250.5 },
+			{ symbol: 'TCS', isin: 'INE467B01029', exchange: 'NSE', quantity: 4, acquisitionDate: null, purchasePrice: 2100 }
+		]);
+	});
+
+	it('should take acquisition dates from an added date column', () => {
+		const csv = [
+			'Symbol,ISIN,Quantity Available,Average Price,Acquisition Date',
+			'INFY,INE009A01021,10,1250,15-06-2019',
+			'TCS,INE467B01029,4,2100,',
+			'ITC,INE154A01025,20,210,someday'
+		].join('\n');
+
+		const { positions, issues } = parseConsoleHoldings(csv);
+
+		expect(positions.map((position) => [position.symbol, position.acquisitionDate])).toEqual([
+			['INFY', new Date(2019, 5, 15)],
+			['TCS', null]
+		]);
+		expect(issues).toEqual([{ row: 4, column: 'acquisition date', value: 'someday', reason: 'Invalid date' }]);
+	});
+
+	it('should skip report preamble above the header row', () => {
+		const csv = [
+			'Client ID,AB1234',
+			'Holdings as on 2021-03-31',
+			'',
+			'Symbol,ISIN,Quantity Available,Average Price',
+			'INFY,INE009A01021,10,1250'
+		].join('\n');
+
+		const { positions } = parseConsoleHoldings(csv);
+
+		expect(positions).toHaveLength(1);
+		expect(positions[0].symbol).toBe('INFY');
+	});
+
+	it('should report rows with no quantity', () => {
+		const csv = ['Symbol,ISIN,Quantity Available,Average Price', 'INFY,INE009A01021,0,1250'].join('\n');
+
+		const { positions, issues } = parseConsoleHoldings(csv);
+
+		expect(positions).toEqual([]);
+		expect(issues).toEqual([
+			{ row: 2, column: 'quantity available', value: '0', reason: 'Quantity must be a positive number' }
+		]);
+	});
+
+	it('should reject files that are not holdings exports', () => {
+		const csv = 'symbol,isin,trade_date,trade_type,quantity,price\nINFY,INE009A01021,2021-01-01,buy,1,100';
+
+		expect(() => parseConsoleHoldings(csv)).toThrow('missing quantity available, average price');
+	});
+});
+
+describe('validateOpeningPosition', () => {
+	it('should accept a complete position', () => {
+		expect(
+			validateOpeningPosition({
+				symbol: 'INFY',
+				isin: '',
+				exchange: 'NSE',
+				quantity: 10,
+				acquisitionDate: AS_OF,
+				purchasePrice: 1000
+			})
+		).toBeNull();
+	});
+
+	it('should reject a missing acquisition date', () => {
+		expect(
+			validateOpeningPosition({
+				symbol: 'INFY',
+				isin: '',
+				exchange: 'NSE',
+				quantity: 10,
+				acquisitionDate: new Date(''),
+				purchasePrice: 1000
+			})
+		).toBe('A valid acquisition date is required');
+	});
+});
@@ -0,0 +1,167 @@
+/**
+ * Opening Positions
+ * Validates manually entered opening positions and parses Zerodha Console
+ * holdings exports into positions that seed FIFO lots before trade replay
+ */
+
+import Papa from 'papaparse';
+import type { DatedOpeningPosition, HoldingLot, OpeningPosition, ParseIssue } from '$lib/types';
+import { IMPORT_DATE_FORMATS, findColumn, parseAmount, parseDateWithFormats } from '$lib/utils/brokers/shared';
+
+/**
+ * Columns required in a Console holdings export (lowercased)
+ */
+const CONSOLE_HOLDINGS_COLUMNS = ['symbol', 'quantity available', 'average price'] as const;
+
+/**
+ * Pledged quantities are still owned and must be seeded as lots too
+ */
+const CONSOLE_PLEDGED_COLUMNS = ['quantity pledged (margin)', 'quantity pledged (loan)'] as const;
+
+/**
+ * Acquisition date columns a user may add to the export (lowercased), in order of preference
+ */
+const ACQUISITION_DATE_COLUMNS = ['acquisition date', 'purchase date', 'buy date'] as const;
+
+/**
+ * Result of parsing a Console holdings export
+ */
+export interface ConsoleHoldingsParseResult {
+	/** Positions found in the export, without IDs */
+	positions: Omit<OpeningPosition, 'id'>[];
+	/** Rows that were skipped because a value failed validation */
+	issues: ParseIssue[];
+}
+
+/**
+ * Validates an opening position before it is recorded
+ *
+ * @param position - Opening position to validate
+ * @returns Human-readable error message, or null if the position is valid
+ */
+export function validateOpeningPosition(position: Omit<OpeningPosition, 'id'>): string | null {
+	if (!position.symbol?.trim()) {
+		return 'Symbol is required';
+	}
+
+	if (!(position.quantity > 0)) {
+		return 'Quantity must be a positive number';
+	}
+
+	if (!(position.purchasePrice >= 0)) {
+		return 'Cost per share must be zero or more';
+	}
+
+	if (!(position.acquisitionDate instanceof Date) || isNaN(position.acquisitionDate.getTime())) {
+		return 'A valid acquisition date is required';
+	}
+
+	return null;
+}
+
+/**
+ * Checks whether an opening position has its acquisition date
+ */
+export function isDatedPosition(position: OpeningPosition): position is DatedOpeningPosition {
+	return position.acquisitionDate !== null;
+}
+
+/**
+ * Converts an opening position into the FIFO lot it seeds
+ */
+export function openingPositionToLot(position: DatedOpeningPosition): HoldingLot {
+	return {
+		quantity: position.quantity,
+		purchaseDate: position.acquisitionDate,
+		purchasePrice: position.purchasePrice,
+		exchange: position.exchange
+	};
+}
+
+/**
+ * Parses a Zerodha Console holdings export into opening positions
+ *
+ * The export has no acquisition dates, and the statement date says nothing
+ * about holding period, so positions are left undated (null) for the user to
+ * fill in before analysis. An acquisition date column added to the file is
+ * used when present. Any summary lines above the column header are ignored.
+ *
+ * @param csvContent - Raw CSV content as string
+ * @param exchange - Exchange to group the positions under (defaults to NSE)
+ * @returns Parsed positions and rows that could not be used
+ * @throws Error if the file is not a Console holdings export
+ */
+export function parseConsoleHoldings(csvContent: string, exchange = 'NSE'): ConsoleHoldingsParseResult {
+	// Skip report preamble (client ID, statement date, ...) above the header row
+	const lines = csvContent.split(/\r?\n/);
+	const headerIndex = lines.findIndex((line) => /^"?symbol"?\s*,/i.test(line.trim()));
+	if (headerIndex === -1) {
+		throw new Error('Not a Console holdings export: missing Symbol column');
+	}
+
+	const result = Papa.parse<Record<string, string>>(lines.slice(headerIndex).join('\n'), {
+		header: true,
+		skipEmptyLines: true,
+		transformHeader: (header) => header.toLowerCase().trim()
+	});
+
+	const fields = result.meta.fields ?? [];
+	const missing = CONSOLE_HOLDINGS_COLUMNS.filter((column) => !fields.includes(column));
+	if (missing.length > 0) {
+		throw new Error(`Not a Console holdings export: missing ${missing.join(', ')}`);
+	}
+
+	const dateColumn = findColumn(fields, ACQUISITION_DATE_COLUMNS);
+	const positions: Omit<OpeningPosition, 'id'>[] = [];
+	const issues: ParseIssue[] = [];
+
+	result.data.forEach((row, index) => {
+		// Row numbers are relative to the file, including any preamble and the header
+		const rowNumber = headerIndex + index + 2;
+		const symbol = row['symbol']?.trim().toUpperCase() ?? '';
+		const quantity =
+			parseAmount(row['quantity available']) +
+			CONSOLE_PLEDGED_COLUMNS.reduce((sum, column) => sum + parseAmount(row[column]), 0);
+		const purchasePrice = parseAmount(row['average price']);
+		const dateValue = dateColumn ? (row[dateColumn]?.trim() ?? '') : '';
+		const acquisitionDate = dateValue ? parseDateWithFormats(dateValue, IMPORT_DATE_FORMATS) : null;
+
+		if (!symbol) {
+			issues.push({ row: rowNumber, column: 'symbol', value: '', reason: 'Missing symbol' });
+			return;
+		}
+		if (!(quantity > 0)) {
+			issues.push({
+				row: rowNumber,
+				column: 'quantity available',
+				value: row['quantity available'] ?? '',
+				reason: 'Quantity must be a positive number'
+			});
+			return;
+		}
+		if (!(purchasePrice >= 0)) {
+			issues.push({
+				row: rowNumber,
+				column: 'average price',
+				value: row['average price'] ?? '',
+				reason: 'Price must be a non-negative number'
+			});
+			return;
+		}
+		if (dateValue && !acquisitionDate) {
+			issues.push({ row: rowNumber, column: dateColumn!, value: dateValue, reason: 'Invalid date' });
+			return;
+		}
+
+		positions.push({
+			symbol,
+			isin: row['isin']?.trim().toUpperCase() ?? '',
+			exchange,
+			quantity,
+			acquisitionDate,
+			purchasePrice
+		});
+	});
+
+	return { positions, issues };
+}
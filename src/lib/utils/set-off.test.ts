@@ -0,0 +1,114 @@
+/**
+ * Unit tests for loss set-off
+ * Tests the STCL/LTCL set-off order, the 112A exemption and carry-forward balances
+ */
+
+import { describe, it, expect } from 'vitest';
+import { setOffLosses } from './set-off';
+import type { CapitalGainsSection, CarryForwardLoss, TaxSlice } from '$lib/types';
+
+/**
+ * Helper to create a gain slice
+ */
+function createSlice(section: CapitalGainsSection, rate: number, gain: number): TaxSlice {
+	return { section, rate, gain, taxableGain: 0, tax: 0 };
+}
+
+/**
+ * Taxable gain per section and rate, for compact assertions
+ */
+function taxable(slices: TaxSlice[]): string[] {
+	return slices.map((slice) => `${slice.section}@${slice.rate}:${slice.taxableGain}`);
+}
+
+describe('setOffLosses', () => {
+	it('should set off STCL against STCG first and the rest against LTCG', () => {
+		const result = setOffLosses(
+			[createSlice('111A', 0.2, 50000), createSlice('112A', 0.125, 300000)],
+			{ shortTerm: 80000, longTerm: 0 },
+			125000
+		);
+
+		expect(taxable(result.slices)).toEqual(['111A@0.2:0', '112A@0.125:145000']);
+		expect(result.setOff).toEqual({ shortTerm: 80000, longTerm: 0 });
+		expect(result.exemptionUsed).toBe(125000);
+		expect(result.carryForward).toEqual({ shortTerm: 0, longTerm: 0 });
+	});
+
+	it('should never set off LTCL against STCG and carry the rest forward', () => {
+		const result = setOffLosses(
+			[createSlice('111A', 0.2, 100000), createSlice('112A', 0.125, 140000)],
+			{ shortTerm: 0, longTerm: 40000 },
+			125000
+		);
+
+		expect(taxable(result.slices)).toEqual(['111A@0.2:100000', '112A@0.125:0']);
+		expect(result.setOff.longTerm).toBe(40000);
+		expect(result.exemptionUsed).toBe(100000);
+	});
+
+	it('should set off LTCL first so STCL can reach gains LTCL cannot', () => {
+		const result = setOffLosses(
+			[createSlice('111A', 0.2, 50000), createSlice('112', 0.125, 50000)],
+			{ shortTerm: 50000, longTerm: 50000 },
+			125000
+		);
+
+		expect(taxable(result.slices)).toEqual(['111A@0.2:0', '112@0.125:0']);
+		expect(result.carryForward).toEqual({ shortTerm: 0, longTerm: 0 });
+	});
+
+	it('should send leftover STCL to Section 112 gains before 112A gains at the same rate', () => {
+		const result = setOffLosses(
+			[createSlice('112A', 0.125, 200000), createSlice('112', 0.125, 30000)],
+			{ shortTerm: 50000, longTerm: 0 },
+			125000
+		);
+
+		expect(taxable(result.slices)).toEqual(['112@0.125:0', '112A@0.125:55000']);
+	});
+
+	it('should set off losses against exempt 112A gains only when no other gains are left', () => {
+		const result = setOffLosses([createSlice('112A', 0.125, 100000)], { shortTerm: 30000, longTerm: 0 }, 125000);
+
+		expect(taxable(result.slices)).toEqual(['112A@0.125:0']);
+		expect(result.setOff.shortTerm).toBe(30000);
+		expect(result.exemptionUsed).toBe(70000);
+	});
+
+	it('should take the exemption and 112A losses off the highest-rate slice first', () => {
+		const result = setOffLosses(
+			[createSlice('112A', 0.1, 100000), createSlice('112A', 0.125, 100000)],
+			{ shortTerm: 0, longTerm: 20000 },
+			125000
+		);
+
+		expect(taxable(result.slices)).toEqual(['112A@0.125:0', '112A@0.1:55000']);
+	});
+
+	it('should set off brought-forward losses after the year’s own, oldest year first', () => {
+		const broughtForward: CarryForwardLoss[] = [
+			{ id: 'b', lossFyStart: new Date(2022, 3, 1), shortTerm: 30000, longTerm: 0, filedOnTime: true, source: 'ITR' },
+			{ id: 'a', lossFyStart: new Date(2019, 3, 1), shortTerm: 0, longTerm: 50000, filedOnTime: true, source: 'ITR' }
+		];
+		const result = setOffLosses(
+			[createSlice('111A', 0.2, 60000), createSlice('112', 0.125, 20000)],
+			{ shortTerm: 10000, longTerm: 0 },
+			125000,
+			broughtForward
+		);
+
+		expect(taxable(result.slices)).toEqual(['111A@0.2:20000', '112@0.125:0']);
+		expect(result.broughtForward.map((entry) => [entry.loss.id, entry.setOff, entry.remaining])).toEqual([
+			['a', { shortTerm: 0, longTerm: 20000 }, { shortTerm: 0, longTerm: 30000 }],
+			['b', { shortTerm: 30000, longTerm: 0 }, { shortTerm: 0, longTerm: 0 }]
+		]);
+	});
+
+	it('should carry forward losses larger than the year’s gains', () => {
+		const result = setOffLosses([createSlice('111A', 0.2, 10000)], { shortTerm: 25000, longTerm: 40000 }, 125000);
+
+		expect(result.setOff).toEqual({ shortTerm: 10000, longTerm: 0 });
+		expect(result.carryForward).toEqual({ shortTerm: 15000, longTerm: 40000 });
+	});
+});
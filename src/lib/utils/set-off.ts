@@ -0,0 +1,140 @@
+/**
+ * Loss Set-off
+ * Sets off a year's capital losses against its gains as Section 70 allows,
+ * then losses brought forward from earlier years (Section 74): STCL against
+ * STCG and LTCG, LTCL against LTCG only. Losses go to the gains taxed at the
+ * highest rate first; what cannot be set off is carried forward
+ */
+
+import type { BroughtForwardSetOff, CapitalLosses, CarryForwardLoss, TaxSlice } from '$lib/types';
+
+/**
+ * Result of setting off losses against one year's gains
+ */
+export interface SetOffResult {
+	/** Gain slices with taxable gains after set-off and the 112A exemption, highest rate first */
+	slices: TaxSlice[];
+	/** Losses set off against gains */
+	setOff: CapitalLosses;
+	/** Part of the 112A exemption used */
+	exemptionUsed: number;
+	/** This year's losses left over, carried forward to later years */
+	carryForward: CapitalLosses;
+	/** Brought-forward losses, oldest first, with the part set off this year */
+	broughtForward: BroughtForwardSetOff[];
+}
+
+/**
+ * Gains a loss can be set off against, at the rate they would be taxed
+ */
+interface SetOffTarget {
+	rate: number;
+	capacity: number;
+	absorb: (amount: number) => void;
+}
+
+/**
+ * Sets off a loss against targets in order and returns what is left over
+ */
+function setOffAgainst(targets: SetOffTarget[], loss: number): number {
+	let remaining = loss;
+	for (const target of targets) {
+		const used = Math.min(target.capacity, remaining);
+		target.capacity -= used;
+		target.absorb(used);
+		remaining -= used;
+	}
+	return remaining;
+}
+
+/**
+ * Reduces slices by an amount, in slice order
+ */
+function reduceSlices(slices: TaxSlice[], amount: number): void {
+	let remaining = amount;
+	for (const slice of slices) {
+		const used = Math.min(slice.taxableGain, remaining);
+		slice.taxableGain -= used;
+		remaining -= used;
+	}
+}
+
+/**
+ * Sets off losses against a year's gains and applies the 112A exemption
+ *
+ * LTCL is set off first, since it can only go against long-term gains; STCL
+ * then goes to the highest-rate gains left, 111A before 112/112A. Section 112
+ * gains take losses before 112A gains at the same rate, and 112A gains within
+ * the exemption take losses only when nothing else is left, since set-off
+ * against the year's gains is compulsory before a loss can be carried forward.
+ * Brought-forward losses follow the same rules against what is left, oldest
+ * year first. The exemption and any losses against 112A gains come off the
+ * highest-rate 112A slice first.
+ *
+ * @param slices - Gains per section and rate (taxableGain is ignored)
+ * @param losses - The year's short- and long-term capital losses
+ * @param exemption - Annual Section 112A exemption for the year
+ * @param broughtForward - Unexpired losses of earlier years that may be set off this year
+ * @returns Taxable slices, losses set off and losses carried forward
+ */
+export function setOffLosses(
+	slices: TaxSlice[],
+	losses: CapitalLosses,
+	exemption: number,
+	broughtForward: CarryForwardLoss[] = []
+): SetOffResult {
+	// Highest rate first; at equal rates Section 112 takes losses before 112A
+	const ordered = slices
+		.map((slice) => ({ ...slice, taxableGain: slice.gain, tax: 0 }))
+		.sort((a, b) => b.rate - a.rate || Number(a.section === '112A') - Number(b.section === '112A'));
+
+	const toTarget = (slice: TaxSlice): SetOffTarget => ({
+		rate: slice.rate,
+		capacity: slice.taxableGain,
+		absorb: (amount) => (slice.taxableGain -= amount)
+	});
+
+	// 112A gains are one pool: the part above the exemption, then the exempt part
+	const section112A = ordered.filter((slice) => slice.section === '112A');
+	const total112A = section112A.reduce((sum, slice) => sum + slice.gain, 0);
+	const reserved = Math.min(exemption, total112A);
+	let setOff112A = 0;
+	const absorb112A = (amount: number) => (setOff112A += amount);
+
+	const shortTermTargets = ordered.filter((slice) => slice.section === '111A').map(toTarget);
+	const longTermTargets = [
+		...ordered.filter((slice) => slice.section === '112').map(toTarget),
+		{ rate: section112A[0]?.rate ?? 0, capacity: total112A - reserved, absorb: absorb112A }
+	].sort((a, b) => b.rate - a.rate);
+	const exemptTarget = { rate: 0, capacity: reserved, absorb: absorb112A };
+	const longTermOrder = [...longTermTargets, exemptTarget];
+	const shortTermOrder = [...[...shortTermTargets, ...longTermTargets].sort((a, b) => b.rate - a.rate), exemptTarget];
+
+	const longTermLeft = setOffAgainst(longTermOrder, losses.longTerm);
+	const shortTermLeft = setOffAgainst(shortTermOrder, losses.shortTerm);
+
+	const broughtForwardSetOffs = [...broughtForward]
+		.sort((a, b) => a.lossFyStart.getTime() - b.lossFyStart.getTime())
+		.map((loss): BroughtForwardSetOff => {
+			const remaining = {
+				longTerm: setOffAgainst(longTermOrder, loss.longTerm),
+				shortTerm: setOffAgainst(shortTermOrder, loss.shortTerm)
+			};
+			return {
+				loss,
+				setOff: { shortTerm: loss.shortTerm - remaining.shortTerm, longTerm: loss.longTerm - remaining.longTerm },
+				remaining
+			};
+		});
+
+	const exemptionUsed = Math.min(exemption, total112A - setOff112A);
+	reduceSlices(section112A, setOff112A + exemptionUsed);
+
+	return {
+		slices: ordered,
+		setOff: { shortTerm: losses.shortTerm - shortTermLeft, longTerm: losses.longTerm - longTermLeft },
+		exemptionUsed,
+		carryForward: { shortTerm: shortTermLeft, longTerm: longTermLeft },
+		broughtForward: broughtForwardSetOffs
+	};
+}
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for symbol history
+ * Tests validation, lineage resolution and lot conversion across swap ratios
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	convertLotsForSymbolChange,
+	describeSymbolChange,
+	resolveCurrentIdentity,
+	validateSymbolChange
+} from './symbol-history';
+import type { SymbolChange } from '$lib/types';
+
+const HDFC_MERGER: SymbolChange = {
+	id: 'sc-1',
+	type: 'MERGER',
+	oldSymbol: 'HDFC',
+	oldIsin: 'INE001A01036',
+	newSymbol: 'HDFCBANK',
+	newIsin: 'INE040A01034',
+	effectiveDate: new Date('2023-07-13T00:00:00'),
+	ratioFrom: 25,
+	ratioTo: 42
+};
+
+describe('validateSymbolChange', () => {
+	it('should accept a complete merger', () => {
+		expect(validateSymbolChange(HDFC_MERGER)).toBeNull();
+	});
+
+	it('should reject a change that keeps both symbol and ISIN', () => {
+		expect(
+			validateSymbolChange({ ...HDFC_MERGER, newSymbol: 'HDFC', newIsin: 'INE001A01036' })
+		).toBe('The new symbol or ISIN must differ from the old one');
+	});
+
+	it('should reject a non-positive swap ratio', () => {
+		expect(validateSymbolChange({ ...HDFC_MERGER, ratioFrom: 0 })).toBe(
+			'Swap ratio values must be positive numbers'
+		);
+	});
+});
+
+describe('resolveCurrentIdentity', () => {
+	it('should match on ISIN when the symbol differs', () => {
+		expect(resolveCurrentIdentity([HDFC_MERGER], { symbol: 'HDFCLTD', isin: 'INE001A01036' })).toEqual({
+			symbol: 'HDFCBANK',
+			isin: 'INE040A01034'
+		});
+	});
+
+	it('should keep the ISIN for a rename entered without ISINs', () => {
+		const rename: SymbolChange = {
+			...HDFC_MERGER,
+			type: 'RENAME',
+			oldSymbol: 'ZOMATO',
+			oldIsin: '',
+			newSymbol: 'ETERNAL',
+			newIsin: ''
+		};
+
+		expect(resolveCurrentIdentity([rename], { symbol: 'ZOMATO', isin: 'INE758T01015' })).toEqual({
+			symbol: 'ETERNAL',
+			isin: 'INE758T01015'
+		});
+	});
+
+	it('should stop on cycles', () => {
+		const there: SymbolChange = { ...HDFC_MERGER, id: 'a', oldIsin: '', newIsin: '', oldSymbol: 'A', newSymbol: 'B' };
+		const back: SymbolChange = { ...there, id: 'b', oldSymbol: 'B', newSymbol: 'A' };
+
+		expect(resolveCurrentIdentity([there, back], { symbol: 'A', isin: '' }).symbol).toBe('A');
+	});
+});
+
+describe('convertLotsForSymbolChange', () => {
+	it('should scale quantity and price while keeping total cost and dates', () => {
+		const lots = [
+			{ quantity: 50, purchaseDate: new Date('2017-05-01'), purchasePrice: 1500, grandfatheredFmv: 1800, exchange: 'BSE' }
+		];
+
+		const [lot] = convertLotsForSymbolChange(lots, HDFC_MERGER);
+
+		expect(lot.quantity).toBe(84);
+		expect(lot.purchasePrice * lot.quantity).toBeCloseTo(75000, 6);
+		expect(lot.grandfatheredFmv! * lot.quantity).toBeCloseTo(90000, 6);
+		expect(lot.purchaseDate).toEqual(new Date('2017-05-01'));
+		expect(lot.exchange).toBe('BSE');
+	});
+});
+
+describe('describeSymbolChange', () => {
+	it('should include the swap ratio only when it is not one-for-one', () => {
+		expect(describeSymbolChange(HDFC_MERGER)).toBe('HDFC → HDFCBANK (25:42)');
+		expect(describeSymbolChange({ ...HDFC_MERGER, ratioTo: 25 })).toBe('HDFC → HDFCBANK');
+	});
+});
@@ -0,0 +1,173 @@
+/**
+ * Symbol History
+ * Links old and new symbols/ISINs of the same security (ticker renames and
+ * mergers) into one lineage, and carries open lots across the swap ratio
+ */
+
+import type { HoldingLot, SymbolChange } from '$lib/types';
+
+/**
+ * Symbol and ISIN of a security at a point in its history
+ */
+export interface SecurityIdentity {
+	symbol: string;
+	isin: string;
+}
+
+/**
+ * Validates a symbol change before it is recorded
+ *
+ * @param change - Symbol change to validate
+ * @returns Human-readable error message, or null if the change is valid
+ */
+export function validateSymbolChange(change: Omit<SymbolChange, 'id'>): string | null {
+	if (!change.oldSymbol?.trim() && !change.oldIsin?.trim()) {
+		return 'The old symbol or ISIN is required';
+	}
+
+	if (!change.newSymbol?.trim()) {
+		return 'The new symbol is required';
+	}
+
+	const sameSymbol = change.oldSymbol.trim().toUpperCase() === change.newSymbol.trim().toUpperCase();
+	const sameIsin = change.oldIsin.trim().toUpperCase() === change.newIsin.trim().toUpperCase();
+	if (sameSymbol && sameIsin) {
+		return 'The new symbol or ISIN must differ from the old one';
+	}
+
+	if (!(change.effectiveDate instanceof Date) || isNaN(change.effectiveDate.getTime())) {
+		return 'A valid effective date is required';
+	}
+
+	if (!(change.ratioFrom > 0) || !(change.ratioTo > 0)) {
+		return 'Swap ratio values must be positive numbers';
+	}
+
+	return null;
+}
+
+/**
+ * Checks whether a symbol change retires the given identity
+ * Matches on ISIN when both sides have one, otherwise falls back to symbol
+ */
+function changeRetires(change: SymbolChange, identity: SecurityIdentity): boolean {
+	if (change.oldIsin && identity.isin) {
+		return change.oldIsin === identity.isin;
+	}
+	return change.oldSymbol.toUpperCase() === identity.symbol.toUpperCase();
+}
+
+/**
+ * Finds the symbol change that retires an identity, if any
+ *
+ * @param changes - All recorded symbol changes
+ * @param identity - Symbol and ISIN a holding traded under
+ * @returns The earliest change that moves this identity to a new one
+ */
+export function findOutgoingChange(
+	changes: SymbolChange[],
+	identity: SecurityIdentity
+): SymbolChange | undefined {
+	return changes
+		.filter((change) => changeRetires(change, identity))
+		.sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime())[0];
+}
+
+/**
+ * One change along a security's symbol history
+ */
+export interface SymbolHistoryStep {
+	change: SymbolChange;
+	/** Identity retired by the change */
+	from: SecurityIdentity;
+	/** Identity the change moves lots to */
+	to: SecurityIdentity;
+}
+
+/**
+ * Lists the changes an identity goes through, oldest first
+ * Chains (A → B → C) are followed; cycles stop after every change is used once
+ *
+ * @param changes - All recorded symbol changes
+ * @param identity - Symbol and ISIN at any point in the lineage
+ * @returns Steps from the given identity to the one it trades under today
+ */
+export function traceSymbolHistory(
+	changes: SymbolChange[],
+	identity: SecurityIdentity
+): SymbolHistoryStep[] {
+	const steps: SymbolHistoryStep[] = [];
+	let current = identity;
+	const used = new Set<string>();
+
+	for (;;) {
+		const change = findOutgoingChange(
+			changes.filter((c) => !used.has(c.id)),
+			current
+		);
+		if (!change) {
+			return steps;
+		}
+		used.add(change.id);
+		// A rename entered without ISINs keeps the ISIN it had
+		const next = {
+			symbol: change.newSymbol,
+			isin: change.newIsin || (change.type === 'RENAME' ? current.isin : '')
+		};
+		steps.push({ change, from: current, to: next });
+		current = next;
+	}
+}
+
+/**
+ * Follows the symbol history to the identity the security trades under today
+ *
+ * @param changes - All recorded symbol changes
+ * @param identity - Symbol and ISIN at any point in the lineage
+ * @returns Latest symbol and ISIN of the lineage
+ */
+export function resolveCurrentIdentity(
+	changes: SymbolChange[],
+	identity: SecurityIdentity
+): SecurityIdentity {
+	const steps = traceSymbolHistory(changes, identity);
+	return steps.length > 0 ? steps[steps.length - 1].to : identity;
+}
+
+/**
+ * Returns the symbol a security trades under today (used for quote lookup)
+ */
+export function resolveCurrentSymbol(changes: SymbolChange[], symbol: string, isin: string): string {
+	return resolveCurrentIdentity(changes, { symbol, isin }).symbol;
+}
+
+/**
+ * Converts open lots of the old security into lots of the new one
+ *
+ * Each lot keeps its acquisition date and total cost: quantity is multiplied by
+ * ratioTo/ratioFrom and per-share price (and grandfathered FMV) divided by it.
+ * Fractional entitlements are kept; cash paid in lieu of fractions is not modelled.
+ *
+ * @param lots - Lots open under the old symbol on the effective date
+ * @param change - Symbol change being applied
+ * @returns Lots in the new security, in FIFO order
+ */
+export function convertLotsForSymbolChange(lots: HoldingLot[], change: SymbolChange): HoldingLot[] {
+	const factor = change.ratioTo / change.ratioFrom;
+
+	return lots.map((lot) => ({
+		...lot,
+		quantity: lot.quantity * factor,
+		purchasePrice: lot.purchasePrice / factor,
+		...(lot.grandfatheredFmv !== undefined && { grandfatheredFmv: lot.grandfatheredFmv / factor })
+	}));
+}
+
+/**
+ * Formats a symbol change for display (e.g., "HDFC → HDFCBANK (42:25)")
+ */
+export function describeSymbolChange(change: SymbolChange): string {
+	const ratio =
+		change.ratioFrom === change.ratioTo ? '' : ` (${change.ratioFrom}:${change.ratioTo})`;
+	return `${change.oldSymbol || change.oldIsin} → ${change.newSymbol}${ratio}`;
+}
@@ -0,0 +1,131 @@
+/**
+ * Unit tests for the tax estimator
+ * Tests rates by sell date, loss set-off, the 112A exemption, surcharge and cess
+ */
+
+import { describe, it, expect } from 'vitest';
+import { estimateCapitalGainsTax, getLtcgExemption, getSurchargeRate } from './tax-estimator';
+import type { RealizedGainEntry } from '$lib/types';
+
+const FY_2024_25 = new Date(2024, 3, 1);
+
+/**
+ * Helper to create a realized gain entry
+ */
+function createEntry(gainLoss: number, sellDate: Date, overrides: Partial<RealizedGainEntry> = {}): RealizedGainEntry {
+	return {
+		symbol: 'INFY',
+		exchange: 'NSE',
+		quantity: 10,
+		sellDate,
+		sellPrice: 1500,
+		purchasePrice: 1400,
+		purchaseDate: new Date(2023, 0, 10),
+		gainLoss,
+		classification: 'LONG_TERM',
+		...overrides
+	};
+}
+
+describe('estimateCapitalGainsTax', () => {
+	it('should tax gains at the rate in force on each sell date', () => {
+		const estimate = estimateCapitalGainsTax(
+			[
+				createEntry(100000, new Date(2024, 5, 10), { classification: 'SHORT_TERM' }),
+				createEntry(100000, new Date(2024, 6, 23), { classification: 'SHORT_TERM' })
+			],
+			FY_2024_25
+		);
+
+		expect(estimate.slices.map((s) => [s.section, s.rate, s.taxableGain])).toEqual([
+			['111A', 0.2, 100000],
+			['111A', 0.15, 100000]
+		]);
+		expect(estimate.tax).toBeCloseTo(35000);
+		expect(estimate.cess).toBeCloseTo(1400);
+		expect(estimate.totalTax).toBeCloseTo(36400);
+	});
+
+	it('should set off losses against the highest-rate gains first', () => {
+		const estimate = estimateCapitalGainsTax(
+			[
+				createEntry(100000, new Date(2024, 5, 10), { classification: 'SHORT_TERM' }),
+				createEntry(100000, new Date(2024, 8, 10), { classification: 'SHORT_TERM' }),
+				createEntry(-60000, new Date(2024, 9, 10), { classification: 'SHORT_TERM' })
+			],
+			FY_2024_25
+		);
+
+		expect(estimate.slices.map((s) => s.taxableGain)).toEqual([40000, 100000]);
+		expect(estimate.tax).toBeCloseTo(40000 * 0.2 + 100000 * 0.15);
+	});
+
+	it('should apply the 112A exemption but not to gains on lots acquired without STT', () => {
+		const estimate = estimateCapitalGainsTax(
+			[
+				createEntry(200000, new Date(2024, 8, 10)),
+				createEntry(50000, new Date(2024, 8, 10), { sttNotPaid: true })
+			],
+			FY_2024_25
+		);
+
+		expect(estimate.exemptionUsed).toBe(125000);
+		expect(estimate.slices.map((s) => [s.section, s.taxableGain])).toEqual([
+			['112', 50000],
+			['112A', 75000]
+		]);
+		expect(estimate.tax).toBeCloseTo(125000 * 0.125);
+	});
+
+	it('should report short-term gains on non-equity funds as slab-rate income', () => {
+		const estimate = estimateCapitalGainsTax(
+			[createEntry(30000, new Date(2024, 8, 10), { classification: 'SHORT_TERM', assetClass: 'DEBT_FUND' })],
+			FY_2024_25
+		);
+
+		expect(estimate.slabRateGains).toBe(30000);
+		expect(estimate.totalTax).toBe(0);
+	});
+
+	it('should set off harvested losses and report what is carried forward', () => {
+		const entries = [createEntry(40000, new Date(2024, 8, 10), { classification: 'SHORT_TERM' })];
+		const estimate = estimateCapitalGainsTax(entries, FY_2024_25, {
+			harvestedLosses: { shortTerm: 30000, longTerm: 20000 }
+		});
+
+		expect(estimate.tax).toBeCloseTo(10000 * 0.2);
+		expect(estimate.carryForward).toEqual({ shortTerm: 0, longTerm: 20000 });
+	});
+
+	it('should ignore entries outside the FY', () => {
+		const estimate = estimateCapitalGainsTax([createEntry(500000, new Date(2025, 3, 1))], FY_2024_25);
+
+		expect(estimate.slices).toEqual([]);
+		expect(estimate.exemptionUsed).toBe(0);
+	});
+
+	it('should add surcharge from the tier of other income plus gains', () => {
+		const estimate = estimateCapitalGainsTax(
+			[createEntry(1000000, new Date(2024, 8, 10), { classification: 'SHORT_TERM' })],
+			FY_2024_25,
+			{ otherIncome: 9500000 }
+		);
+
+		expect(estimate.surchargeRate).toBe(0.15);
+		expect(estimate.surcharge).toBeCloseTo(30000);
+		expect(estimate.totalTax).toBeCloseTo((200000 + 30000) * 1.04);
+	});
+});
+
+describe('tax estimator rates', () => {
+	it('should use the ₹1L exemption before FY 2024-25', () => {
+		expect(getLtcgExemption(new Date(2023, 3, 1))).toBe(100000);
+		expect(getLtcgExemption(FY_2024_25)).toBe(125000);
+	});
+
+	it('should cap the surcharge on capital gains at 15%', () => {
+		expect(getSurchargeRate(5000000)).toBe(0);
+		expect(getSurchargeRate(5000001)).toBe(0.1);
+		expect(getSurchargeRate(30000000)).toBe(0.15);
+	});
+});
@@ -0,0 +1,195 @@
+/**
+ * Tax Estimator
+ * Estimates the tax on a financial year's realized capital gains, applying the
+ * Section 111A/112A rates in force on each sell date, the annual 112A
+ * exemption, surcharge and cess
+ */
+
+import type {
+	CapitalGainsSection,
+	CapitalLosses,
+	CarryForwardLoss,
+	RealizedGainEntry,
+	TaxEstimate,
+	TaxSlice
+} from '$lib/types';
+import { HOLDING_PERIOD_AMENDMENT_DATE } from '$lib/utils/asset-classes';
+import { isInFy } from '$lib/utils/financial-year';
+import { setOffLosses } from '$lib/utils/set-off';
+
+/**
+ * Rates per section for sales before and from 23 Jul 2024 (Finance (No. 2) Act 2024)
+ * Section 112 uses the 10% rate without indexation that applied to listed
+ * securities; non-equity funds sold before 23 Jul 2024 could instead opt for
+ * 20% with indexation, which is not estimated
+ */
+export const CAPITAL_GAINS_RATES: Record<CapitalGainsSection, { beforeAmendment: number; fromAmendment: number }> = {
+	'111A': { beforeAmendment: 0.15, fromAmendment: 0.2 },
+	'112A': { beforeAmendment: 0.1, fromAmendment: 0.125 },
+	'112': { beforeAmendment: 0.1, fromAmendment: 0.125 }
+};
+
+/**
+ * Annual Section 112A exemption, raised from ₹1L to ₹1.25L for FY 2024-25 onwards
+ */
+const LTCG_EXEMPTION = 125000;
+const LTCG_EXEMPTION_BEFORE_FY_2024_25 = 100000;
+const FY_2024_25_START = new Date(2024, 3, 1);
+
+/**
+ * Health and education cess on tax plus surcharge
+ */
+export const HEALTH_EDUCATION_CESS_RATE = 0.04;
+
+/**
+ * Surcharge tiers for individuals by total income, highest first
+ */
+export const SURCHARGE_TIERS = [
+	{ above: 50000000, rate: 0.37 },
+	{ above: 20000000, rate: 0.25 },
+	{ above: 10000000, rate: 0.15 },
+	{ above: 5000000, rate: 0.1 }
+] as const;
+
+/**
+ * Surcharge on tax on 111A, 112A and 112 gains is capped at 15%
+ */
+export const CAPITAL_GAINS_SURCHARGE_CAP = 0.15;
+
+/**
+ * Asset classes taxed as equity (111A/112A); units of other funds are not
+ */
+const EQUITY_ASSET_CLASSES = new Set([undefined, 'EQUITY', 'EQUITY_ETF', 'EQUITY_FUND']);
+
+/**
+ * Gets the annual Section 112A exemption for a financial year
+ *
+ * @param fyStart - 1 April the FY starts on
+ * @returns Exemption amount in rupees
+ */
+export function getLtcgExemption(fyStart: Date): number {
+	return fyStart >= FY_2024_25_START ? LTCG_EXEMPTION : LTCG_EXEMPTION_BEFORE_FY_2024_25;
+}
+
+/**
+ * Gets the rate for a section on a sell date
+ *
+ * @param section - Section the gain is taxed under
+ * @param sellDate - Date of the sale
+ * @returns Tax rate as a fraction
+ */
+export function getCapitalGainsRate(section: CapitalGainsSection, sellDate: Date): number {
+	const rates = CAPITAL_GAINS_RATES[section];
+	return sellDate < HOLDING_PERIOD_AMENDMENT_DATE ? rates.beforeAmendment : rates.fromAmendment;
+}
+
+/**
+ * Gets the surcharge rate on capital gains tax for a total income
+ *
+ * @param totalIncome - Total income including the taxable gains
+ * @returns Surcharge rate, capped for capital gains
+ */
+export function getSurchargeRate(totalIncome: number): number {
+	const tier = SURCHARGE_TIERS.find((t) => totalIncome > t.above);
+	return Math.min(tier?.rate ?? 0, CAPITAL_GAINS_SURCHARGE_CAP);
+}
+
+/**
+ * Options for a tax estimate
+ */
+export interface TaxEstimateOptions {
+	/** Other taxable income, used only to pick the surcharge tier */
+	otherIncome?: number;
+	/** Losses not yet realized (e.g., selected for harvesting), set off as if booked this FY */
+	harvestedLosses?: CapitalLosses;
+	/** Losses of earlier years usable this FY (see `getUsableLosses`), set off after this FY's own */
+	broughtForward?: CarryForwardLoss[];
+}
+
+/**
+ * Estimates the tax on the capital gains of one financial year
+ *
+ * Each gain is taxed at the rate in force on its sell date, so FY 2024-25
+ * splits into slices at the old and new rates. Losses are set off with
+ * `setOffLosses`, which also applies the 112A exemption. Surcharge is picked
+ * from the tier of other income plus the gains and capped at 15%; marginal
+ * relief and the basic exemption limit are ignored.
+ *
+ * @param entries - Realized gain entries (entries outside the FY are ignored)
+ * @param fyStart - 1 April of the FY to estimate
+ * @param options - Other income for the surcharge tier, losses about to be harvested and brought-forward losses
+ * @returns Estimated tax with its per-rate breakdown
+ */
+export function estimateCapitalGainsTax(
+	entries: RealizedGainEntry[],
+	fyStart: Date,
+	options: TaxEstimateOptions = {}
+): TaxEstimate {
+	const { otherIncome = 0, harvestedLosses, broughtForward = [] } = options;
+	const slices = new Map<string, TaxSlice>();
+	let shortTermLoss = harvestedLosses?.shortTerm ?? 0;
+	let longTermLoss = harvestedLosses?.longTerm ?? 0;
+	let slabRateGains = 0;
+
+	for (const entry of entries) {
+		if (!isInFy(entry.sellDate, fyStart)) {
+			continue;
+		}
+
+		const isShortTerm = entry.classification === 'SHORT_TERM';
+		if (entry.gainLoss < 0) {
+			if (isShortTerm) {
+				shortTermLoss += -entry.gainLoss;
+			} else {
+				longTermLoss += -entry.gainLoss;
+			}
+			continue;
+		}
+
+		const isEquity = EQUITY_ASSET_CLASSES.has(entry.assetClass);
+		if (isShortTerm && !isEquity) {
+			slabRateGains += entry.gainLoss;
+			continue;
+		}
+
+		const section: CapitalGainsSection = isShortTerm ? '111A' : isEquity && !entry.sttNotPaid ? '112A' : '112';
+		const rate = getCapitalGainsRate(section, entry.sellDate);
+		const key = `${section}:${rate}`;
+		const slice = slices.get(key) ?? { section, rate, gain: 0, taxableGain: 0, tax: 0 };
+		slice.gain += entry.gainLoss;
+		slice.taxableGain += entry.gainLoss;
+		slices.set(key, slice);
+	}
+
+	const exemption = getLtcgExemption(fyStart);
+	const setOff = setOffLosses(
+		Array.from(slices.values()),
+		{ shortTerm: shortTermLoss, longTerm: longTermLoss },
+		exemption,
+		broughtForward
+	);
+
+	for (const slice of setOff.slices) {
+		slice.tax = slice.taxableGain * slice.rate;
+	}
+
+	const tax = setOff.slices.reduce((sum, slice) => sum + slice.tax, 0);
+	const taxableGains = setOff.slices.reduce((sum, slice) => sum + slice.taxableGain, 0);
+	const surchargeRate = tax > 0 ? getSurchargeRate(otherIncome + taxableGains + slabRateGains) : 0;
+	const surcharge = tax * surchargeRate;
+	const cess = (tax + surcharge) * HEALTH_EDUCATION_CESS_RATE;
+
+	return {
+		slices: setOff.slices,
+		exemption,
+		exemptionUsed: setOff.exemptionUsed,
+		tax,
+		surchargeRate,
+		surcharge,
+		cess,
+		totalTax: tax + surcharge + cess,
+		slabRateGains,
+		carryForward: setOff.carryForward,
+		broughtForward: setOff.broughtForward
+	};
+}
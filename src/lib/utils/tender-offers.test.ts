@@ -0,0 +1,94 @@
+/**
+ * Unit tests for buyback tender offers
+ * Tests tender-offer detection, manual tags and the deemed dividend summary
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyTenderOfferTags, isTenderOfferRow, summarizeTenderOffers } from './tender-offers';
+import type { RealizedGainEntry, TradeRecord } from '$lib/types';
+
+/**
+ * Helper to create a sell trade
+ */
+function createSell(tradeId: string, overrides: Partial<TradeRecord> = {}): TradeRecord {
+	return {
+		tradeId,
+		symbol: 'TCS',
+		isin: 'INE467B01029',
+		tradeDate: new Date(2025, 11, 10),
+		exchange: 'NSE',
+		tradeType: 'sell',
+		quantity: 10,
+		price: 4500,
+		...overrides
+	};
+}
+
+describe('isTenderOfferRow', () => {
+	const row = {
+		symbol: 'TCS',
+		isin: 'INE467B01029',
+		trade_date: '2025-12-10',
+		exchange: 'NSE',
+		segment: 'EQ',
+		trade_type: 'sell',
+		quantity: '10',
+		price: '4500',
+		trade_id: 'T1'
+	};
+
+	it('should flag sells in the buyback series or marked as auction trades', () => {
+		expect(isTenderOfferRow({ ...row, series: 'bb' })).toBe(true);
+		expect(isTenderOfferRow({ ...row, series: 'EQ', auction: 'TRUE' })).toBe(true);
+		expect(isTenderOfferRow({ ...row, series: 'EQ', auction: 'false' })).toBe(false);
+		expect(isTenderOfferRow(row)).toBe(false);
+	});
+
+	it('should never flag buys', () => {
+		expect(isTenderOfferRow({ ...row, trade_type: 'buy', series: 'BB' })).toBe(false);
+	});
+});
+
+describe('applyTenderOfferTags', () => {
+	it('should tag and untag sells, leaving buys and untagged trades alone', () => {
+		const trades = [
+			createSell('S1'),
+			createSell('S2', { tenderOffer: true }),
+			createSell('B1', { tradeType: 'buy' }),
+			createSell('S3', { tenderOffer: true })
+		];
+
+		const tagged = applyTenderOfferTags(trades, { S1: true, S2: false, B1: true });
+
+		expect(tagged.map((trade) => trade.tenderOffer)).toEqual([true, undefined, undefined, true]);
+		expect('tenderOffer' in tagged[1]).toBe(false);
+	});
+});
+
+describe('summarizeTenderOffers', () => {
+	it('should total deemed dividend and capital loss of tendered entries from the period start', () => {
+		const base: RealizedGainEntry = {
+			symbol: 'TCS',
+			exchange: 'NSE',
+			quantity: 10,
+			sellDate: new Date(2025, 11, 10),
+			sellPrice: 4500,
+			purchasePrice: 3000,
+			purchaseDate: new Date(2023, 0, 5),
+			gainLoss: -30000,
+			deemedDividend: 45000,
+			classification: 'LONG_TERM'
+		};
+		const entries = [
+			base,
+			{ ...base, sellDate: new Date(2025, 0, 10) },
+			{ ...base, deemedDividend: undefined, gainLoss: 15000 }
+		];
+
+		const summary = summarizeTenderOffers(entries, new Date(2025, 3, 1));
+
+		expect(summary.deemedDividend).toBe(45000);
+		expect(summary.capitalLoss).toBe(30000);
+		expect(summary.entries).toEqual([base]);
+	});
+});
@@ -0,0 +1,104 @@
+/**
+ * Buyback Tender Offers
+ * Flags sells accepted in a company buyback and summarizes them under the
+ * rules from 1 Oct 2024: proceeds are a deemed dividend and the cost of the
+ * extinguished shares is a capital loss
+ */
+
+import type { RawTradeFields } from './brokers/types';
+import type { RealizedGainEntry, TenderOfferSummary, TradeRecord } from '$lib/types';
+
+/**
+ * Buybacks from this date are taxed as dividend in the shareholder's hands
+ * Earlier buybacks were taxed on the company (Section 115QA) and exempt for
+ * the shareholder (Section 10(34A))
+ */
+export const BUYBACK_DEEMED_DIVIDEND_DATE = new Date(2024, 9, 1);
+
+/**
+ * Section 115QA reached buybacks of listed shares from this date (Finance (No. 2) Act 2019)
+ * Listed tenders before it were ordinary sales, with capital gains for the shareholder
+ */
+export const LISTED_BUYBACK_EXEMPTION_DATE = new Date(2019, 6, 5);
+
+/**
+ * Series codes of orders placed in the exchange's buyback acquisition window
+ */
+const TENDER_OFFER_SERIES = new Set(['BB']);
+
+/**
+ * Checks whether a raw tradebook row is a sell accepted in a buyback tender offer
+ * Tender acceptances settle through the acquisition window, which exports
+ * mark with a buyback series or as an auction trade
+ *
+ * @param row - Raw trade fields from a broker adapter
+ * @returns True for tender-offer sells
+ */
+export function isTenderOfferRow(row: RawTradeFields): boolean {
+	if (row.trade_type?.trim().toLowerCase() !== 'sell') {
+		return false;
+	}
+
+	const series = row.series?.trim().toUpperCase() ?? '';
+	return TENDER_OFFER_SERIES.has(series) || row.auction?.trim().toLowerCase() === 'true';
+}
+
+/**
+ * Applies manual tender-offer tags on top of the flags read from the tradebook
+ * Only sells can be tagged; a false tag clears a flag detected from the file
+ *
+ * @param trades - Merged trades from all files
+ * @param tags - Tender-offer flag per trade ID, as set by the user
+ * @returns Trades with the tagged flag applied
+ */
+export function applyTenderOfferTags(trades: TradeRecord[], tags: Record<string, boolean>): TradeRecord[] {
+	return trades.map((trade) => {
+		const tag = tags[trade.tradeId];
+		if (tag === undefined || trade.tradeType !== 'sell') {
+			return trade;
+		}
+
+		if (tag) {
+			return { ...trade, tenderOffer: true };
+		}
+		const untagged = { ...trade };
+		delete untagged.tenderOffer;
+		return untagged;
+	});
+}
+
+/**
+ * Checks whether a tender-offer sell falls under the deemed dividend rules
+ */
+export function isDeemedDividendBuyback(trade: TradeRecord): boolean {
+	return trade.tenderOffer === true && trade.tradeDate >= BUYBACK_DEEMED_DIVIDEND_DATE;
+}
+
+/**
+ * Checks whether a tender-offer sell was exempt for the shareholder (Section 10(34A))
+ * Applies from 5 Jul 2019 until the deemed dividend rules; tradebook sells are of listed shares
+ */
+export function isExemptBuyback(trade: TradeRecord): boolean {
+	return (
+		trade.tenderOffer === true &&
+		trade.tradeDate >= LISTED_BUYBACK_EXEMPTION_DATE &&
+		trade.tradeDate < BUYBACK_DEEMED_DIVIDEND_DATE
+	);
+}
+
+/**
+ * Totals the deemed dividend and capital loss of tender offers from a date
+ *
+ * @param entries - Realized gain entries of all sells
+ * @param fromDate - Start of the period (e.g., the current FY start)
+ * @returns Deemed dividend, capital loss and the tendered entries
+ */
+export function summarizeTenderOffers(entries: RealizedGainEntry[], fromDate: Date): TenderOfferSummary {
+	const tendered = entries.filter((entry) => entry.deemedDividend !== undefined && entry.sellDate >= fromDate);
+
+	return {
+		deemedDividend: tendered.reduce((sum, entry) => sum + (entry.deemedDividend ?? 0), 0),
+		capitalLoss: tendered.reduce((sum, entry) => sum - entry.gainLoss, 0),
+		entries: tendered
+	};
+}
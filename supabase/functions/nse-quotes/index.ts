@@ -3,9 +3,10 @@
  *
  * Fetches current stock prices for Indian stocks from Yahoo Finance.
  * Uses .NS suffix for NSE stocks and .BO for BSE stocks.
+ * With a date, returns the closing price of the last session on or before it.
  *
  * @endpoint POST /functions/v1/nse-quotes
- * @body { symbols: string[] }
+ * @body { symbols: string[], date?: string (YYYY-MM-DD) }
  * @returns { quotes: Record<string, QuoteData>, errors: string[] }
  */
 
@@ -28,6 +29,10 @@ const MAX_RETRIES = 2;
 const INITIAL_RETRY_DELAY_MS = 500;
 const DELAY_BETWEEN_REQUESTS_MS = 100;
 
+// Sessions looked back from a requested date, to cover weekends and holidays
+const HISTORY_LOOKBACK_DAYS = 10;
+const DAY_SECONDS = 24 * 60 * 60;
+
 // CORS headers for the response
 const CORS_HEADERS = {
   "Access-Control-Allow-Origin": "*",
@@ -42,17 +47,51 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Builds the Yahoo chart URL for today's quote or for the sessions up to a date
+ */
+function buildChartUrl(yahooSymbol: string, date?: string): string {
+  const base = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(yahooSymbol)}?interval=1d`;
+  if (!date) {
+    return `${base}&range=1d`;
+  }
+
+  // Sessions from a few days before the date up to the end of the date
+  const dayStart = Date.parse(`${date}T00:00:00Z`) / 1000;
+  const period1 = dayStart - HISTORY_LOOKBACK_DAYS * DAY_SECONDS;
+  const period2 = dayStart + DAY_SECONDS;
+  return `${base}&period1=${period1}&period2=${period2}`;
+}
+
+/**
+ * Reads the last close on or before the requested date, and the change from the session before it
+ */
+function readHistoricalClose(result: any): QuoteData | null {
+  const closes: (number | null)[] = result?.indicators?.quote?.[0]?.close ?? [];
+  const sessions = closes.filter((close): close is number => typeof close === "number");
+  if (sessions.length === 0) {
+    return null;
+  }
+
+  const lastPrice = sessions[sessions.length - 1];
+  const previousClose = sessions.length > 1 ? sessions[sessions.length - 2] : lastPrice;
+  const change = lastPrice - previousClose;
+  const pChange = previousClose !== 0 ? (change / previousClose) * 100 : 0;
+
+  return { lastPrice, change, pChange };
+}
+
 /**
  * Fetch quote from Yahoo Finance
  * Yahoo uses .NS suffix for NSE stocks and .BO for BSE
  */
-async function fetchFromYahoo(symbol: string, retryCount = 0): Promise<QuoteData> {
+async function fetchFromYahoo(symbol: string, date?: string, retryCount = 0): Promise<QuoteData> {
   // Try NSE first (.NS suffix), then BSE (.BO suffix)
   const suffixes = [".NS", ".BO"];
 
   for (const suffix of suffixes) {
     const yahooSymbol = `${symbol.toUpperCase()}${suffix}`;
-    const url = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(yahooSymbol)}?interval=1d&range=1d`;
+    const url = buildChartUrl(yahooSymbol, date);
 
     try {
       const response = await fetch(url, {
@@ -70,6 +109,14 @@ async function fetchFromYahoo(symbol: string, retryCount = 0): Promise<QuoteData
       const data = await response.json();
       const result = data?.chart?.result?.[0];
 
+      if (date) {
+        const historical = readHistoricalClose(result);
+        if (!historical) {
+          continue; // Try next suffix
+        }
+        return historical;
+      }
+
       if (!result?.meta?.regularMarketPrice) {
         continue; // Try next suffix
       }
@@ -96,7 +143,7 @@ async function fetchFromYahoo(symbol: string, retryCount = 0): Promise<QuoteData
     const delay = INITIAL_RETRY_DELAY_MS * Math.pow(2, retryCount);
     console.log(`All suffixes failed for ${symbol}, retrying in ${delay}ms`);
     await sleep(delay);
-    return fetchFromYahoo(symbol, retryCount + 1);
+    return fetchFromYahoo(symbol, date, retryCount + 1);
   }
 
   throw new Error(`No data found for ${symbol}`);
@@ -126,6 +173,7 @@ serve(async (req: Request): Promise<Response> => {
     // Parse request body
     const body = await req.json();
     const symbols: string[] = body.symbols;
+    const date: string | undefined = body.date;
 
     // Validate input
     if (!symbols || !Array.isArray(symbols) || symbols.length === 0) {
@@ -140,6 +188,18 @@ serve(async (req: Request): Promise<Response> => {
       );
     }
 
+    if (date !== undefined && (typeof date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date)))) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid request: date must be YYYY-MM-DD",
+        }),
+        {
+          status: 400,
+          headers: { ...CORS_HEADERS, "Content-Type": "application/json" },
+        }
+      );
+    }
+
     // Limit number of symbols per request
     const MAX_SYMBOLS = 10;
     if (symbols.length > MAX_SYMBOLS) {
@@ -154,7 +214,7 @@ serve(async (req: Request): Promise<Response> => {
       );
     }
 
-    console.log(`Fetching quotes for ${symbols.length} symbols`);
+    console.log(`Fetching quotes for ${symbols.length} symbols${date ? ` as of ${date}` : ""}`);
 
     // Fetch quotes for each symbol
     const result: QuotesResponse = {
@@ -170,7 +230,7 @@ serve(async (req: Request): Promise<Response> => {
       }
 
       try {
-        const quote = await fetchFromYahoo(symbol);
+        const quote = await fetchFromYahoo(symbol, date);
         result.quotes[symbol] = quote;
         console.log(`Got quote for ${symbol}: ${quote.lastPrice}`);
       } catch (error) {
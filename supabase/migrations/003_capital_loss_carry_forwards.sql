@@ -0,0 +1,40 @@
+-- Migration: Create capital_loss_carry_forwards table
+-- Description: Stores the user's Schedule CFL ledger - unabsorbed capital losses of past years
+-- that can be set off against capital gains for eight assessment years
+
+-- Create capital_loss_carry_forwards table
+CREATE TABLE capital_loss_carry_forwards (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    loss_fy INTEGER NOT NULL,
+    short_term_loss DECIMAL(14, 2) NOT NULL DEFAULT 0 CHECK (short_term_loss >= 0),
+    long_term_loss DECIMAL(14, 2) NOT NULL DEFAULT 0 CHECK (long_term_loss >= 0),
+    filed_on_time BOOLEAN NOT NULL DEFAULT TRUE,
+    source VARCHAR(10) NOT NULL DEFAULT 'ITR',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (user_id, loss_fy)
+);
+
+-- Add comments for documentation
+COMMENT ON TABLE capital_loss_carry_forwards IS 'Capital losses carried forward from past financial years (Schedule CFL)';
+COMMENT ON COLUMN capital_loss_carry_forwards.id IS 'Primary key UUID';
+COMMENT ON COLUMN capital_loss_carry_forwards.user_id IS 'Foreign key to auth.users - owner of this ledger entry';
+COMMENT ON COLUMN capital_loss_carry_forwards.loss_fy IS 'Calendar year the loss FY starts in (e.g., 2023 for FY 2023-24)';
+COMMENT ON COLUMN capital_loss_carry_forwards.short_term_loss IS 'Short-term capital loss still to be set off';
+COMMENT ON COLUMN capital_loss_carry_forwards.long_term_loss IS 'Long-term capital loss still to be set off';
+COMMENT ON COLUMN capital_loss_carry_forwards.filed_on_time IS 'Whether the return for the loss year was filed by the due date (Section 80)';
+COMMENT ON COLUMN capital_loss_carry_forwards.source IS 'Where the balance came from: ITR (entered from a filed return) or TRADEBOOK';
+COMMENT ON COLUMN capital_loss_carry_forwards.created_at IS 'Record creation timestamp';
+COMMENT ON COLUMN capital_loss_carry_forwards.updated_at IS 'Last time the balance was saved';
+
+-- Enable Row Level Security
+ALTER TABLE capital_loss_carry_forwards ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can manage their own ledger (SELECT, INSERT, UPDATE, DELETE)
+CREATE POLICY "Users can manage own carry forwards" ON capital_loss_carry_forwards
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+-- The unique (user_id, loss_fy) constraint also serves lookups by user_id